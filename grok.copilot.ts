@@ -1,77 +1,873 @@
-import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
-import { createMint, getMint, getOrCreateAssociatedTokenAccount, mintTo, setAuthority, TOKEN_2022_PROGRAM_ID, getTokenAccountBalance } from '@solana/spl-token';
-import { createMetadataAccountV3, updateMetadataAccountV3 } from '@metaplex-foundation/mpl-token-metadata';
+import { AccountInfo, AddressLookupTableAccount, AddressLookupTableProgram, ComputeBudgetInstruction, ComputeBudgetProgram, Connection, Keypair, LAMPORTS_PER_SOL, Message, NONCE_ACCOUNT_LENGTH, PACKET_DATA_SIZE, PublicKey, SystemInstruction, SystemProgram, Transaction, SendTransactionError, TransactionError, TransactionInstruction, TransactionMessage, VersionedMessage, VersionedTransaction } from '@solana/web3.js';
+import {
+  getMint,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToCheckedInstruction,
+  createTransferCheckedInstruction,
+  createSetAuthorityInstruction,
+  AuthorityType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AccountState,
+  ExtensionType,
+  getMintLen,
+  getExtensionTypes,
+  createInitializeMintInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeDefaultAccountStateInstruction,
+  createThawAccountInstruction,
+  createWithdrawWithheldTokensFromAccountsInstruction,
+  createWithdrawWithheldTokensFromMintInstruction,
+  createSetTransferFeeInstruction,
+  getTransferFeeConfig,
+  getTransferFeeAmount,
+  getMetadataPointerState,
+  getMintCloseAuthority,
+  getInterestBearingMintConfigState,
+  getNonTransferable,
+  getPermanentDelegate,
+  getDefaultAccountState,
+  getTokenMetadata,
+  unpackAccount,
+  unpackMint,
+  ACCOUNT_SIZE,
+  TYPE_SIZE,
+  LENGTH_SIZE,
+} from '@solana/spl-token';
+import { createInitializeInstruction, createUpdateAuthorityInstruction, createUpdateFieldInstruction, pack, TokenMetadata } from '@solana/spl-token-metadata';
+import * as multisig from '@sqds/multisig';
+import { Uploader } from '@irys/upload';
+import { Solana } from '@irys/upload-solana';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as util from 'util';
+import { spawn } from 'child_process';
+import bs58 from 'bs58';
 import * as dotenv from 'dotenv';
-import { createInterface } from 'readline';
+import { createInterface, Interface } from 'readline';
 
 dotenv.config();
 
-const OWNER_ADDRESS = 'EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6';
-const rl = createInterface({ input: process.stdin, output: process.stdout });
+const MANIFEST_VERSION = 1;
+const MAINNET_GENESIS_HASH = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d';
+const OFFLINE_BUNDLE_VERSION = 1;
+const KEYSTORE_VERSION = 1;
+const AUDIT_REPORT_VERSION = 1;
+const SNAPSHOT_VERSION = 1;
+const NONCE_SETTLE_MS = 60_000; // how long an unconfirmed durable-nonce send may still land before it is cancelled
+const MAX_COMPUTE_UNITS = 1_400_000;
+const COMPUTE_UNIT_MARGIN = 1.1; // over the units a simulation consumed
+const FALLBACK_COMPUTE_UNITS = 200_000; // per instruction, when a transaction cannot be simulated before earlier ones land
+const MIN_ESCALATED_MICRO_LAMPORTS = 10_000; // where a rebuild starts escalating after a zero-fee estimate
+const LOOKUP_TABLE_MAX_ADDRESSES = 256;
+const LOOKUP_TABLE_EXTEND_CHUNK = 20; // addresses per extend transaction
+const RELAYER_ATTEMPTS = 3; // per POST, with exponential backoff
+const CONFIRM_POLL_MS = 1_000;
+const REBROADCAST_MS = 4_000; // how often an unconfirmed transaction is sent again while its blockhash is valid
+// Process exit codes of the CLI, documented in the README for CI pipelines.
+const EXIT_CODES = {
+  ok: 0,
+  error: 1, // RPC, relayer or on-chain failure
+  usage: 2, // unknown command or flag, missing argument
+  config: 3, // invalid manifest or .env, no manifest
+  notConfirmed: 4, // a confirmation was declined, or needed --yes without a terminal
+  verifyFailed: 5, // verify, promote or verify-report found a mismatch or a bad signature, or init --check found drift
+  awaitingSignatures: 6, // transactions were exported for offline signing
+  policyRefused: 7, // mint-more would break the manifest's mintPolicy, or supply no longer matches the issuance ledger
+  refused: 8, // rollback would delete a USER_AUTH key that still holds on-chain authorities
+} as const;
+// Opened on the first prompt, so commands that never ask (and the tests importing this file) leave stdin alone.
+let rl: Interface | null = null;
+
+// With --json, stdout carries only the result object, so prompts and progress go to stderr.
+function getReadline(): Interface {
+  rl ??= createInterface({ input: process.stdin, output: process.argv.includes('--json') ? process.stderr : process.stdout });
+  return rl;
+}
+
+// An Error carrying the exit code the CLI should end with.
+function cliError(message: string, exitCode: number): Error {
+  return Object.assign(new Error(message), { exitCode });
+}
+
+// The message of anything thrown, Error or not.
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
 
 async function askQuestion(question: string): Promise<string> {
-  return new Promise((resolve) => rl.question(question, resolve));
+  return new Promise((resolve) => getReadline().question(question, resolve));
+}
+
+// Like askQuestion, but the answer is not echoed to the terminal.
+async function askSecret(question: string): Promise<string> {
+  if (!process.stdin.isTTY) throw cliError(`${question.trim()} No terminal to ask on; set KEYSTORE_PASSPHRASE.`, EXIT_CODES.config);
+  const rl = getReadline();
+  const output = rl as unknown as { _writeToOutput: (text: string) => void; output: NodeJS.WritableStream };
+  const write = output._writeToOutput;
+  output.output.write(question);
+  output._writeToOutput = () => {};
+  try {
+    return await new Promise((resolve) => rl.question('', resolve));
+  } finally {
+    output._writeToOutput = write;
+    output.output.write('\n');
+  }
+}
+
+// Yes/no confirmation: --yes answers it, and without a terminal it fails instead of waiting on stdin forever.
+async function confirmAction(question: string): Promise<boolean> {
+  if (process.argv.includes('--yes')) return true;
+  if (!process.stdin.isTTY) throw cliError(`${question} Pass --yes to confirm non-interactively.`, EXIT_CODES.notConfirmed);
+  return (await askQuestion(`${question} (yes/no): `)).toLowerCase() === 'yes';
+}
+
+interface ManifestRecipient {
+  label: string;
+  address: string;
+  amount?: string; // whole tokens, scaled by decimals when minting
+  percent?: number; // share of total supply; set exactly one of amount/percent
+}
+
+interface ResolvedAllocation {
+  label: string;
+  address: PublicKey;
+  amount: bigint; // base units
+}
+
+type JournalStatus = 'intent' | 'exported' | 'signed' | 'sent' | 'confirmed' | 'failed' | 'expired';
+
+interface JournalEntry {
+  id: number;
+  step: string;
+  intent: string;
+  status: JournalStatus;
+  createdAt: string;
+  updatedAt: string;
+  mint?: string; // set by create-mint before sending, so a crash never orphans the mint
+  transaction?: string; // base64, as handed to the relayer
+  blockhash?: string;
+  lastValidBlockHeight?: number;
+  signature?: string;
+  bundle?: string; // offline bundle holding the transaction while it awaits signatures
+  nonceAccount?: string; // durable nonce the transaction advances; blockhash then holds the nonce value
+  error?: string;
+  errorKind?: SendErrorKind;
+}
+
+interface DeploymentJournal {
+  deployment: string;
+  manifest: string;
+  entries: JournalEntry[];
+}
+
+// Where a send failed: relayer (refused or unreachable), rpc (the node failed or timed out), simulation (preflight
+// rejected the transaction, so it never went out), program (it landed and an instruction failed), or expired (its
+// blockhash or nonce moved on before it landed, so it never will).
+type SendErrorKind = 'relayer' | 'rpc' | 'simulation' | 'program' | 'expired';
+
+interface SendError extends Error {
+  kind: SendErrorKind;
+  signature?: string;
+  instruction?: number; // index of the failing instruction, compute budget instructions included
+  logs?: string[];
+}
+
+interface SendHooks {
+  onSigned?: (transaction: string, blockhash: string, lastValidBlockHeight: number) => void;
+  onSent?: (signature: string) => void;
+  onConfirmed?: (signature: string) => void;
+  onSimulated?: (simulation: SimulationSummary) => void;
+}
+
+interface AccountDiff {
+  address: string;
+  change: 'created' | 'modified' | 'closed';
+  owner: string | null;
+  lamportsBefore: number;
+  lamportsAfter: number;
+  dataLenBefore: number;
+  dataLenAfter: number;
+}
+
+interface SimulationSummary {
+  computeUnits: number;
+  fee: number; // lamports
+  rent: number; // lamports locked in newly created accounts
+  logs: string[];
+  accounts: AccountDiff[];
+  error?: string;
+}
+
+interface DryRunStep extends SimulationSummary {
+  step: string;
+  intent: string;
+}
+
+interface DryRunReport {
+  deployment: string;
+  manifest: string;
+  rpcUrl: string;
+  startedAt: string;
+  mint?: string;
+  steps: DryRunStep[];
+}
+
+// The subset of Connection a submitter needs, so a local stand-in can replace the RPC.
+type SubmitterConnection = Pick<Connection, 'getLatestBlockhash' | 'sendRawTransaction' | 'simulateTransaction' | 'getRecentPrioritizationFees' | 'getBlockHeight' | 'getNonce' | 'getSignatureStatuses' | 'getSignaturesForAddress' | 'getTransaction' | 'getTransactions' | 'getAddressLookupTable'>;
+type SimulationConnection = SubmitterConnection & Pick<Connection, 'simulateTransaction' | 'getMultipleAccountsInfo' | 'getFeeForMessage' | 'requestAirdrop' | 'confirmTransaction'>;
+type FetchLike = (url: string, init: { method: string; headers: Record<string, string>; body: string }) => Promise<{ json(): Promise<unknown> }>;
+
+// A successful reply of the relayer and batch relayer contracts (see postToRelayer).
+interface RelayerReply {
+  success: boolean;
+  error?: string;
+  txSignature?: string;
+  txSignatures?: string[];
+}
+
+interface Submitter {
+  name: string;
+  feePayer: PublicKey;
+  // Sets fee payer and blockhash, signs, submits and confirms each transaction; signers[i] and hooks[i] belong to txs[i].
+  send(txs: Transaction[], signers: TransactionSigner[][], hooks: SendHooks[]): Promise<string[]>;
+  // Submits a transaction whose fee payer, blockhash and other signatures were fixed when it was signed offline.
+  sendSigned(tx: Transaction, lastValidBlockHeight: number, hooks: SendHooks): Promise<string>;
+}
+
+// Compute unit price policy for every transaction; see DEFAULT_PRIORITY_FEE.
+interface PriorityFeeConfig {
+  maxMicroLamports?: number; // cap on the compute unit price, escalation included
+  percentile?: number; // of recent prioritization fees paid to write the same accounts
+  attempts?: number; // builds of a transaction before its step fails, each with a fresh blockhash and a higher price
+  escalation?: number; // price multiplier per rebuild
+}
+
+interface SubmitterConfig {
+  type: 'relayer' | 'batch-relayer' | 'rpc';
+  url?: string; // mainnet relayer endpoint, defaults to RELAYER_URL
+  feePayerKeypair?: string; // rpc only: keypair file, defaults to FEE_PAYER_KEYPAIR
+}
+
+interface LookupTableRecord {
+  address: string;
+  createdAt: string;
+}
+
+interface NonceAccountRecord {
+  address: string;
+  authority: string;
+  createdAt: string;
+}
+
+// Signs transaction messages for a key whose secret never enters this process: a remote signer or a Ledger.
+interface ExternalSigner {
+  name: string;
+  publicKey: PublicKey;
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+type TransactionSigner = Keypair | ExternalSigner;
+
+// The successful replies of the remote signer protocol, by route (see remoteSignerRequest).
+interface RemoteSignerReplies {
+  '/public-key': { publicKey: string };
+  '/sign': { signature: string };
+}
+
+// A signer whose secret key may live on another machine; sends with a public-key-only signer are exported for offline signing.
+type AuthorityKey = TransactionSigner | { publicKey: PublicKey };
+
+// Where USER_AUTH signs, from USER_AUTH_SIGNER; see parseSignerSpec.
+type SignerBackend = 'keystore' | 'solana-cli' | 'remote' | 'ledger';
+
+interface SignerSpec {
+  backend: SignerBackend;
+  target?: string; // solana-cli: keypair path, remote: http://127.0.0.1:<port> or unix:<socket>, ledger: derivation path
+}
+
+// One APDU exchange with a Ledger, answered with the response data and the status word.
+interface LedgerTransport {
+  name: string;
+  exchange(apdu: Buffer): Promise<{ data: Buffer; status: number }>;
+}
+
+interface PendingSend {
+  tx: Transaction;
+  signers: AuthorityKey[];
+  step: string;
+  intent: string;
+  extra?: Partial<JournalEntry>;
+  onConfirmed?: (signature: string) => void;
+}
+
+type AllocationStatus = 'pending' | 'minted';
+
+interface AllocationRecord {
+  label: string;
+  amount: string; // base units
+  status: AllocationStatus;
+  signature?: string;
+}
+
+// A CSV row's progress: sent rows are settled from the journal entry with the same intent before anything is resent.
+type AirdropRowStatus = 'pending' | 'sent' | 'paid';
+
+interface AirdropReceipt {
+  line: number; // in the CSV, 1-based
+  recipient: string;
+  amount: string; // base units
+  status: AirdropRowStatus;
+  intent?: string; // of the journal entry that pays the row
+  signature?: string;
+  paidAt?: string;
+}
+
+interface AirdropReceipts {
+  csv: string;
+  mint: string;
+  source: string; // token account the airdrop transfers from
+  rows: AirdropReceipt[];
+}
+
+// A token account of the mint with a balance, as of the snapshot's slot.
+interface HolderAccount {
+  address: string;
+  owner: string;
+  amount: string; // base units
+  frozen: boolean;
+}
+
+// All of one owner's token accounts of the mint together.
+interface Holder {
+  owner: string;
+  amount: string; // base units
+  accounts: number;
+  frozen: string; // base units in frozen accounts
+}
+
+// Concentration is measured over circulating holders only, so the treasury does not dominate it.
+interface SnapshotStats {
+  totalSupply: string; // base units, from the mint
+  circulatingSupply: string; // total supply less the non-circulating owners' balances
+  holders: number;
+  emptyAccounts: number; // token accounts with a zero balance, not listed
+  frozenAccounts: number;
+  frozenAmount: string;
+  top10Share: number; // percent of the circulating supply held by the 10 largest circulating holders
+  nakamoto: number; // fewest circulating holders that together hold more than half of it
+  gini: number; // 0 when every circulating holder holds the same, towards 1 when one holds everything
+}
+
+interface HolderSnapshot {
+  version: number;
+  deployment: string;
+  cluster: ClusterName;
+  mint: string;
+  decimals: number;
+  slot: number; // the slot the RPC node read the accounts at
+  takenAt: string;
+  nonCirculating: string[]; // owners left out of the circulating supply: the treasury and the DAO vault
+  stats: SnapshotStats;
+  holders: Holder[]; // largest first
+  accounts: HolderAccount[];
+}
+
+interface HolderChange {
+  owner: string;
+  kind: 'added' | 'removed' | 'changed';
+  before: string; // base units
+  after: string;
+  change: string;
+}
+
+interface SnapshotDiff {
+  mint: string;
+  from: { slot: number; takenAt: string; holders: number; totalSupply: string };
+  to: { slot: number; takenAt: string; holders: number; totalSupply: string };
+  changes: HolderChange[]; // largest change first
+}
+
+interface ManifestMetadata {
+  description: string;
+  image: string; // URL, or a file next to the manifest that the storage adapter uploads
+  external_url?: string;
+  attributes?: { trait_type: string; value: string | number }[];
+  sellerFeeBasisPoints?: number; // Metaplex only, defaults to 0
+  creators?: { address: string; share: number }[]; // Metaplex only: up to 5, shares summing to 100
+  collection?: string; // Metaplex only: collection mint, written unverified
+}
+
+// The JSON a metadata URI serves, in the Metaplex fungible token standard (see buildMetadataJson).
+interface MetadataJson {
+  name: string;
+  symbol: string;
+  description: string;
+  image: string;
+  external_url?: string;
+  attributes: { trait_type: string; value: string | number }[];
+  properties: { files: { uri: string; type: string }[]; category: 'image' };
+}
+
+interface StorageConfig {
+  type: 'irys' | 'ipfs' | 's3' | 'local';
+  network?: 'mainnet' | 'devnet'; // irys: devnet uploads are free and expire; defaults to devnet off mainnet
+  keypair?: string; // irys: Solana keypair paying for storage, defaults to STORAGE_KEYPAIR
+  url?: string; // ipfs: Kubo-compatible RPC API, defaults to IPFS_API_URL
+  gateway?: string; // irys/ipfs: gateway the URIs point at
+  bucket?: string; // s3
+  region?: string; // s3
+  endpoint?: string; // s3-compatible endpoint (R2, MinIO, ...)
+  publicUrl?: string; // s3/local: base URL the objects are served from
+  dir?: string; // local: directory, defaults to .cache/storage
+}
+
+interface StorageAdapter {
+  name: string;
+  // Stores content under the given (content-addressed) key and returns the URI it is served from.
+  upload(content: Buffer, contentType: string, key: string): Promise<string>;
+}
+
+interface PublishedFile {
+  uri: string;
+  sha256: string;
+  contentType: string;
+}
+
+interface PublishedMetadata {
+  storage: string;
+  image?: PublishedFile; // absent when metadata.image is already a URL
+  json: PublishedFile;
+  publishedAt: string;
+}
+
+// A Metaplex metadata account, decoded up to its collection.
+interface MetaplexMetadata {
+  updateAuthority: PublicKey;
+  mint: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: { address: PublicKey; verified: boolean; share: number }[] | null;
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+  collection: { verified: boolean; key: PublicKey } | null;
+}
+
+// The data field of a Metaplex create or update instruction.
+type MetaplexData = Pick<MetaplexMetadata, 'name' | 'symbol' | 'uri' | 'sellerFeeBasisPoints' | 'creators' | 'collection'> & { uses: null };
+
+// On-chain metadata fields rendered as text, for diffs and the version history.
+type MetadataFields = Record<string, string>;
+
+// A version is pending until the journal entry with its intent confirms; a send that failed drops it.
+interface MetadataVersion {
+  version: number;
+  program: 'token-2022' | 'metaplex';
+  status: 'pending' | 'published';
+  intent: string;
+  uri: string;
+  fields: MetadataFields;
+  finalized?: boolean; // this version made the metadata immutable
+  createdAt: string;
+  signature?: string;
+  publishedAt?: string;
+}
+
+interface MetadataHistory {
+  mint: string;
+  versions: MetadataVersion[];
+}
+
+interface AuthorityPolicy {
+  mode: 'null' | 'dao' | 'treasury';
+  dao?: string; // Squads vault that receives the authorities
+  multisig?: string; // Squads multisig account owning the vault
+  vaultIndex?: number; // defaults to 0
+}
+
+// Limits on issuance after the initial supply; mint-more refuses anything outside them.
+interface MintPolicy {
+  maxSupply: string; // whole tokens: total supply never exceeds it
+  periodLimit?: { amount: string; days: number }; // whole tokens issued within any rolling window of days
+  allowedRecipients?: string[]; // owners mint-more may pay; any owner when absent
+}
+
+// The authorities a mint can carry: its own, those of its Token-2022 extensions, and its metadata update authority.
+type AuthorityRole = 'mint' | 'freeze' | 'transfer-fee-config' | 'withheld-withdraw' | 'close-mint' | 'interest-rate' | 'permanent-delegate' | 'metadata-pointer' | 'metadata-update';
+
+interface AuthorityInfo {
+  role: AuthorityRole;
+  holder: string | null; // null once revoked
+  program: 'token-2022' | 'metaplex'; // the program that changes it
+}
+
+type DaoAction = 'mint-more' | 'update-metadata' | 'set-transfer-fee';
+
+interface DaoProposalRecord {
+  transactionIndex: string;
+  action: DaoAction;
+  params: Record<string, string>;
+  createdAt: string;
+  signature: string;
+}
+
+// An issuance moves from pending (a direct mint, settled from the journal entry with its intent) or proposed (a DAO
+// proposal) to minted, or to cancelled when its send failed or its proposal was rejected.
+type IssuanceStatus = 'pending' | 'proposed' | 'minted' | 'cancelled';
+
+interface IssuanceRecord {
+  id: number;
+  recipient: string;
+  amount: string; // base units
+  memo: string;
+  status: IssuanceStatus;
+  createdAt: string;
+  intent?: string;
+  transactionIndex?: string; // of the DAO proposal
+  signature?: string;
+  mintedAt?: string;
+}
+
+interface IssuanceLedger {
+  mint: string;
+  issuances: IssuanceRecord[];
+}
+
+interface OfflineTransaction {
+  journalEntryId: number;
+  step: string;
+  intent: string;
+  message: string; // base64 serialized message, fixing fee payer, blockhash and instructions
+  blockhash: string;
+  lastValidBlockHeight: number;
+  signers: string[]; // required signers other than the fee payer
+  signatures: Record<string, string>; // signer -> base64 signature
+}
+
+// Transactions exported for signing on an air-gapped machine; signers add signatures until every one is present.
+interface OfflineBundle {
+  version: number;
+  deployment: string;
+  feePayer: string;
+  createdAt: string;
+  transactions: OfflineTransaction[];
+}
+
+interface VerificationCheck {
+  category: 'mint' | 'supply' | 'allocation' | 'authority' | 'metadata' | 'extension';
+  name: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+// On-chain state checked against the manifest. The signature is an ed25519 signature over the JSON of every other field.
+interface AuditReport {
+  version: number;
+  deployment: string;
+  cluster?: ClusterName;
+  manifest: string;
+  manifestSha256: string;
+  rpcUrl: string;
+  genesisHash: string;
+  slot: number;
+  mint: string;
+  generatedAt: string;
+  passed: boolean;
+  checks: VerificationCheck[];
+  signer?: string;
+  signature?: string; // base64
+}
+
+// How the mock relayer fails a request: a { success: false } reply, an HTTP 500, a signature for a transaction it
+// does not forward, or (blackhole) one it never forwards, however often it is sent again.
+type RelayerFailure = 'error' | 'http' | 'drop' | 'blackhole';
+
+interface MockRelayer {
+  url: string;
+  feePayer: Keypair;
+  failures: RelayerFailure[]; // consumed one per request
+  requests: number;
+  close: () => Promise<void>;
+}
+
+// A reference remote signer holding one key; signed counts the messages it signed.
+interface RemoteSignerServer {
+  address: string; // http://127.0.0.1:<port> or unix:<socket>, as USER_AUTH_SIGNER=remote:<address> expects
+  publicKey: PublicKey;
+  signed: number;
+  close: () => Promise<void>;
 }
 
-const REQUIRED_FILES: { [key: string]: string } = {
+// A software Ledger running the Solana app's APDUs, approving every request.
+interface LedgerEmulator {
+  address: string; // host:port, as LEDGER_APDU expects
+  signed: number;
+  close: () => Promise<void>;
+}
+
+// A local webhook endpoint collecting the events POSTed to it; rejected counts events with a wrong or missing signature.
+interface WebhookReceiver {
+  url: string;
+  events: DeploymentEvent[];
+  rejected: number;
+  close: () => Promise<void>;
+}
+
+// A check whose on-chain value differs between the source and target of a promotion. Expected differences are those the
+// manifest itself resolves differently per cluster, such as the mint address or the hosted metadata URI.
+interface PromotionDifference {
+  check: string;
+  source: string;
+  target: string;
+  expected: boolean;
+}
+
+type ClusterName = 'localnet' | 'devnet' | 'testnet' | 'mainnet';
+
+// Read from .env.<cluster>; mainnet also falls back to the plain .env values.
+interface ClusterProfile {
+  name: ClusterName;
+  rpcUrl: string;
+  relayerUrl?: string;
+  relayerPubkey?: string;
+  relayerApiKey?: string;
+  submitter?: string;
+  feePayerKeypair?: string;
+  explorerUrl: string; // template: {kind} is address or tx, {id} the address or signature
+  genesisHash?: string; // checked against the RPC so a profile cannot point at the wrong cluster
+}
+
+// A passphrase-encrypted secret key: scrypt derives the AES-256-GCM key.
+interface KeystoreFile {
+  version: number;
+  publicKey: string;
+  kdf: 'scrypt';
+  salt: string; // hex
+  n: number;
+  r: number;
+  p: number;
+  cipher: 'aes-256-gcm';
+  iv: string; // hex
+  tag: string; // hex
+  ciphertext: string; // hex
+}
+
+interface TokenExtensions {
+  transferFee?: { feeBasisPoints: number; maxFee: string; authority?: string; withdrawAuthority?: string };
+  metadataPointer?: { authority?: string };
+  interestBearing?: { rate: number; authority?: string };
+  nonTransferable?: boolean;
+  permanentDelegate?: string;
+  defaultAccountState?: 'initialized' | 'frozen';
+}
+
+interface TokenManifest {
+  version: number;
+  name: string;
+  symbol: string;
+  decimals: number;
+  supply: string; // whole tokens
+  treasury: string;
+  recipients?: ManifestRecipient[];
+  allocationTable?: string; // CSV or JSON file, relative to the manifest; replaces recipients
+  metadata: ManifestMetadata;
+  authority: AuthorityPolicy;
+  mintPolicy?: MintPolicy;
+  extensions: TokenExtensions;
+  submitter?: SubmitterConfig;
+  durableNonce?: boolean; // build step transactions on durable nonces; defaults to on with --offline
+  priorityFee?: PriorityFeeConfig;
+  storage?: StorageConfig; // hosts the image and metadata JSON; without it the JSON is embedded as a data: URI
+}
+
+type ProjectTemplate = 'simple' | 'fee-bearing' | 'dao';
+
+// What init renders a new manifest from: flags, answers on a terminal, or, for an existing manifest, the manifest itself.
+interface ScaffoldParams {
+  template: ProjectTemplate;
+  name: string;
+  symbol: string;
+  decimals: number;
+  supply: string; // whole tokens
+  treasury: string;
+  feeBasisPoints?: number; // fee-bearing
+  maxFee?: string; // fee-bearing, whole tokens
+  dao?: string; // dao: the Squads vault
+  multisig?: string; // dao: the Squads multisig
+}
+
+// A project file as init found it: drifted files differ from what the template renders now, shown as a line diff.
+interface ScaffoldFile {
+  file: string;
+  status: 'created' | 'unchanged' | 'kept' | 'drifted' | 'missing';
+  diff?: string[];
+}
+
+const DEFAULT_MANIFEST: TokenManifest = {
+  version: MANIFEST_VERSION,
+  name: 'Omega Prime Token',
+  symbol: 'ΩAGENT',
+  decimals: 9,
+  supply: '1000000000',
+  treasury: 'EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6',
+  recipients: [
+    { label: 'treasury', address: 'EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6', amount: '1000000000' },
+  ],
+  metadata: {
+    description: 'Agent guild utility token powering Ω-Prime automations on Solana.',
+    image: 'https://<site>/logo.png',
+    external_url: 'https://<site>',
+    attributes: [],
+  },
+  authority: { mode: 'null' },
+  // Native metadata, so the JSON can be embedded as a data: URI (Metaplex URIs are limited to 200 bytes) and a fresh
+  // manifest deploys without a storage account or an image file.
+  extensions: { metadataPointer: {} },
+};
+
+const CLUSTERS: ClusterName[] = ['localnet', 'devnet', 'testnet', 'mainnet'];
+
+const CLUSTER_DEFAULTS: Record<ClusterName, Omit<ClusterProfile, 'name'>> = {
+  localnet: { rpcUrl: 'http://127.0.0.1:8899', explorerUrl: 'https://explorer.solana.com/{kind}/{id}?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899' },
+  devnet: { rpcUrl: 'https://api.devnet.solana.com', explorerUrl: 'https://explorer.solana.com/{kind}/{id}?cluster=devnet', genesisHash: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG' },
+  testnet: { rpcUrl: 'https://api.testnet.solana.com', explorerUrl: 'https://explorer.solana.com/{kind}/{id}?cluster=testnet', genesisHash: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY' },
+  mainnet: { rpcUrl: 'https://api.mainnet-beta.solana.com', explorerUrl: 'https://explorer.solana.com/{kind}/{id}', genesisHash: MAINNET_GENESIS_HASH },
+};
+
+// What init renders: the manifest from a template and its parameters, the package.json scripts per template, and
+// these files, the same for every project.
+const PROJECT_TEMPLATES: Record<ProjectTemplate, string> = {
+  simple: 'Fungible token with native Token-2022 metadata; mint and freeze authorities revoked after the initial supply',
+  'fee-bearing': 'Token-2022 token with a transfer fee the treasury withdraws, and native metadata',
+  dao: 'Token governed by a Squads vault; further supply only through mint-more, within a mint policy',
+};
+
+const ENV_SAMPLES: Record<string, string> = {
   '.env.sample': `
-RPC_URL=https://api.mainnet-beta.solana.com
+CLUSTER=mainnet # localnet, devnet, testnet or mainnet (--cluster overrides); .env.<cluster> holds each profile
+RPC_URL=https://api.mainnet-beta.solana.com # mainnet profile, unless .env.mainnet sets it
 RELAYER_URL=https://<your-relayer-domain>/relay/sendRawTransaction
 RELAYER_PUBKEY=<RELAYER_FEE_PAYER_PUBKEY>
-TREASURY_PUBKEY=EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6
-DAO_PUBKEY=<YOUR_DAO_MULTISIG_PUBKEY> # Optional
-AUTHORITY_MODE=null # Options: null, dao, treasury
+EXPLORER_URL=https://explorer.solana.com/{kind}/{id} # Optional
+MANIFEST_PATH=token.manifest.json # Optional, --config <path> overrides
 DRY_RUN=false
+DRY_RUN_RPC_URL=http://127.0.0.1:8899 # Local or forked validator used by dry runs
+DRY_RUN_REPORT=text # text or json, --report overrides
 RELAYER_API_KEY=<YOUR_API_KEY> # Optional
+SUBMITTER=relayer # Optional, overrides manifest submitter.type: relayer, batch-relayer, rpc
+FEE_PAYER_KEYPAIR=<PATH_TO_KEYPAIR_JSON> # Required by the rpc submitter
+KEYSTORE_PASSPHRASE= # Optional, unlocks the USER_AUTH keystore without prompting
+SIGNING=online # online or offline (--offline overrides)
+USER_AUTH_PUBKEY= # Required for offline signing without a local keystore
+USER_AUTH_SIGNER=keystore # keystore, solana-cli[:<path>], remote:<http://127.0.0.1:<port> | unix:<socket>> or ledger[:<derivation path>]
+REMOTE_SIGNER_TOKEN= # Optional bearer token shared with a remote signer
+LEDGER_APDU=127.0.0.1:9999 # APDU socket of a Ledger (Speculos framing) or the ledger-emulator command
+AUDIT_KEYPAIR= # Optional, signs audit reports instead of USER_AUTH
+STORAGE_KEYPAIR=<PATH_TO_KEYPAIR_JSON> # Pays irys (Arweave) uploads
+IPFS_API_URL= # Kubo-compatible RPC API for the ipfs storage
+IPFS_API_TOKEN= # Optional bearer token for IPFS_API_URL
+AWS_ACCESS_KEY_ID= # s3 storage
+AWS_SECRET_ACCESS_KEY= # s3 storage
+LOG_FORMAT=text # text or json: one JSON object per log line, with the deployment, run and step ids
+METRICS_FILE= # Optional, Prometheus metrics rewritten after every step (for a node_exporter textfile collector)
+METRICS_PORT= # Optional, serves Prometheus metrics on 127.0.0.1:<port>/metrics while the copilot runs
+WEBHOOK_URLS= # Optional, comma-separated endpoints that receive step and irreversible-action events
+WEBHOOK_SECRET= # Optional, signs webhook bodies (X-Grok-Signature: sha256=<HMAC>)
+WEBHOOK_EVENTS= # Optional, comma-separated events to send (default: all)
+`,
+  '.env.devnet.sample': `
+RPC_URL=https://api.devnet.solana.com
+RELAYER_URL=https://<your-devnet-relayer-domain>/relay/sendRawTransaction
+RELAYER_PUBKEY=<DEVNET_RELAYER_FEE_PAYER_PUBKEY>
+RELAYER_API_KEY= # Optional
+EXPLORER_URL=https://explorer.solana.com/{kind}/{id}?cluster=devnet
+`,
+  '.env.testnet.sample': `
+RPC_URL=https://api.testnet.solana.com
+RELAYER_URL=https://<your-testnet-relayer-domain>/relay/sendRawTransaction
+RELAYER_PUBKEY=<TESTNET_RELAYER_FEE_PAYER_PUBKEY>
+RELAYER_API_KEY= # Optional
+EXPLORER_URL=https://explorer.solana.com/{kind}/{id}?cluster=testnet
+`,
+  '.env.localnet.sample': `
+RPC_URL=http://127.0.0.1:8899
+SUBMITTER=rpc # no relayer on a local validator
+FEE_PAYER_KEYPAIR=<PATH_TO_KEYPAIR_JSON> # e.g. ~/.config/solana/id.json, airdropped with solana airdrop
+EXPLORER_URL=https://explorer.solana.com/{kind}/{id}?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899
 `,
-  '.gitignore': `
+};
+
+const GITIGNORE = `
 .env
+.env.*
+!.env.*.sample
 .cache/
 node_modules/
-`,
-  'package.json': JSON.stringify({
-    name: 'stunning-solana',
-    version: '1.0.0',
-    scripts: {
-      'mainnet:copilot': 'ts-node grok-copilot.ts',
-      'mainnet:all': 'ts-node grok-copilot.ts --all'
-    },
-    dependencies: {
-      '@solana/web3.js': '^1.95.3',
-      '@solana/spl-token': '^0.4.8',
-      '@metaplex-foundation/mpl-token-metadata': '^3.2.1',
-      'bs58': '^6.0.0',
-      'dotenv': '^16.4.5'
-    },
-    devDependencies: {
-      '@types/node': '^22.7.4',
-      'ts-node': '^10.9.2',
-      'typescript': '^5.6.2'
-    }
-  }, null, 2),
-  'tsconfig.json': JSON.stringify({
-    compilerOptions: {
-      target: 'ES2020',
-      module: 'commonjs',
-      strict: true,
-      esModuleInterop: true,
-      outDir: './dist',
-      rootDir: '.'
-    },
-    include: ['grok-copilot.ts']
-  }, null, 2),
-  'README.md': `# Stunning Solana: Omega Prime Token Deployment
-
-This repository deploys an SPL Token-2022 (ΩAGENT) on Solana mainnet-beta with zero SOL cost using a relayer. The \`grok-copilot.ts\` script handles all deployment steps interactively, with the treasury owner set to EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6.
+`;
+
+const STARTER_TEST = `// Starter tests, run with npm test. Set VERIFY_CLUSTER (devnet, testnet or mainnet) to also check the token
+// deployed there against the manifest; verify signs its audit report, so set KEYSTORE_PASSPHRASE too.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+
+const root = path.join(__dirname, '..');
+
+// The --json document of the two commands tested here.
+interface CopilotResult {
+  ok: boolean;
+  exitCode: number;
+  error?: string;
+  result?: {
+    files?: { file: string; status: string }[]; // init --check
+    checks?: { name: string; expected: string; actual: string; ok: boolean }[]; // verify
+  };
+}
+
+// Runs a copilot command and returns its --json document, whatever it exited with; its progress goes to stderr.
+function copilot(...args: string[]): CopilotResult {
+  try {
+    return JSON.parse(execFileSync('npx', ['ts-node', 'grok.copilot.ts', ...args, '--json'], { cwd: root, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'inherit'] }));
+  } catch (e) {
+    if (e instanceof Error && 'stdout' in e && typeof e.stdout === 'string') return JSON.parse(e.stdout);
+    throw e;
+  }
+}
+
+test('the manifest is valid and the project files match their template', () => {
+  const { ok, result, error } = copilot('init', '--check');
+  assert.equal(ok, true, error ?? JSON.stringify(result?.files?.filter((f) => f.status !== 'unchanged' && f.status !== 'kept'), null, 2));
+});
+
+test('the deployed token matches the manifest', { skip: !process.env.VERIFY_CLUSTER && 'set VERIFY_CLUSTER to check a deployment' }, () => {
+  const { ok, result, error } = copilot('verify', '--cluster', process.env.VERIFY_CLUSTER!);
+  assert.equal(ok, true, error ?? result?.checks?.filter((c) => !c.ok).map((c) => c.name + ': expected ' + c.expected + ', got ' + c.actual).join('\\n'));
+});
+`;
+
+const PROJECT_README = `# Stunning Solana: Omega Prime Token Deployment
+
+This repository deploys an SPL Token-2022 (ΩAGENT) on Solana mainnet-beta with zero SOL cost using a relayer. The \`grok.copilot.ts\` script handles all deployment steps interactively, reading the token definition (supply, recipients, metadata, authority policy, extensions) from \`token.manifest.json\`.
 
 ## Prerequisites
 - Node.js >= 18
 - npm >= 9
 - A funded relayer (RELAYER_PUBKEY, RELAYER_URL)
-- Treasury owner address: EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6
-- Optional: DAO multisig public key (DAO_PUBKEY)
+- A token manifest (\`token.manifest.json\`)
 - Access to a Solana mainnet-beta RPC
 
 ## Setup
@@ -84,52 +880,521 @@ This repository deploys an SPL Token-2022 (ΩAGENT) on Solana mainnet-beta with
    \`\`\`bash
    npm install
    \`\`\`
-3. Copy \`.env.sample\` to \`.env\` and fill in:
+3. Scaffold the token project from a template (see Scaffolding):
+   \`\`\`bash
+   npx ts-node grok.copilot.ts init
+   \`\`\`
+4. Copy \`.env.sample\` to \`.env\` and fill in:
    \`\`\`bash
    cp .env.sample .env
    \`\`\`
-   Edit \`.env\` (TREASURY_PUBKEY is pre-set to EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6):
+   Edit \`.env\`:
    \`\`\`
-   RPC_URL=https://api.mainnet-beta.solana.com
+   CLUSTER=mainnet # localnet, devnet, testnet or mainnet (--cluster overrides); .env.<cluster> holds each profile
+   RPC_URL=https://api.mainnet-beta.solana.com # mainnet profile, unless .env.mainnet sets it
    RELAYER_URL=https://<your-relayer-domain>/relay/sendRawTransaction
    RELAYER_PUBKEY=<RELAYER_FEE_PAYER_PUBKEY>
-   TREASURY_PUBKEY=EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6
-   DAO_PUBKEY=<YOUR_DAO_MULTISIG_PUBKEY> # Optional
-   AUTHORITY_MODE=null # Options: null, dao, treasury
+   EXPLORER_URL=https://explorer.solana.com/{kind}/{id} # Optional
+   MANIFEST_PATH=token.manifest.json # Optional, --config <path> overrides
    DRY_RUN=false
+   DRY_RUN_RPC_URL=http://127.0.0.1:8899 # Local or forked validator used by dry runs
+   DRY_RUN_REPORT=text # text or json, --report overrides
    RELAYER_API_KEY=<YOUR_API_KEY> # Optional
+   SUBMITTER=relayer # Optional, overrides manifest submitter.type: relayer, batch-relayer, rpc
+   FEE_PAYER_KEYPAIR=<PATH_TO_KEYPAIR_JSON> # Required by the rpc submitter
+   KEYSTORE_PASSPHRASE= # Optional, unlocks the USER_AUTH keystore without prompting
+   SIGNING=online # online or offline (--offline overrides)
+   USER_AUTH_PUBKEY= # Required for offline signing without a local keystore
+   USER_AUTH_SIGNER=keystore # keystore, solana-cli[:<path>], remote:<http://127.0.0.1:<port> | unix:<socket>> or ledger[:<derivation path>]
+   REMOTE_SIGNER_TOKEN= # Optional bearer token shared with a remote signer
+   LEDGER_APDU=127.0.0.1:9999 # APDU socket of a Ledger (Speculos framing) or the ledger-emulator command
+   AUDIT_KEYPAIR= # Optional, signs audit reports instead of USER_AUTH
+   STORAGE_KEYPAIR=<PATH_TO_KEYPAIR_JSON> # Pays irys (Arweave) uploads
+   IPFS_API_URL= # Kubo-compatible RPC API for the ipfs storage
+   IPFS_API_TOKEN= # Optional bearer token for IPFS_API_URL
+   AWS_ACCESS_KEY_ID= # s3 storage
+   AWS_SECRET_ACCESS_KEY= # s3 storage
+   LOG_FORMAT=text # text or json: one JSON object per log line, with the deployment, run and step ids
+   METRICS_FILE= # Optional, Prometheus metrics rewritten after every step (for a node_exporter textfile collector)
+   METRICS_PORT= # Optional, serves Prometheus metrics on 127.0.0.1:<port>/metrics while the copilot runs
+   WEBHOOK_URLS= # Optional, comma-separated endpoints that receive step and irreversible-action events
+   WEBHOOK_SECRET= # Optional, signs webhook bodies (X-Grok-Signature: sha256=<HMAC>)
+   WEBHOOK_EVENTS= # Optional, comma-separated events to send (default: all)
    \`\`\`
+5. Edit \`token.manifest.json\` to describe the token:
+   - \`name\`, \`symbol\`, \`decimals\`, \`supply\` (whole tokens, as a string)
+   - \`treasury\`: treasury owner address
+   - \`recipients\`: \`{ label, address, amount | percent }\` entries summing to \`supply\`, or
+     \`allocationTable\`: path to a CSV (\`label,address,amount,percent\` header) or JSON table of the same entries
+   - \`metadata\`: \`description\`, \`image\` (a URL, or a file next to the manifest to upload), \`external_url\`,
+     \`attributes\` (\`[{ trait_type, value }]\`); for Metaplex metadata also \`sellerFeeBasisPoints\`, \`creators\`
+     (\`[{ address, share }]\`) and \`collection\` (see Metadata Versions)
+   - \`storage\`: where the image and metadata JSON are hosted (see Metadata Hosting); without it the JSON is
+     embedded as a \`data:\` URI
+   - \`authority\`: \`{ "mode": "null" | "dao" | "treasury" }\`; for \`dao\` also \`"dao": "<SQUADS_VAULT>"\`,
+     \`"multisig": "<SQUADS_MULTISIG>"\` and optionally \`"vaultIndex"\` (default 0)
+   - \`mintPolicy\` (optional): \`{ maxSupply, periodLimit?: { amount, days }, allowedRecipients? }\`, in whole tokens;
+     see Controlled Minting
+   - \`extensions\`: Token-2022 extensions, chosen at mint creation:
+     - \`transferFee\`: \`{ feeBasisPoints, maxFee, authority?, withdrawAuthority? }\`
+     - \`metadataPointer\`: \`{ authority? }\`, stores metadata natively on the mint instead of Metaplex
+     - \`interestBearing\`: \`{ rate, authority? }\` (rate in basis points)
+     - \`nonTransferable\`: \`true\`
+     - \`permanentDelegate\`: \`"<PUBKEY>"\`
+     - \`defaultAccountState\`: \`"initialized" | "frozen"\`
+   - \`submitter\` (optional): how transactions are submitted for this deployment
+     - \`{ "type": "relayer" }\`: POSTs \`{ signedTransactionBase64 }\` to RELAYER_URL (default)
+     - \`{ "type": "batch-relayer" }\`: POSTs \`{ signedTransactionsBase64: [...] }\`, expects \`{ txSignatures: [...] }\`
+     - \`{ "type": "rpc", "feePayerKeypair": "<path>" }\`: \`sendRawTransaction\` with a local fee payer
+   - \`durableNonce\` (optional): \`true\` builds every transaction on a durable nonce (default: on with \`--offline\`)
+   - \`priorityFee\` (optional): \`{ maxMicroLamports?, percentile?, attempts?, escalation? }\` (defaults 1000000, 75,
+     3, 2); see Priority Fees
+   Each token gets its own manifest and its own cache under \`.cache/<deployment>/\`.
+   The deployment name defaults to the manifest file name; pass \`--deployment <name>\` (or set \`DEPLOYMENT\`)
+   to run several deployments of the same manifest side by side.
+
+## Scaffolding
+\`init [simple|fee-bearing|dao]\` renders a project: \`token.manifest.json\` (or \`--config\`), \`.env.sample\` and an
+\`.env.<cluster>.sample\` per cluster, \`.gitignore\`, \`package.json\` with its scripts, \`tsconfig.json\`, this README
+and a starter test suite in \`tests/\` (\`npm test\`; set \`VERIFY_CLUSTER\` to also verify a deployment). The templates:
+- \`simple\`: native metadata; the mint and freeze authorities are revoked after the initial supply
+- \`fee-bearing\`: a Token-2022 transfer fee (\`--fee-bps\`, default 50; \`--max-fee\` in whole tokens, default 1000)
+  withdrawable by the treasury; adds an \`npm run withdraw-fees\` script
+- \`dao\`: authorities handed to a Squads vault (\`--dao\`, \`--multisig\`) and a \`mintPolicy\` capping supply at the
+  initial supply until the DAO raises it; adds an \`npm run mint-more\` script
+Parameters come from \`--name\`, \`--symbol\`, \`--decimals\`, \`--supply\` and \`--treasury\`; on a terminal, the
+missing ones are asked for, and without one \`--treasury\` (and the DAO addresses) are required.
+Running \`init\` again never overwrites a file. It writes the missing ones and compares the rest with what the
+template renders now, printing the diff of each file that drifted (a hand-edited script, or a file from an older
+copilot). The manifest and README are yours once written: they are kept, and an existing manifest decides the
+template. Every template uses native metadata without storage; set \`metadata.image\` to the hosted image. \`init --check\`
+(\`npm run check\`) writes nothing and exits 5 when a file is missing or drifted. Deploy commands only require a
+manifest; they no longer create files or run \`npm install\`.
+
+## Priority Fees
+Every transaction carries a compute unit limit, sized from a simulation plus 10% (200k units per instruction when it
+cannot be simulated yet), and a compute unit price: the \`priorityFee.percentile\` of \`getRecentPrioritizationFees\`
+for the accounts it writes, capped at \`priorityFee.maxMicroLamports\`. When a send fails (relayer error, or the
+blockhash expired before confirmation) the transaction is rebuilt with a fresh blockhash and the price multiplied by
+\`priorityFee.escalation\`, after a growing backoff, up to \`priorityFee.attempts\` builds. A new build is only signed
+once the previous one has expired, so a step never executes twice; durable-nonce and batch-relayer sends are built
+once and left to the journal.
+
+## Confirmation and Errors
+A sent transaction is tracked by polling \`getSignatureStatuses\` and rebroadcast (the same signed bytes, so the same
+signature) every 4 seconds while the chain is still below its last valid block height, or while its durable nonce is
+unchanged. Only once it has expired and a search of the transaction history does not find it is it rebuilt. When the
+relayer failed without returning a signature, the expired build is looked up by USER_AUTH's (or another local
+signer's) signature before rebuilding. Failures are classified, in messages, the journal (\`errorKind\`) and the
+\`--json\` error (\`kind\`):
+
+| Kind | Meaning | Rebuilt |
+|------|---------|---------|
+| \`relayer\` | the relayer refused the transaction or was unreachable (after 3 POSTs with backoff) | yes |
+| \`rpc\` | the RPC node failed or timed out | yes |
+| \`expired\` | the blockhash or nonce moved on before the transaction landed | yes |
+| \`simulation\` | preflight simulation rejected the transaction; it was never sent | no |
+| \`program\` | the transaction landed and an instruction failed; the message names it and includes the logs | no |
+
+## Observability
+Each run gets a run id, and each step within it a step id (\`<run>.<n>\`). The steps are \`create-mint\`,
+\`mint-supply\`, \`set-metadata\` and \`lock\`, run by \`deploy\` or on their own, and every other command that sends
+transactions (\`airdrop\`, \`mint-more\`, \`revoke-authority\`, ...), whether from the command line or the menu.
+- \`LOG_FORMAT=json\` turns every log line into a JSON object: \`{ time, level, deployment, cluster, run, step, stepId, msg }\`.
+  Lines stay on the stream they were written to, so \`--json\` still leaves stdout to its result.
+- Metrics, in the Prometheus text format: \`grok_steps_total\` and \`grok_step_duration_seconds\` by step and outcome,
+  \`grok_transactions_total\` by journal step and outcome, \`grok_confirmation_seconds\` from the first signed build to
+  confirmation, \`grok_send_retries_total\` (rebuilds, rebroadcasts, relayer retries), and \`grok_fees_lamports_total\`
+  and \`grok_compute_unit_limit_total\` of confirmed transactions (fees assume the whole compute-unit limit is charged).
+  \`METRICS_FILE\` is rewritten after every step and at exit; \`METRICS_PORT\` serves \`/metrics\` on 127.0.0.1 for as
+  long as the process runs, which suits the menu and long airdrops.
+- Webhooks: every \`WEBHOOK_URLS\` endpoint is POSTed \`{ event, time, deployment, cluster, run, step, stepId, ... }\`
+  for \`step.start\`, \`step.success\` (with \`durationMs\`), \`step.failure\` (with \`error\`, \`kind\` and \`exitCode\`),
+  \`step.awaiting-signatures\` (an offline bundle was exported) and \`irreversible\`: revoking an authority, finalizing
+  metadata, freezing the lookup table and rollback, with an \`action\` and the signatures. \`WEBHOOK_EVENTS\` limits the
+  events sent. With \`WEBHOOK_SECRET\`, each body carries \`X-Grok-Signature: sha256=<hex HMAC-SHA256 of the body>\`.
+  A delivery is tried 3 times with backoff; a webhook that keeps failing is warned about and never fails a step.
+- \`webhook-receiver [--port 8995]\` prints the events sent to it, checking signatures against its own
+  \`WEBHOOK_SECRET\`; point \`WEBHOOK_URLS=http://127.0.0.1:8995/events\` at it to see what a deployment sends.
+
+## Clusters
+Each cluster has a profile: \`.env.<cluster>\` (copy \`.env.devnet.sample\`, \`.env.testnet.sample\` or
+\`.env.localnet.sample\`) with its own \`RPC_URL\`, \`RELAYER_URL\`, \`RELAYER_PUBKEY\`, \`RELAYER_API_KEY\`,
+\`EXPLORER_URL\` (a template with \`{kind}\` and \`{id}\`) and optionally \`SUBMITTER\` and \`FEE_PAYER_KEYPAIR\`.
+Mainnet also reads these from \`.env\`; other clusters fall back to the public RPC and explorer. A
+\`<CLUSTER>_<KEY>\` environment variable (e.g. \`DEVNET_RPC_URL\`) overrides the profile file, for CI. Select one with
+\`--cluster <name>\` or \`CLUSTER\`. The RPC's genesis hash is checked against the cluster, and each cluster keeps its own
+cache (\`.cache/<deployment>.<cluster>/\`; mainnet stays in \`.cache/<deployment>/\`). USER_AUTH is shared.
+
+Promote a deployment rehearsed on devnet to mainnet with the same manifest:
+\`\`\`bash
+npx ts-node grok.copilot.ts deploy --cluster devnet
+npx ts-node grok.copilot.ts promote --from devnet --cluster mainnet
+\`\`\`
+\`promote\` first re-verifies the devnet deployment and refuses (exit code 5) if any check fails. It then runs every
+step on mainnet, verifies it, and diffs the two audit reports check by check. Differences the manifest expects (the
+mint address, a per-cluster metadata URI) are listed with \`~\`; any other difference fails the command.
+
+## Testing
+The copilot's own suite lives in \`tests/\` of its repository and runs with \`npm test\` there. The unit tests need
+nothing; the integration tests run when \`solana-test-validator\` (Solana CLI) is on the PATH: they start it on port 8999
+and a mock relayer on 8998 that co-signs as fee payer, then deploy throwaway tokens on the \`localnet\` cluster and
+check a full deployment and its audit, a dry run through \`--all\`, Metaplex metadata with creators updated and finalized, that re-running a finished deployment sends nothing, that rollback refuses while
+USER_AUTH holds authorities and then redeploys, relayer retries, rebroadcasting a dropped send, rebuilding one that never lands with a higher priority fee, resuming after a relayer outage, a deployment sent on durable nonces,
+an airdrop sent as v0 through a lookup table, a holder snapshot diff across a second airdrop, mint-more within and outside a mint policy, a versioned metadata update and finalize, deployments with USER_AUTH on a remote signer (over a Unix socket)
+and on the Ledger emulator (on 8996), a DAO proposal approved through an offline bundle and executed by the Squads vault, and that the steps, a failure and an irreversible action of a deployment reach a webhook
+receiver (on 8995) and the metrics. Everything, USER_AUTH included, lives in
+\`.cache/harness/\` (via \`CACHE_DIR\`); your deployments are not touched. Token-2022 is built into the validator; the
+Metaplex and Squads programs, and the Squads program config, are cloned from mainnet-beta when it starts. To run
+without network access, dump them once:
+\`\`\`bash
+solana program dump -u m metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s mpl_token_metadata.so
+solana program dump -u m SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf squads_multisig.so
+solana account -u m BSTq9w3kZwNwpBXJEvTZz2G9ZTNyKBvoSeXMvwb4cNZr --output json -o squads_config.json
+HARNESS_METAPLEX_PROGRAM=mpl_token_metadata.so HARNESS_SQUADS_PROGRAM=squads_multisig.so HARNESS_SQUADS_CONFIG=squads_config.json npm test
+\`\`\`
+For manual runs against a local validator, \`mock-relayer --cluster localnet\` serves the same relayer; \`--fail
+error,http,drop,blackhole\` fails the next requests (a \`{ success: false }\` reply, an HTTP 500, a signature that is
+not sent, or one that is never sent however often it is resubmitted).
+
+## Resuming
+Every transaction is journaled in \`.cache/<deployment>/journal.json\` (intent, signed transaction, signature,
+confirmation status). On restart the copilot reconciles unfinished entries against the chain, waiting out any
+transaction that may still land, before running further steps.
 
 ## One-Command Deployment
 \`\`\`bash
 npm run mainnet:all
 \`\`\`
+\`mainnet:all\` runs \`deploy\`. It used to run \`--all\`, which \`DRY_RUN=true\` turned into a dry run; \`deploy\` refuses
+\`DRY_RUN=true\` instead, so run \`dry-run\` (see Dry Run) to rehearse.
+
+## Dry Run
+Dry runs simulate and then execute every step on a disposable validator, carrying a virtual mint between steps,
+and report compute units, fees, rent, logs and account changes per transaction. Start a validator forked from
+mainnet (Token-2022 is built in; the Metaplex program must be cloned):
+\`\`\`bash
+solana-test-validator --reset --url mainnet-beta --clone-upgradeable-program metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s
+npx ts-node grok.copilot.ts dry-run --report json
+\`\`\`
+The report is also written to \`.cache/<deployment>.dry-run/report.json\`. A dry run refuses an RPC whose genesis hash is
+that of devnet, testnet or mainnet.
+
+## DAO Governance
+With \`authority.mode\` set to \`dao\`, locking verifies that \`authority.dao\` is a vault of the given Squads
+multisig before handing over the mint and freeze authorities. Later actions (mint more, update metadata, change
+the transfer fee) are created as multisig proposals from the "DAO proposals" menu; minting more is checked against
+\`mintPolicy\` first (see Controlled Minting), and a metadata update shows its change against the metadata on-chain,
+keeping verified creators and collection. Approvals can be exported as an offline bundle, signed by each member
+with \`sign <bundle> --keypair member.json\` and imported together.
+
+## Controlled Minting
+\`mint-more <recipient> <amount> --memo "<justification>"\` issues whole tokens beyond the initial supply. It refuses
+(exit code 7) unless the manifest has a \`mintPolicy\` and the issuance keeps to all of it:
+- \`maxSupply\`: on-chain supply, plus issuances still open, may not go above it;
+- \`periodLimit\`: \`{ amount, days }\`, the most that may be issued within any rolling window of that many days;
+- \`allowedRecipients\`: the only owners that may receive new tokens (any owner when absent);
+- a memo is always required. It is written on-chain with the SPL Memo program.
+
+The mint authority decides how the tokens are minted:
+- the DAO vault (\`authority.mode\` \`dao\`): a multisig proposal is opened;
+- USER_AUTH, or the treasury with \`--keypair\`: the tokens are minted directly;
+- any other key: the transaction is exported for offline signing.
+
+Every issuance is recorded in \`.cache/<deployment>/issuance.json\`. Before each run the ledger is reconciled:
+- direct mints are settled from the journal;
+- proposals are settled from their Squads status (executed, rejected or cancelled);
+- on-chain supply must equal the initial supply plus the minted issuances.
+
+More supply than the ledger explains means tokens were minted outside \`mint-more\`, and nothing more is issued until
+that is resolved. Less supply means tokens were burned, which leaves more room under the cap. \`mint-more\` with no
+arguments only reconciles and prints the ledger. \`verify\` expects the initial supply plus the minted issuances.
+
+## Metadata Hosting
+Before metadata is written on-chain, the copilot builds the standard Metaplex fungible JSON (name, symbol,
+description, image, external_url, attributes, properties.files), uploads the image and then the JSON through the
+manifest's \`storage\` adapter, and reads each back to check its sha256. The result is recorded in
+\`.cache/<deployment>/metadata.json\`; unchanged content is not uploaded again. Adapters:
+- \`{ "type": "irys", "network"?: "mainnet" | "devnet" }\`: Arweave via Irys, paid in SOL by STORAGE_KEYPAIR (network
+  defaults to devnet on every cluster but mainnet)
+- \`{ "type": "ipfs", "url": "<kubo api>", "gateway": "https://ipfs.io" }\`: \`/api/v0/add\` with pinning
+- \`{ "type": "s3", "bucket", "region"?, "endpoint"?, "publicUrl" }\`: S3 or S3-compatible (R2, MinIO)
+- \`{ "type": "local", "dir"?, "publicUrl"? }\`: a local directory for tests; the \`serve-storage\` command serves it over HTTP
+Dry runs always use a local directory in the dry-run cache.
+
+## Metadata Versions
+\`set-metadata\` (and \`deploy\`) reads the metadata already on-chain and only writes the fields that differ.
+Native Token-2022 metadata has name, symbol and uri. Metaplex metadata also has the seller fee, creators and collection.
+Each changed field is printed before and after, and an update asks for confirmation (\`--yes\` answers it). A first
+write lists its fields without asking, and a dry run only prints them.
+
+Metaplex fields come from the manifest's \`metadata\`:
+- \`sellerFeeBasisPoints\` defaults to 0;
+- \`creators\` holds up to 5 entries, with shares summing to 100. A creator is verified when it is USER_AUTH, which
+  signs the write, or when it was verified already;
+- \`collection\` is a collection mint. It is written unverified; the collection's authority verifies it separately.
+
+Every version written on-chain is recorded in \`.cache/<deployment>/metadata-history.json\` with its fields, URI and
+signature. This includes native metadata created with the mint. \`metadata-history\` lists the versions. Updates
+executed through DAO proposals are not recorded there.
+
+\`finalize-metadata\` makes the metadata immutable for good. Metaplex metadata gets \`isMutable\` false; native metadata
+loses its update authority. The fields being frozen are printed, then the mint address must be typed back; without a
+terminal pass \`--confirm-mint <mint>\` (\`--yes\` is not enough). After that, \`set-metadata\` refuses any change to
+the manifest's metadata.
+
+## Offline Signing
+USER_AUTH is kept in a passphrase-encrypted keystore (\`.cache/user_auth.keystore.json\`, scrypt + AES-256-GCM);
+an old plaintext \`.cache/user_auth.json\` is offered for encryption on start. To keep USER_AUTH off the online
+machine entirely, run with \`--offline\` (or \`SIGNING=offline\`): each step then exports its unsigned transactions,
+with fee payer and blockhash fixed, to \`.cache/<deployment>/offline/bundle-<n>.json\` and stops.
+\`\`\`bash
+# air-gapped machine: review and sign (no .env or RPC needed)
+npx ts-node grok.copilot.ts sign bundle-<n>.json --keystore user_auth.keystore.json
+# online machine: submit, then run the next step
+npx ts-node grok.copilot.ts import .cache/<deployment>/offline/bundle-<n>.json --offline
+\`\`\`
+Without durable nonces, signatures must be imported before the blockhash expires (about a minute); an expired
+bundle is simply re-exported by running the step again.
+
+## Signers
+\`USER_AUTH_SIGNER\` chooses where USER_AUTH signs:
+- \`keystore\` (default): the passphrase-encrypted \`.cache/user_auth.keystore.json\` above
+- \`solana-cli[:<path>]\`: a Solana CLI keypair file, \`~/.config/solana/id.json\` by default
+- \`remote:http://127.0.0.1:<port>\` or \`remote:unix:<socket path>\`: a remote signer, a separate process or user that
+  holds the key. It speaks JSON over HTTP: \`GET /public-key\` answers \`{ "publicKey" }\`, and \`POST /sign\` with
+  \`{ "publicKey", "message" }\` (a base64 transaction message) answers \`{ "signature" }\` (base64). When
+  \`REMOTE_SIGNER_TOKEN\` is set, it is sent as a bearer token. \`signer-server [--keypair <path> | --keystore <path>]
+  [--port 8997 | --socket <path>]\` is a reference signer; by default it serves the USER_AUTH keystore. It only signs
+  transaction messages and logs the programs each one calls.
+- \`ledger[:<derivation path>]\`: a Ledger with the Solana app, at \`44'/501'/0'/0'\` by default. The copilot speaks
+  the app's APDUs over the Speculos socket framing on \`LEDGER_APDU\` (default \`127.0.0.1:9999\`), so it runs against
+  Speculos or \`ledger-emulator [--port 9999]\`, a software device that approves everything (set \`LEDGER_EMULATOR_SEED\`
+  to a hex seed to keep its keys). A physical device needs a bridge that exposes it on that socket, since USB HID
+  would need node-hid. Token-2022 instructions need blind signing enabled in the app.
+
+Every signature from a remote signer or Ledger is checked before it goes into a transaction. \`USER_AUTH_PUBKEY\`, when
+set, pins the key the signer must hold. Audit reports are not transactions, so they stay unsigned unless
+\`AUDIT_KEYPAIR\` is set. The same signers can sign offline bundles: \`sign <bundle> --signer ledger\`.
+\`rollback\` deletes only a USER_AUTH keystore in \`.cache/\`, never another signer's key. It first refuses, with
+exit code 8, while that key still holds on-chain authorities in any deployment on the cluster:
+- mint or metadata authorities (rotate or revoke them);
+- a lookup table authority (freeze it);
+- durable nonce accounts (close them).
+
+## Durable Nonces
+With \`durableNonce\` (or \`--offline\`), every transaction starts with \`nonceAdvance\` on a durable nonce account
+authorized to USER_AUTH instead of a recent blockhash, so slow offline signing, multisig approval or relayer queues
+cannot expire it. Nonce accounts live in \`.cache/<deployment>/nonces.json\`; the copilot creates them as needed
+(one per transaction in flight, rent paid by the fee payer) and shows them in the deployment status. A send that
+has not landed within a minute after a restart is cancelled by advancing its nonce. The "Durable nonces" menu
+lists, creates, advances and closes them (closing returns the rent to the fee payer).
+
+## Command Line
+Every step is also a subcommand, for CI pipelines and scripts:
+\`\`\`bash
+npx ts-node grok.copilot.ts <command> [--cluster <name>] [--config <manifest>] [--deployment <name>] [--yes] [--json]
+\`\`\`
+- \`init [simple|fee-bearing|dao] [--check]\`: see Scaffolding
+- \`create-mint\`, \`mint-supply\`, \`set-metadata\`, \`lock\`: the deployment steps; \`deploy\` runs all four
+- \`metadata-history\`, \`finalize-metadata\`: see Metadata Versions
+- \`status\`: mint, authorities, balances, recent journal entries and nonce accounts
+- \`verify\`, \`verify-report <audit.json>\`: see the Post-Deploy Checklist
+- \`rollback\`: archive the journal, forget the mint and delete USER_AUTH, once it holds no on-chain authorities
+- \`promote [--from devnet]\`: see Clusters
+- \`airdrop <recipients.csv>\`: see Airdrops
+- \`mint-more [<recipient> <amount> --memo <text>]\`: see Controlled Minting
+- \`snapshot [diff <from> <to>]\`: see Holder Snapshots
+- \`lookup-table [show|create|extend|freeze]\`: see Lookup Tables
+- \`authorities\`, \`rotate-authority <role> <address>\`, \`revoke-authority <role>\`: see Authorities
+- \`mock-relayer\`: see Testing
+- \`signer-server\`, \`ledger-emulator\`: see Signers
+- \`webhook-receiver\`: see Observability
+- \`dry-run\`, \`withdraw-fees\`, \`sign <bundle>\`, \`import <bundle>\`, \`serve-storage\`
+\`--cluster\` selects the cluster profile and \`--config\` selects the manifest (same as \`--manifest\`). \`--yes\` answers confirmations (the owner address,
+rollback, offline signing); without a terminal, a confirmation fails unless \`--yes\` is given. Passphrases are never
+prompted without a terminal: set \`KEYSTORE_PASSPHRASE\`. With \`--json\`, stdout carries one JSON document
+(\`{ command, ok, exitCode, result }\`, or \`{ ok: false, exitCode, error, kind }\`) and all progress goes to stderr.
+\`--help\` lists the commands.
+
+| Exit code | Meaning |
+|---|---|
+| 0 | Success |
+| 1 | RPC, relayer or on-chain failure |
+| 2 | Usage error: unknown command or flag, missing argument |
+| 3 | Configuration error: invalid manifest or .env, no manifest |
+| 4 | Not confirmed: a confirmation was declined, or needed \`--yes\` |
+| 5 | Verification failed: \`verify\` or \`promote\` found a mismatch, \`verify-report\` a bad signature, or \`init --check\` found drift |
+| 6 | Awaiting offline signatures: a bundle was exported; \`sign\` and \`import\` it |
+| 7 | Refused by \`mintPolicy\`, or supply was minted outside \`mint-more\` |
+| 8 | Refused: \`rollback\` would delete a USER_AUTH key that still holds on-chain authorities |
+
+## Airdrops
+\`airdrop <recipients.csv>\` pays tokens from the treasury's token account. The CSV has one \`recipient,amount\` row
+per payment, with amounts in tokens (up to \`decimals\` places); blank lines, \`#\` comments and a header row are
+skipped. Every row is checked before anything is sent: the address must be a wallet, not a token account or mint, and
+the treasury must hold the total. Missing recipient token accounts are created (and thawed under
+\`defaultAccountState: "frozen"\`). As many transfers as fit are packed into each transaction. The treasury signs
+with \`--keypair <file>\`, or with USER_AUTH when it is the treasury; otherwise the transfers are exported for offline
+signing. Recipients of a transfer-fee mint receive the amount less the fee. With \`--lookup-table\`, the
+recipients and their token accounts are first added to the deployment lookup table (see Lookup Tables), so more
+transfers share each transaction.
+
+Each row's status (\`pending\`, \`sent\`, \`paid\` with its signature) is written to
+\`.cache/<deployment>/airdrops/<csv name>.json\`. Re-running the same CSV settles interrupted rows from the journal
+and pays only the rows that were never paid. A row that was sent or paid cannot be edited afterwards.
+
+## Holder Snapshots
+\`snapshot\` lists every Token-2022 account of the mint in one \`getProgramAccounts\` call. The call is filtered by
+mint and limited to the base account layout. The command prints:
+- total and circulating supply; circulating leaves out the treasury and, under a DAO, its vault;
+- the number of holders;
+- frozen accounts;
+- the largest holders (\`--top <n>\`, default 10), labelled from the manifest;
+- concentration among circulating holders: the top 10's share, the Nakamoto coefficient (the fewest holders with more
+  than half) and the Gini coefficient.
+
+Each snapshot is saved to \`.cache/<deployment>/snapshots/snapshot-<slot>.json\` (every account, in base units) and
+\`.csv\` (one row per owner, in tokens). RPC nodes only serve current state, so a snapshot cannot be taken at a past
+slot. \`--min-slot <n>\` makes the node answer from slot n or later; the snapshot records the slot it read. Take
+snapshots at the moments that matter, such as an eligibility cut-off or the end of a reporting period.
+\`snapshot diff <from> <to>\` compares two snapshots, named by file or by slot. It lists new holders, holders that
+left and changed balances, and writes them to \`diff-<from>-<to>.csv\`.
+
+## Lookup Tables
+Steps build legacy transactions. One that does not fit in a packet (1232 bytes) is sent as a v0 transaction that
+loads its accounts from the deployment's Address Lookup Table, so \`mint-supply\` and airdrops can pack more
+into each transaction. \`lookup-table create\` creates the table with USER_AUTH as its authority and adds the
+deployment's addresses: the token programs, treasury, recipients, DAO vault and, once the mint exists, the mint, its
+metadata and the recipients' token accounts. The relayer pays its rent. \`lookup-table extend [address...]\` adds whatever
+is missing, plus any addresses given, up to 256. \`lookup-table freeze\` drops the authority for good, after a
+confirmation. Offline bundles and dry runs always use legacy transactions. The table's address is kept in
+\`.cache/<deployment>/lookup-table.json\`; a relayer must accept v0 transactions on the same endpoint.
+
+## Authorities
+\`lock\` hands the mint and freeze authorities to the manifest's \`authority.mode\`. Under \`null\` that revokes them,
+so like \`revoke-authority\` it asks for the mint address to be typed back, or \`--confirm-mint <mint>\`; a
+non-interactive \`deploy\` stops at \`lock\` with exit code 4 and resumes with \`lock --confirm-mint <mint>\`. For everything else,
+\`authorities\` lists each authority on the mint and its holder: \`mint\`, \`freeze\`, the extension authorities
+(\`transfer-fee-config\`, \`withheld-withdraw\`, \`close-mint\`, \`interest-rate\`, \`permanent-delegate\`,
+\`metadata-pointer\`) and \`metadata-update\` (native token metadata or Metaplex).
+\`rotate-authority <role> <address>\` moves one authority held by USER_AUTH to another key.
+\`revoke-authority <role>\` sets it to null. Revoking is irreversible, so it asks for the mint address to be typed
+back; without a terminal pass \`--confirm-mint <mint>\` (\`--yes\` is not enough). A Metaplex update authority can
+only be rotated, not revoked; \`finalize-metadata\` makes its metadata immutable instead. Authorities held by the DAO vault change through DAO proposals.
 
 ## Copilot
-Run the interactive Grok Copilot:
+Without a command, the interactive Grok Copilot starts: a menu over the same commands, plus DAO proposals and
+durable nonce management.
 \`\`\`bash
 npm run mainnet:copilot
 \`\`\`
 
 ## Security Notes
-- **No private keys** are stored in the repo.
+- **No private keys** are stored in the repo; USER_AUTH is encrypted at rest, or kept offline with \`--offline\`.
 - **Relayer pays fees**: All fees are covered by the relayer.
 - **Authority lock**: Setting to \`null\` is **irreversible**.
-- **Owner Address**: The treasury owner is EdFC98d1BBhJkeh7KDq26TwEGLeznhoyYsY6Y8LFY4y6.
+- **Owner Address**: The treasury owner is read from the manifest and confirmed before any step runs.
 
 ## Post-Deploy Checklist
-1. Verify mint: \`https://explorer.solana.com/address/<MINT_ADDRESS>\`
-2. Check treasury ATA: \`https://explorer.solana.com/address/<TREASURY_ATA>\`
-3. Confirm metadata and authorities via Explorer.
-`
-};
+1. Run \`npx ts-node grok.copilot.ts verify\`. It checks decimals, supply, every recipient balance (net of the paid
+   airdrop rows and minted issuances recorded here), mint and freeze authority, metadata fields and URI content,
+   and Token-2022 extensions against the manifest, exits non-zero on any mismatch, and writes \`.cache/<deployment>/audit/audit-<time>.json\` and \`.md\`.
+2. Publish both files. The JSON carries an ed25519 signature by USER_AUTH (or \`AUDIT_KEYPAIR\`); anyone can check it
+   with \`npx ts-node grok.copilot.ts verify-report audit-<time>.json\`.
+3. Verify mint: \`https://explorer.solana.com/address/<MINT_ADDRESS>\` (the status command prints the cluster's link)
+`;
 
 // Utility Functions
+const METAPLEX_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
 function findMetadataPda(mint: PublicKey): PublicKey {
-  return PublicKey.findProgramAddressSync(
-    [Buffer.from('metadata'), new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s').toBuffer(), mint.toBuffer()],
-    new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s')
-  )[0];
+  return PublicKey.findProgramAddressSync([Buffer.from('metadata'), METAPLEX_PROGRAM_ID.toBuffer(), mint.toBuffer()], METAPLEX_PROGRAM_ID)[0];
+}
+
+// Borsh encoding of Metaplex instruction arguments, the inverse of the readers in decodeMetaplexMetadata.
+function createBorshWriter() {
+  const parts: Buffer[] = [];
+  const writer = {
+    u8: (v: number) => void parts.push(Buffer.from([v])),
+    u16: (v: number) => {
+      parts.push(Buffer.alloc(2));
+      parts[parts.length - 1].writeUInt16LE(v);
+    },
+    u32: (v: number) => {
+      parts.push(Buffer.alloc(4));
+      parts[parts.length - 1].writeUInt32LE(v);
+    },
+    bool: (v: boolean) => writer.u8(v ? 1 : 0),
+    key: (v: PublicKey) => void parts.push(v.toBuffer()),
+    string: (v: string) => {
+      writer.u32(Buffer.byteLength(v, 'utf-8'));
+      parts.push(Buffer.from(v, 'utf-8'));
+    },
+    option: <T>(v: T | null | undefined, write: (v: T) => void) => {
+      writer.bool(v !== null && v !== undefined);
+      if (v !== null && v !== undefined) write(v);
+    },
+    toBuffer: () => Buffer.concat(parts),
+  };
+  return writer;
+}
+
+function writeMetaplexData(writer: ReturnType<typeof createBorshWriter>, data: MetaplexData): void {
+  [data.name, data.symbol, data.uri].forEach(writer.string);
+  writer.u16(data.sellerFeeBasisPoints);
+  writer.option(data.creators, (creators) => {
+    writer.u32(creators.length);
+    for (const c of creators) {
+      writer.key(c.address);
+      writer.bool(c.verified);
+      writer.u8(c.share);
+    }
+  });
+  writer.option(data.collection, (c) => {
+    writer.bool(c.verified);
+    writer.key(c.key);
+  });
+  writer.option(data.uses, () => undefined);
+}
+
+// CreateMetadataAccountV3 for a mutable metadata account without collection details.
+function createMetaplexMetadataInstruction(params: { metadata: PublicKey; mint: PublicKey; mintAuthority: PublicKey; payer: PublicKey; updateAuthority: PublicKey; data: MetaplexData }): TransactionInstruction {
+  const writer = createBorshWriter();
+  writer.u8(33);
+  writeMetaplexData(writer, params.data);
+  writer.bool(true); // is mutable
+  writer.option(null, () => undefined); // collection details
+  return new TransactionInstruction({
+    programId: METAPLEX_PROGRAM_ID,
+    keys: [
+      { pubkey: params.metadata, isSigner: false, isWritable: true },
+      { pubkey: params.mint, isSigner: false, isWritable: false },
+      { pubkey: params.mintAuthority, isSigner: true, isWritable: false },
+      { pubkey: params.payer, isSigner: true, isWritable: true },
+      { pubkey: params.updateAuthority, isSigner: params.updateAuthority.equals(params.mintAuthority), isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: writer.toBuffer(),
+  });
+}
+
+// UpdateMetadataAccountV2; the fields left out stay as they are on-chain.
+function createUpdateMetaplexMetadataInstruction(params: { metadata: PublicKey; updateAuthority: PublicKey; data?: MetaplexData; newUpdateAuthority?: PublicKey; isMutable?: boolean }): TransactionInstruction {
+  const writer = createBorshWriter();
+  writer.u8(15);
+  writer.option(params.data, (data) => writeMetaplexData(writer, data));
+  writer.option(params.newUpdateAuthority, writer.key);
+  writer.option(null, writer.bool); // primary sale happened
+  writer.option(params.isMutable, writer.bool);
+  return new TransactionInstruction({
+    programId: METAPLEX_PROGRAM_ID,
+    keys: [
+      { pubkey: params.metadata, isSigner: false, isWritable: true },
+      { pubkey: params.updateAuthority, isSigner: true, isWritable: false },
+    ],
+    data: writer.toBuffer(),
+  });
 }
 
 function findAssociatedTokenAddress(owner: PublicKey, mint: PublicKey): PublicKey {
@@ -139,450 +1404,5139 @@ function findAssociatedTokenAddress(owner: PublicKey, mint: PublicKey): PublicKe
   )[0];
 }
 
-function loadOrCreateUserAuth(): Keypair {
-  const cacheDir = path.join(__dirname, '.cache');
-  const keypairPath = path.join(cacheDir, 'user_auth.json');
-  if (fs.existsSync(keypairPath)) {
-    const keypairJson = JSON.parse(fs.readFileSync(keypairPath, 'utf-8'));
-    return Keypair.fromSecretKey(Uint8Array.from(keypairJson));
+function getManifestPath(): string {
+  const flagIndex = Math.max(process.argv.indexOf('--config'), process.argv.indexOf('--manifest'));
+  const manifestPath = flagIndex !== -1 ? process.argv[flagIndex + 1] : process.env.MANIFEST_PATH || 'token.manifest.json';
+  return path.resolve(__dirname, manifestPath);
+}
+
+function isPublicKey(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch (e) {
+    return false;
   }
-  const keypair = Keypair.generate();
-  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
-  fs.writeFileSync(keypairPath, JSON.stringify(Array.from(keypair.secretKey)));
-  console.log(`Generated new USER_AUTH keypair: ${keypair.publicKey.toBase58()}`);
-  return keypair;
 }
 
-async function sendViaRelayer(connection: Connection, relayerPubkey: string, relayerUrl: string, tx: Transaction, apiKey?: string): Promise<string> {
-  const start = Date.now();
-  tx.feePayer = new PublicKey(relayerPubkey);
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+function isWholeAmount(value: unknown): boolean {
+  return typeof value === 'string' && /^\d+$/.test(value);
+}
+
+// Parsed JSON whose fields are still to be checked.
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function validateRecipient(r: unknown, where: string): string[] {
+  const errors: string[] = [];
+  if (!isJsonObject(r)) return [`${where} must be an object`];
+  if (typeof r.label !== 'string' || !r.label) errors.push(`${where}.label is required`);
+  if (!isPublicKey(r.address)) errors.push(`${where}.address must be a valid public key`);
+  if ((r.amount === undefined) === (r.percent === undefined)) errors.push(`${where} must set exactly one of amount or percent`);
+  if (r.amount !== undefined && !isWholeAmount(r.amount)) errors.push(`${where}.amount must be a whole-token amount string`);
+  if (r.percent !== undefined && (typeof r.percent !== 'number' || !(r.percent > 0) || r.percent > 100)) errors.push(`${where}.percent must be a number in (0, 100]`);
+  return errors;
+}
+
+function validateManifest(raw: unknown): string[] {
+  const errors: string[] = [];
+  if (!isJsonObject(raw)) return ['manifest must be a JSON object'];
+  if (raw.version !== MANIFEST_VERSION) errors.push(`version must be ${MANIFEST_VERSION}`);
+  if (typeof raw.name !== 'string' || !raw.name || raw.name.length > 32) errors.push('name must be 1-32 characters');
+  if (typeof raw.symbol !== 'string' || !raw.symbol || raw.symbol.length > 10) errors.push('symbol must be 1-10 characters');
+  if (!isInteger(raw.decimals) || raw.decimals < 0 || raw.decimals > 9) errors.push('decimals must be an integer between 0 and 9');
+  if (!isWholeAmount(raw.supply) || BigInt(raw.supply as string) === BigInt(0)) errors.push('supply must be a positive whole-token amount string');
+  if (!isPublicKey(raw.treasury)) errors.push('treasury must be a valid public key');
+
+  if ((raw.recipients === undefined) === (raw.allocationTable === undefined)) {
+    errors.push('set exactly one of recipients or allocationTable');
+  } else if (raw.allocationTable !== undefined) {
+    if (typeof raw.allocationTable !== 'string' || !/\.(csv|json)$/i.test(raw.allocationTable)) errors.push('allocationTable must be a .csv or .json path');
+  } else if (!Array.isArray(raw.recipients) || raw.recipients.length === 0) {
+    errors.push('recipients must be a non-empty array');
+  } else {
+    raw.recipients.forEach((r: unknown, i: number) => errors.push(...validateRecipient(r, `recipients[${i}]`)));
+  }
+
+  const ext = isJsonObject(raw.extensions) ? raw.extensions : null;
+  const metadata = raw.metadata;
+  if (!isJsonObject(metadata) || typeof metadata.description !== 'string' || typeof metadata.image !== 'string') {
+    errors.push('metadata.description and metadata.image are required');
+  } else {
+    if (!/^https?:\/\//.test(metadata.image) && !raw.storage) errors.push('metadata.image is a local file; set storage so it can be uploaded');
+    const attributes = metadata.attributes;
+    if (attributes !== undefined && (!Array.isArray(attributes) || attributes.some((a: unknown) => !isJsonObject(a) || typeof a.trait_type !== 'string' || !['string', 'number'].includes(typeof a.value)))) {
+      errors.push('metadata.attributes must be a list of { trait_type, value }');
+    }
+    const { sellerFeeBasisPoints, creators, collection } = metadata;
+    if (sellerFeeBasisPoints !== undefined && !(isInteger(sellerFeeBasisPoints) && sellerFeeBasisPoints >= 0 && sellerFeeBasisPoints <= 10000)) {
+      errors.push('metadata.sellerFeeBasisPoints must be 0-10000');
+    }
+    if (creators !== undefined) {
+      const isCreator = (c: unknown): c is { address: string; share: number } => isJsonObject(c) && isPublicKey(c.address) && isInteger(c.share) && c.share >= 0;
+      if (!Array.isArray(creators) || creators.length === 0 || creators.length > 5 || !creators.every(isCreator)) {
+        errors.push('metadata.creators must be 1-5 { address, share } entries');
+      } else if (creators.reduce((sum, c) => sum + c.share, 0) !== 100) {
+        errors.push('metadata.creators shares must sum to 100');
+      }
+    }
+    if (collection !== undefined && !isPublicKey(collection)) errors.push('metadata.collection must be the collection mint address');
+    if ([sellerFeeBasisPoints, creators, collection].some((v) => v !== undefined) && ext?.metadataPointer) {
+      errors.push('metadata.sellerFeeBasisPoints, creators and collection need Metaplex metadata; remove extensions.metadataPointer');
+    }
+  }
+
+  const authority = raw.authority;
+  if (!isJsonObject(authority) || typeof authority.mode !== 'string' || !['null', 'dao', 'treasury'].includes(authority.mode)) {
+    errors.push('authority.mode must be one of: null, dao, treasury');
+  } else if (authority.mode === 'dao') {
+    if (!isPublicKey(authority.dao)) errors.push('authority.dao must be a valid public key when authority.mode is dao');
+    if (!isPublicKey(authority.multisig)) errors.push('authority.multisig must be the Squads multisig account when authority.mode is dao');
+    if (authority.vaultIndex !== undefined && (!isInteger(authority.vaultIndex) || authority.vaultIndex < 0 || authority.vaultIndex > 255)) {
+      errors.push('authority.vaultIndex must be an integer between 0 and 255');
+    }
+  }
+
+  if (raw.mintPolicy !== undefined) {
+    const policy = raw.mintPolicy;
+    if (!isJsonObject(policy)) errors.push('mintPolicy must be an object');
+    else {
+      if (!isWholeAmount(policy.maxSupply)) errors.push('mintPolicy.maxSupply must be a whole-token amount string');
+      else if (isWholeAmount(raw.supply) && BigInt(policy.maxSupply as string) < BigInt(raw.supply as string)) errors.push('mintPolicy.maxSupply must be at least supply');
+      const limit = policy.periodLimit;
+      if (limit !== undefined && (!isJsonObject(limit) || !isWholeAmount(limit.amount) || !(typeof limit.days === 'number' && limit.days > 0))) {
+        errors.push('mintPolicy.periodLimit must be { amount: whole-token string, days: positive number }');
+      }
+      if (policy.allowedRecipients !== undefined && (!Array.isArray(policy.allowedRecipients) || !policy.allowedRecipients.every(isPublicKey))) {
+        errors.push('mintPolicy.allowedRecipients must be a list of public keys');
+      }
+    }
+  }
+
+  if (!ext) {
+    errors.push('extensions must be an object (use {} for none)');
+  } else {
+    const known = ['transferFee', 'metadataPointer', 'interestBearing', 'nonTransferable', 'permanentDelegate', 'defaultAccountState'];
+    Object.keys(ext).filter((k) => !known.includes(k)).forEach((k) => errors.push(`extensions.${k} is not a supported extension`));
+    if (ext.transferFee) {
+      const { feeBasisPoints, maxFee, authority, withdrawAuthority } = isJsonObject(ext.transferFee) ? ext.transferFee : ({} as Record<string, unknown>);
+      if (!isInteger(feeBasisPoints) || feeBasisPoints < 0 || feeBasisPoints > 10000) errors.push('extensions.transferFee.feeBasisPoints must be 0-10000');
+      if (!isWholeAmount(maxFee)) errors.push('extensions.transferFee.maxFee must be a whole-token amount string');
+      if (authority !== undefined && !isPublicKey(authority)) errors.push('extensions.transferFee.authority must be a valid public key');
+      if (withdrawAuthority !== undefined && !isPublicKey(withdrawAuthority)) errors.push('extensions.transferFee.withdrawAuthority must be a valid public key');
+    }
+    if (isJsonObject(ext.metadataPointer) && ext.metadataPointer.authority !== undefined && !isPublicKey(ext.metadataPointer.authority)) {
+      errors.push('extensions.metadataPointer.authority must be a valid public key');
+    }
+    if (ext.interestBearing) {
+      const { rate, authority } = isJsonObject(ext.interestBearing) ? ext.interestBearing : ({} as Record<string, unknown>);
+      if (!isInteger(rate) || Math.abs(rate) > 32767) errors.push('extensions.interestBearing.rate must be an integer basis-point rate');
+      if (authority !== undefined && !isPublicKey(authority)) errors.push('extensions.interestBearing.authority must be a valid public key');
+    }
+    if (ext.nonTransferable !== undefined && typeof ext.nonTransferable !== 'boolean') errors.push('extensions.nonTransferable must be a boolean');
+    if (ext.permanentDelegate !== undefined && !isPublicKey(ext.permanentDelegate)) errors.push('extensions.permanentDelegate must be a valid public key');
+    if (ext.defaultAccountState !== undefined && !['initialized', 'frozen'].includes(ext.defaultAccountState as string)) {
+      errors.push('extensions.defaultAccountState must be initialized or frozen');
+    }
+  }
+
+  if (raw.submitter !== undefined) {
+    const sub = raw.submitter;
+    if (!isJsonObject(sub) || !['relayer', 'batch-relayer', 'rpc'].includes(sub.type as string)) errors.push('submitter.type must be one of: relayer, batch-relayer, rpc');
+    if (isJsonObject(sub) && sub.url !== undefined && typeof sub.url !== 'string') errors.push('submitter.url must be a string');
+    if (isJsonObject(sub) && sub.feePayerKeypair !== undefined && typeof sub.feePayerKeypair !== 'string') errors.push('submitter.feePayerKeypair must be a path');
+  }
+  if (raw.durableNonce !== undefined && typeof raw.durableNonce !== 'boolean') errors.push('durableNonce must be a boolean');
+  if (raw.priorityFee !== undefined) {
+    const fee = raw.priorityFee;
+    if (!isJsonObject(fee)) errors.push('priorityFee must be an object');
+    else {
+      if (fee.maxMicroLamports !== undefined && !(isInteger(fee.maxMicroLamports) && fee.maxMicroLamports >= 0)) errors.push('priorityFee.maxMicroLamports must be a non-negative integer');
+      if (fee.percentile !== undefined && !(typeof fee.percentile === 'number' && fee.percentile >= 0 && fee.percentile <= 100)) errors.push('priorityFee.percentile must be between 0 and 100');
+      if (fee.attempts !== undefined && !(isInteger(fee.attempts) && fee.attempts >= 1)) errors.push('priorityFee.attempts must be a positive integer');
+      if (fee.escalation !== undefined && !(typeof fee.escalation === 'number' && fee.escalation >= 1)) errors.push('priorityFee.escalation must be a number >= 1');
+    }
+  }
+  if (raw.storage !== undefined) {
+    const storage = raw.storage;
+    if (!isJsonObject(storage) || !['irys', 'ipfs', 's3', 'local'].includes(storage.type as string)) errors.push('storage.type must be one of: irys, ipfs, s3, local');
+    else if (storage.type === 's3' && (typeof storage.bucket !== 'string' || typeof storage.publicUrl !== 'string')) errors.push('storage.bucket and storage.publicUrl are required for s3');
+    if (isJsonObject(storage) && storage.network !== undefined && !['mainnet', 'devnet'].includes(storage.network as string)) errors.push('storage.network must be mainnet or devnet');
+  }
+
+  return errors;
+}
+
+function loadManifest(): TokenManifest {
+  const manifestPath = getManifestPath();
+  if (!fs.existsSync(manifestPath)) throw cliError(`Manifest not found: ${manifestPath}`, EXIT_CODES.config);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (e) {
+    throw cliError(`Manifest ${manifestPath} is not valid JSON: ${errorMessage(e)}`, EXIT_CODES.config);
+  }
+  const errors = validateManifest(raw);
+  if (errors.length) throw cliError(`Invalid manifest ${manifestPath}:\n  - ${errors.join('\n  - ')}`, EXIT_CODES.config);
+  resolveAllocations(raw as TokenManifest);
+  return raw as TokenManifest;
+}
+
+// Rows come back unchecked; resolveAllocations validates each one as a recipient.
+function readAllocationTable(tablePath: string): unknown[] {
+  if (!fs.existsSync(tablePath)) throw cliError(`Allocation table not found: ${tablePath}`, EXIT_CODES.config);
+  const content = fs.readFileSync(tablePath, 'utf-8');
+  if (tablePath.toLowerCase().endsWith('.json')) {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(content);
+    } catch (e) {
+      throw cliError(`Allocation table ${tablePath} is not valid JSON: ${errorMessage(e)}`, EXIT_CODES.config);
+    }
+    if (!Array.isArray(rows)) throw cliError(`Allocation table ${tablePath} must be a JSON array`, EXIT_CODES.config);
+    return rows;
+  }
+
+  // CSV: header row naming label,address and amount and/or percent columns; blank cells are ignored.
+  const lines = content.split(/\r?\n/).map((l) => l.trim()).filter((l) => l && !l.startsWith('#'));
+  if (lines.length < 2) throw cliError(`Allocation table ${tablePath} has no rows`, EXIT_CODES.config);
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  for (const column of ['label', 'address']) {
+    if (!header.includes(column)) throw cliError(`Allocation table ${tablePath} is missing a "${column}" column`, EXIT_CODES.config);
+  }
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',').map((c) => c.trim());
+    const row: Record<string, string | number> = {};
+    header.forEach((column, i) => {
+      if (!cells[i]) return;
+      row[column] = column === 'percent' ? Number(cells[i]) : cells[i];
+    });
+    return row;
+  });
+}
+
+// Resolves recipients (inline or from the allocation table) to base-unit amounts that sum to the supply exactly.
+// Rounding dust from percentage allocations goes to the treasury allocation. Each percentage is rounded down by less
+// than one base unit, so any larger shortfall means the allocations do not add up to the supply.
+function resolveAllocations(manifest: TokenManifest): ResolvedAllocation[] {
+  let rows = manifest.recipients;
+  if (manifest.allocationTable) {
+    const tablePath = path.resolve(path.dirname(getManifestPath()), manifest.allocationTable);
+    const table = readAllocationTable(tablePath);
+    const errors = table.flatMap((r, i) => validateRecipient(r, `${manifest.allocationTable} row ${i + 1}`));
+    if (errors.length) throw cliError(`Invalid allocation table:\n  - ${errors.join('\n  - ')}`, EXIT_CODES.config);
+    rows = table as ManifestRecipient[];
+  }
+  if (!rows || rows.length === 0) throw cliError('No recipients defined in manifest.', EXIT_CODES.config);
+
+  const supply = toBaseUnits(manifest.supply, manifest.decimals);
+  const seen = new Set<string>();
+  const allocations = rows.map((r) => {
+    if (seen.has(r.address)) throw cliError(`Duplicate recipient address: ${r.address}`, EXIT_CODES.config);
+    seen.add(r.address);
+    const amount = r.amount !== undefined
+      ? toBaseUnits(r.amount, manifest.decimals)
+      : (supply * BigInt(Math.round(r.percent! * 1e6))) / BigInt(1e8);
+    return { label: r.label, address: new PublicKey(r.address), amount };
+  });
+
+  const total = allocations.reduce((sum, a) => sum + a.amount, BigInt(0));
+  const percentRows = BigInt(rows.filter((r) => r.percent !== undefined).length);
+  const dust = supply - total;
+  if (dust !== BigInt(0)) {
+    const treasury = allocations.find((a) => a.address.toBase58() === manifest.treasury);
+    if (!treasury || dust < BigInt(0) || dust >= percentRows) {
+      throw cliError(`Allocations sum to ${total} base units, expected supply ${supply}`, EXIT_CODES.config);
+    }
+    treasury.amount += dust;
+  }
+  return allocations;
+}
+
+function toBaseUnits(amount: string, decimals: number): bigint {
+  return BigInt(amount) * BigInt(10) ** BigInt(decimals);
+}
+
+// Deployments are named by --deployment, DEPLOYMENT or the manifest file name, and each gets its own cache namespace.
+function getDeploymentName(): string {
+  const flagIndex = process.argv.indexOf('--deployment');
+  const name = flagIndex !== -1 ? process.argv[flagIndex + 1] : process.env.DEPLOYMENT || path.basename(getManifestPath()).replace(/(\.manifest)?\.json$/, '');
+  if (!name || !/^[\w.-]+$/.test(name)) throw new Error(`Invalid deployment name: ${name}`);
+  return name;
+}
+
+// Cluster Profiles
+// CLUSTER is set from --cluster at startup, and switched by withCluster while promoting.
+function getClusterName(): ClusterName {
+  const name = process.env.CLUSTER || 'mainnet';
+  if (!CLUSTERS.includes(name as ClusterName)) throw cliError(`Unknown cluster "${name}": use one of ${CLUSTERS.join(', ')}`, EXIT_CODES.config);
+  return name as ClusterName;
+}
+
+// Each setting comes from a <CLUSTER>_<KEY> environment variable (e.g. DEVNET_RPC_URL, for CI and the tests), then
+// .env.<cluster>, then (mainnet only, as before profiles) from .env, then the public defaults. SUBMITTER and
+// FEE_PAYER_KEYPAIR fall back to .env on every cluster.
+function getClusterProfile(name = getClusterName()): ClusterProfile {
+  const profilePath = path.join(__dirname, `.env.${name}`);
+  const values = fs.existsSync(profilePath) ? dotenv.parse(fs.readFileSync(profilePath)) : {};
+  const override = (key: string) => process.env[`${name.toUpperCase()}_${key}`] || values[key];
+  const clusterValue = (key: string) => override(key) || (name === 'mainnet' ? process.env[key] : undefined) || undefined;
+  const defaults = CLUSTER_DEFAULTS[name];
+  return {
+    name,
+    rpcUrl: clusterValue('RPC_URL') || defaults.rpcUrl,
+    relayerUrl: clusterValue('RELAYER_URL'),
+    relayerPubkey: clusterValue('RELAYER_PUBKEY'),
+    relayerApiKey: clusterValue('RELAYER_API_KEY'),
+    submitter: override('SUBMITTER') || process.env.SUBMITTER,
+    feePayerKeypair: override('FEE_PAYER_KEYPAIR') || process.env.FEE_PAYER_KEYPAIR,
+    explorerUrl: clusterValue('EXPLORER_URL') || defaults.explorerUrl,
+    genesisHash: defaults.genesisHash,
+  };
+}
+
+function getExplorerUrl(kind: 'address' | 'tx', id: string, cluster = getClusterName()): string {
+  return getClusterProfile(cluster).explorerUrl.replace('{kind}', kind).replace('{id}', id);
+}
+
+// Sets environment variables (undefined deletes one) for the duration of fn, the way runDryRun switches DRY_RUN.
+async function withEnv<T>(vars: Record<string, string | undefined>, fn: () => Promise<T>): Promise<T> {
+  const previous = Object.fromEntries(Object.keys(vars).map((key) => [key, process.env[key]]));
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+  apply(vars);
+  try {
+    return await fn();
+  } finally {
+    apply(previous);
+  }
+}
+
+// Runs fn with another cluster's profile and cache.
+async function withCluster<T>(cluster: ClusterName, fn: () => Promise<T>): Promise<T> {
+  return withEnv({ CLUSTER: cluster }, fn);
+}
+
+// All local state lives under CACHE_DIR (default .cache/); the tests point it at a scratch directory.
+function getCacheRoot(): string {
+  return path.resolve(__dirname, process.env.CACHE_DIR || '.cache');
+}
+
+// Each cluster gets its own namespace (mainnet keeps the unsuffixed one it had before profiles), and dry runs keep their
+// mint, journal and report in a separate namespace so they never touch the live deployment state.
+function getCacheDir(): string {
+  const cluster = getClusterName();
+  const name = cluster === 'mainnet' ? getDeploymentName() : `${getDeploymentName()}.${cluster}`;
+  return path.join(getCacheRoot(), process.env.DRY_RUN === 'true' ? `${name}.dry-run` : name);
+}
+
+// Dry runs execute against a disposable local validator (optionally forked from mainnet with --clone), never the profile RPC.
+function getRpcUrl(): string {
+  return process.env.DRY_RUN === 'true' ? process.env.DRY_RUN_RPC_URL || 'http://127.0.0.1:8899' : getClusterProfile().rpcUrl;
+}
+
+function getConnection(): Connection {
+  return new Connection(getRpcUrl(), 'confirmed');
+}
+
+// Deployments of the active cluster.
+function listDeployments(): string[] {
+  const root = getCacheRoot();
+  if (!fs.existsSync(root)) return [];
+  const cluster = getClusterName();
+  const otherSuffixes = ['dry-run', ...CLUSTERS].filter((c) => c !== cluster).map((c) => `.${c}`);
+  return fs
+    .readdirSync(root)
+    .filter((name) => !otherSuffixes.some((suffix) => name.endsWith(suffix)))
+    .filter((name) => fs.existsSync(path.join(root, name, 'journal.json')) || fs.existsSync(path.join(root, name, 'mint.json')))
+    .map((name) => (cluster === 'mainnet' ? name : name.slice(0, -cluster.length - 1)));
+}
+
+// Journal Functions
+function loadJournal(): DeploymentJournal {
+  const journalPath = path.join(getCacheDir(), 'journal.json');
+  if (fs.existsSync(journalPath)) return JSON.parse(fs.readFileSync(journalPath, 'utf-8'));
+  return { deployment: getDeploymentName(), manifest: getManifestPath(), entries: [] };
+}
+
+// Written to a temp file and renamed so a crash mid-write never leaves a truncated journal.
+function saveJournal(journal: DeploymentJournal): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  const journalPath = path.join(cacheDir, 'journal.json');
+  fs.writeFileSync(`${journalPath}.tmp`, JSON.stringify(journal, null, 2));
+  fs.renameSync(`${journalPath}.tmp`, journalPath);
+}
+
+function updateJournalEntry(journal: DeploymentJournal, entry: JournalEntry, patch: Partial<JournalEntry>): void {
+  Object.assign(entry, patch, { updatedAt: new Date().toISOString() });
+  saveJournal(journal);
+}
+
+function loadDryRunReport(): DryRunReport {
+  const reportPath = path.join(getCacheDir(), 'report.json');
+  if (fs.existsSync(reportPath)) return JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+  return { deployment: getDeploymentName(), manifest: getManifestPath(), rpcUrl: getRpcUrl(), startedAt: new Date().toISOString(), steps: [] };
+}
+
+function saveDryRunReport(report: DryRunReport): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'report.json'), JSON.stringify(report, null, 2));
+}
+
+// Settles every in-flight journal entry against the chain so a restarted run never acts on a send of unknown outcome.
+async function reconcileJournal(connection: Connection): Promise<void> {
+  const journal = loadJournal();
+  const pending = journal.entries.filter((e) => ['intent', 'exported', 'signed', 'sent'].includes(e.status));
+  if (pending.length === 0) return;
+  console.log(`Reconciling ${pending.length} in-flight journal entr${pending.length === 1 ? 'y' : 'ies'} for deployment "${journal.deployment}"...`);
+
+  for (const entry of pending) {
+    if (entry.status === 'intent') {
+      updateJournalEntry(journal, entry, { status: 'failed', error: 'Interrupted before the transaction was signed' });
+      continue;
+    }
+
+    while (true) {
+      if (entry.signature) {
+        const { value } = await connection.getSignatureStatuses([entry.signature], { searchTransactionHistory: true });
+        const status = value[0];
+        if (status && status.err) {
+          updateJournalEntry(journal, entry, { status: 'failed', error: JSON.stringify(status.err) });
+          break;
+        }
+        if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+          updateJournalEntry(journal, entry, { status: 'confirmed' });
+          break;
+        }
+      }
+      if (entry.mint && (await connection.getAccountInfo(new PublicKey(entry.mint)))) {
+        updateJournalEntry(journal, entry, { status: 'confirmed' });
+        break;
+      }
+      if (await isEntryExpired(connection, entry)) {
+        updateJournalEntry(journal, entry, { status: 'expired' });
+        break;
+      }
+      if (entry.status === 'exported') break; // awaiting offline signatures; the import command settles it
+      // A durable-nonce send never expires on its own; once it has had time to land, advancing the nonce kills it.
+      if (entry.nonceAccount && Date.now() - Date.parse(entry.updatedAt) > NONCE_SETTLE_MS) {
+        if (isOfflineSigning()) {
+          console.log(`   Entry #${entry.id} (${entry.step}) may still land on nonce ${entry.nonceAccount}; advance it from the nonce menu without --offline to cancel.`);
+          break;
+        }
+        console.log(`   Entry #${entry.id} (${entry.step}) has not landed; advancing nonce ${entry.nonceAccount} to cancel it...`);
+        await advanceNonce(connection, new PublicKey(entry.nonceAccount));
+        continue;
+      }
+      console.log(`   Entry #${entry.id} (${entry.step}) may still land; waiting for its blockhash to expire...`);
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+    console.log(`   Entry #${entry.id} (${entry.step}): ${entry.status}${entry.status === 'exported' ? ` (awaiting signatures in ${entry.bundle})` : ''}`);
+    recoverMint(entry);
+  }
+}
+
+// A blockhash transaction is dead past its last valid block height, a durable-nonce one once its nonce has moved on.
+async function isEntryExpired(connection: Connection, entry: JournalEntry): Promise<boolean> {
+  if (entry.nonceAccount) {
+    const nonce = await connection.getNonce(new PublicKey(entry.nonceAccount), 'confirmed');
+    return !nonce || nonce.nonce !== entry.blockhash;
+  }
+  return (await connection.getBlockHeight('confirmed')) > (entry.lastValidBlockHeight ?? 0);
+}
+
+// Adopts a mint whose creation landed but was never written to the cache.
+function recoverMint(entry: JournalEntry): void {
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  if (entry.step === 'create-mint' && entry.status === 'confirmed' && entry.mint && !fs.existsSync(mintCachePath)) {
+    fs.writeFileSync(mintCachePath, JSON.stringify({ mint: entry.mint }));
+    console.log(`   Recovered mint ${entry.mint} from journal`);
+  }
+}
+
+function loadAllocationStatus(): Record<string, AllocationRecord> {
+  const statusPath = path.join(getCacheDir(), 'allocations.json');
+  return fs.existsSync(statusPath) ? JSON.parse(fs.readFileSync(statusPath, 'utf-8')) : {};
+}
+
+function saveAllocationStatus(status: Record<string, AllocationRecord>): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'allocations.json'), JSON.stringify(status, null, 2));
+}
+
+// Greedily packs instruction groups into as few transactions as fit in a packet, measured serialized. A group is never
+// split across transactions; each transaction lists the indices of the groups it carries.
+// Room is left for the nonceAdvance a durable-nonce deployment prepends, signed by the nonce authority (USER_AUTH), and
+// the compute budget instructions added on send.
+// With lookup tables, a transaction may be packed beyond the legacy limit; it is then sent as v0 (see compileWire).
+function packGroups(feePayer: PublicKey, nonceAuthority: PublicKey, groups: TransactionInstruction[][], lookupTables: AddressLookupTableAccount[] = []): { tx: Transaction; groups: number[] }[] {
+  // PublicKey.default is the System Program, already in the message, so the placeholder nonce account is a fresh key.
+  const nonceAdvance = SystemProgram.nonceAdvance({ noncePubkey: Keypair.generate().publicKey, authorizedPubkey: nonceAuthority });
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 })];
+  const fits = (tx: Transaction) => {
+    const sized = new Transaction().add(nonceAdvance, ...budget, ...tx.instructions);
+    sized.feePayer = feePayer;
+    sized.recentBlockhash = PublicKey.default.toBase58();
+    return fitsLegacy(sized) || (lookupTables.length > 0 && fitsV0(sized, lookupTables));
+  };
+  const packed: { tx: Transaction; groups: number[] }[] = [];
+  let current = { tx: new Transaction(), groups: [] as number[] };
+  groups.forEach((group, index) => {
+    const candidate = new Transaction().add(...current.tx.instructions, ...group);
+    if (fits(candidate)) {
+      current = { tx: candidate, groups: [...current.groups, index] };
+      return;
+    }
+    if (current.groups.length === 0) throw new Error('Instruction group does not fit in a single transaction');
+    packed.push(current);
+    current = { tx: new Transaction().add(...group), groups: [index] };
+    if (!fits(current.tx)) throw new Error('Instruction group does not fit in a single transaction');
+  });
+  if (current.groups.length > 0) packed.push(current);
+  return packed;
+}
+
+function packInstructions(feePayer: PublicKey, nonceAuthority: PublicKey, groups: TransactionInstruction[][], lookupTables: AddressLookupTableAccount[] = []): Transaction[] {
+  return packGroups(feePayer, nonceAuthority, groups, lookupTables).map((p) => p.tx);
+}
+
+// Keystore
+// Asked for at unlock when KEYSTORE_PASSPHRASE is not set.
+let keystorePassphrase: string | undefined;
+// USER_AUTH's remote signer or Ledger once connected, with the USER_AUTH_SIGNER it was connected for.
+let userAuthSigner: { spec: string; signer: ExternalSigner } | null = null;
+
+// Read when needed rather than at startup, so withEnv can set KEYSTORE_PASSPHRASE.
+function getKeystorePassphrase(): string | undefined {
+  return keystorePassphrase ?? process.env.KEYSTORE_PASSPHRASE;
+}
+
+// With --offline (or SIGNING=offline) USER_AUTH never touches this machine: its sends are exported for signing elsewhere.
+function isOfflineSigning(): boolean {
+  return process.argv.includes('--offline') || process.env.SIGNING === 'offline';
+}
+
+function getUserAuthPaths(): { keystore: string; legacy: string } {
+  const cacheDir = getCacheRoot();
+  return { keystore: path.join(cacheDir, 'user_auth.keystore.json'), legacy: path.join(cacheDir, 'user_auth.json') };
+}
+
+function encryptKeystore(keypair: Keypair, passphrase: string): KeystoreFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const [n, r, p] = [2 ** 15, 8, 1];
+  const key = crypto.scryptSync(passphrase, salt, 32, { N: n, r, p, maxmem: 64 * 1024 * 1024 });
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+  return {
+    version: KEYSTORE_VERSION,
+    publicKey: keypair.publicKey.toBase58(),
+    kdf: 'scrypt',
+    salt: salt.toString('hex'),
+    n,
+    r,
+    p,
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+function decryptKeystore(file: KeystoreFile, passphrase: string): Keypair {
+  if (file.version !== KEYSTORE_VERSION || file.kdf !== 'scrypt' || file.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore (version ${file.version}, ${file.kdf}, ${file.cipher})`);
+  }
+  const key = crypto.scryptSync(passphrase, Buffer.from(file.salt, 'hex'), 32, { N: file.n, r: file.r, p: file.p, maxmem: 64 * 1024 * 1024 });
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'hex'));
+  let secretKey: Buffer;
+  try {
+    secretKey = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'hex')), decipher.final()]);
+  } catch {
+    throw new Error(`Wrong passphrase for keystore of ${file.publicKey}`);
+  }
+  const keypair = Keypair.fromSecretKey(secretKey);
+  if (keypair.publicKey.toBase58() !== file.publicKey) throw new Error(`Keystore decrypts to ${keypair.publicKey.toBase58()}, not ${file.publicKey}`);
+  return keypair;
+}
+
+function writeKeystore(keystorePath: string, keypair: Keypair, passphrase: string): void {
+  const dir = path.dirname(keystorePath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(keystorePath, JSON.stringify(encryptKeystore(keypair, passphrase), null, 2), { mode: 0o600 });
+}
+
+async function loadKeystoreFile(keystorePath: string): Promise<Keypair> {
+  const resolved = path.resolve(__dirname, keystorePath);
+  if (!fs.existsSync(resolved)) throw new Error(`Keystore not found: ${resolved}`);
+  const passphrase = process.env.KEYSTORE_PASSPHRASE || (await askSecret(`Passphrase for ${resolved}: `));
+  return decryptKeystore(JSON.parse(fs.readFileSync(resolved, 'utf-8')), passphrase);
+}
+
+// Asks for the USER_AUTH passphrase once per session (unless KEYSTORE_PASSPHRASE is set) and offers to encrypt a legacy
+// plaintext key, or connects to USER_AUTH's remote signer or Ledger. Runs before any step so loadOrCreateUserAuth can
+// stay synchronous.
+async function unlockUserAuth(): Promise<void> {
+  if (isOfflineSigning()) return;
+  const spec = getUserAuthSignerSpec();
+  if (spec.backend === 'remote' || spec.backend === 'ledger') return connectUserAuthSigner(spec);
+  if (spec.backend === 'solana-cli' || getKeystorePassphrase()) return;
+  const { keystore, legacy } = getUserAuthPaths();
+  if (fs.existsSync(keystore)) {
+    keystorePassphrase = await askSecret('USER_AUTH keystore passphrase: ');
+    decryptKeystore(JSON.parse(fs.readFileSync(keystore, 'utf-8')), keystorePassphrase);
+    return;
+  }
+  if (fs.existsSync(legacy)) {
+    console.warn('⚠️  USER_AUTH is stored in plaintext at .cache/user_auth.json.');
+    if (!process.stdin.isTTY || !(await confirmAction('Encrypt it with a passphrase now?'))) return;
+  }
+  const passphrase = await askSecret('New USER_AUTH keystore passphrase: ');
+  if (passphrase.length < 8) throw new Error('Keystore passphrase must be at least 8 characters.');
+  if ((await askSecret('Repeat passphrase: ')) !== passphrase) throw new Error('Passphrases do not match.');
+  keystorePassphrase = passphrase;
+  if (fs.existsSync(legacy)) {
+    const keypair = Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(legacy, 'utf-8'))));
+    writeKeystore(keystore, keypair, passphrase);
+    fs.unlinkSync(legacy);
+    console.log(`✅ USER_AUTH ${keypair.publicKey.toBase58()} encrypted to ${keystore}; plaintext copy deleted.`);
+  }
+}
+
+// The USER_AUTH public key without unlocking anything, or null before one exists (or before its signer is connected).
+function readUserAuthPublicKey(): PublicKey | null {
+  if (process.env.USER_AUTH_PUBKEY) return new PublicKey(process.env.USER_AUTH_PUBKEY);
+  const spec = getUserAuthSignerSpec();
+  if (spec.backend === 'solana-cli') return fs.existsSync(getSolanaCliKeypairPath(spec.target)) ? loadKeypairFile(getSolanaCliKeypairPath(spec.target)).publicKey : null;
+  if (spec.backend !== 'keystore') return userAuthSigner && userAuthSigner.spec === process.env.USER_AUTH_SIGNER ? userAuthSigner.signer.publicKey : null;
+  return readKeystorePublicKey();
+}
+
+// The public key of the keystore (or legacy plaintext key) in .cache/, whichever signer USER_AUTH_SIGNER selects.
+function readKeystorePublicKey(): PublicKey | null {
+  const { keystore, legacy } = getUserAuthPaths();
+  if (fs.existsSync(keystore)) return new PublicKey(JSON.parse(fs.readFileSync(keystore, 'utf-8')).publicKey);
+  if (fs.existsSync(legacy)) return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(legacy, 'utf-8')))).publicKey;
+  return null;
+}
+
+function loadOrCreateUserAuth(): AuthorityKey {
+  const { keystore, legacy } = getUserAuthPaths();
+  if (isOfflineSigning()) {
+    const publicKey = readUserAuthPublicKey();
+    if (!publicKey) throw new Error('Offline signing needs USER_AUTH_PUBKEY in .env: the USER_AUTH key lives on the signing machine.');
+    return { publicKey };
+  }
+  const spec = getUserAuthSignerSpec();
+  if (spec.backend === 'solana-cli') return loadKeypairFile(getSolanaCliKeypairPath(spec.target));
+  if (spec.backend !== 'keystore') {
+    if (!userAuthSigner || userAuthSigner.spec !== process.env.USER_AUTH_SIGNER) throw new Error(`USER_AUTH signer ${process.env.USER_AUTH_SIGNER} is not connected yet.`);
+    return userAuthSigner.signer;
+  }
+  const passphrase = getKeystorePassphrase();
+  if (fs.existsSync(keystore)) {
+    if (!passphrase) throw new Error('USER_AUTH keystore is locked. Set KEYSTORE_PASSPHRASE or run the copilot interactively.');
+    return decryptKeystore(JSON.parse(fs.readFileSync(keystore, 'utf-8')), passphrase);
+  }
+  if (fs.existsSync(legacy)) {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(legacy, 'utf-8'))));
+  }
+  if (!passphrase) throw new Error('No USER_AUTH keystore yet. Set KEYSTORE_PASSPHRASE or run the copilot interactively to create one.');
+  const keypair = Keypair.generate();
+  writeKeystore(keystore, keypair, passphrase);
+  console.log(`Generated new USER_AUTH keypair: ${keypair.publicKey.toBase58()} (encrypted at ${keystore})`);
+  return keypair;
+}
+
+// Signers
+const SIGNER_BACKENDS: SignerBackend[] = ['keystore', 'solana-cli', 'remote', 'ledger'];
+const EXTERNAL_SIGNER_TIMEOUT_MS = 120_000; // a remote signer or Ledger may be waiting on a person to approve
+const REMOTE_SIGNER_PORT = 8997;
+const DEFAULT_LEDGER_PATH = "44'/501'/0'/0'";
+const DEFAULT_LEDGER_APDU = '127.0.0.1:9999'; // the Speculos APDU port
+
+// USER_AUTH_SIGNER (and sign --signer): keystore (the passphrase-encrypted USER_AUTH in .cache/, the default),
+// solana-cli[:<keypair path>], remote:<http://127.0.0.1:<port> | unix:<socket path>> or ledger[:<derivation path>].
+function parseSignerSpec(spec: string): SignerSpec {
+  const separator = spec.indexOf(':');
+  const backend = (separator === -1 ? spec : spec.slice(0, separator)) as SignerBackend;
+  const target = separator === -1 ? undefined : spec.slice(separator + 1);
+  const usage = 'use keystore, solana-cli[:<path>], remote:<http://127.0.0.1:<port> | unix:<socket>> or ledger[:<derivation path>]';
+  if (!SIGNER_BACKENDS.includes(backend)) throw cliError(`Unknown signer "${spec}": ${usage}`, EXIT_CODES.config);
+  if (backend === 'keystore' && target) throw cliError(`The keystore signer is always .cache/user_auth.keystore.json; use sign --keystore <path> for another one.`, EXIT_CODES.config);
+  if (backend === 'remote' && !/^(http:\/\/|unix:)/.test(target ?? '')) throw cliError(`Remote signer "${spec}" needs an http:// or unix: address: ${usage}`, EXIT_CODES.config);
+  return { backend, target };
+}
+
+function getUserAuthSignerSpec(): SignerSpec {
+  return parseSignerSpec(process.env.USER_AUTH_SIGNER || 'keystore');
+}
+
+function getSolanaCliKeypairPath(target?: string): string {
+  return (target ?? path.join(os.homedir(), '.config', 'solana', 'id.json')).replace(/^~(?=$|\/)/, os.homedir());
+}
+
+// Solana keys are ed25519; node's crypto takes them wrapped in DER.
+function signEd25519(message: Uint8Array, keypair: Keypair): Buffer {
+  const privateKey = crypto.createPrivateKey({ key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.from(keypair.secretKey.slice(0, 32))]), format: 'der', type: 'pkcs8' });
+  return crypto.sign(null, message, privateKey);
+}
+
+function verifyEd25519(message: Uint8Array, signature: Uint8Array, publicKey: PublicKey): boolean {
+  const key = crypto.createPublicKey({ key: Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), publicKey.toBuffer()]), format: 'der', type: 'spki' });
+  return signature.length === 64 && crypto.verify(null, message, key, signature);
+}
+
+// An external signer's signature is checked before it goes into a transaction, so a misbehaving signer fails here
+// rather than as an opaque rejection from the cluster.
+async function signMessageWith(signer: TransactionSigner, message: Uint8Array): Promise<Buffer> {
+  if (signer instanceof Keypair) return signEd25519(message, signer);
+  const signature = Buffer.from(await signer.signMessage(message));
+  if (!verifyEd25519(message, signature, signer.publicKey)) throw new Error(`${signer.name} returned an invalid signature for ${signer.publicKey.toBase58()}.`);
+  return signature;
+}
+
+function isTransactionSigner(key: AuthorityKey): key is TransactionSigner {
+  return key instanceof Keypair || 'signMessage' in key;
+}
+
+async function openSigner(spec: SignerSpec): Promise<TransactionSigner> {
+  switch (spec.backend) {
+    case 'keystore':
+      return loadKeystoreFile(getUserAuthPaths().keystore);
+    case 'solana-cli':
+      return loadKeypairFile(getSolanaCliKeypairPath(spec.target));
+    case 'remote':
+      return connectRemoteSigner(spec.target!);
+    case 'ledger':
+      return connectLedgerSigner(spec.target ?? DEFAULT_LEDGER_PATH, process.env.LEDGER_APDU || DEFAULT_LEDGER_APDU);
+  }
+}
+
+// Connects once per USER_AUTH_SIGNER; USER_AUTH_PUBKEY, when set, pins the key the signer must present.
+async function connectUserAuthSigner(spec: SignerSpec): Promise<void> {
+  const key = process.env.USER_AUTH_SIGNER!;
+  if (userAuthSigner?.spec === key) return;
+  const signer = (await openSigner(spec)) as ExternalSigner;
+  const expected = process.env.USER_AUTH_PUBKEY;
+  if (expected && signer.publicKey.toBase58() !== expected) {
+    throw cliError(`${signer.name} holds ${signer.publicKey.toBase58()}, not USER_AUTH_PUBKEY ${expected}.`, EXIT_CODES.config);
+  }
+  userAuthSigner = { spec: key, signer };
+  console.log(`✅ USER_AUTH ${signer.publicKey.toBase58()} signs on ${signer.name}`);
+}
+
+// Remote signer protocol, JSON over HTTP on 127.0.0.1 or a Unix socket:
+//   GET /public-key                      -> { "publicKey": "<base58>" }
+//   POST /sign { publicKey, message }    -> { "signature": "<base64>" }  (message: a base64 transaction message)
+// Failures answer with a non-2xx status and { "error": "..." }. REMOTE_SIGNER_TOKEN, when set, is the bearer token.
+async function remoteSignerRequest<R extends keyof RemoteSignerReplies>(address: string, method: 'GET' | 'POST', route: R, body?: object): Promise<RemoteSignerReplies[R]> {
+  const socketPath = address.startsWith('unix:') ? address.slice('unix:'.length) : undefined;
+  const url = new URL(route, socketPath ? 'http://localhost' : address);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.REMOTE_SIGNER_TOKEN) headers.Authorization = `Bearer ${process.env.REMOTE_SIGNER_TOKEN}`;
+  return new Promise((resolve, reject) => {
+    const req = http.request({ socketPath, hostname: url.hostname, port: url.port, path: url.pathname, method, headers, timeout: EXTERNAL_SIGNER_TIMEOUT_MS }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        let json: Record<string, unknown>;
+        try {
+          json = JSON.parse(text);
+        } catch {
+          json = { error: text };
+        }
+        const field = route === '/sign' ? 'signature' : 'publicKey';
+        if (res.statusCode! < 200 || res.statusCode! >= 300) reject(new Error(`Remote signer ${address} answered ${res.statusCode}: ${json.error ?? text}`));
+        else if (typeof json[field] !== 'string') reject(new Error(`Remote signer ${address} answered ${route} without a ${field}: ${text}`));
+        else resolve(json as unknown as RemoteSignerReplies[R]);
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error(`Remote signer ${address} did not answer within ${EXTERNAL_SIGNER_TIMEOUT_MS / 1000}s`)));
+    req.on('error', reject);
+    req.end(body ? JSON.stringify(body) : undefined);
+  });
+}
+
+async function connectRemoteSigner(address: string): Promise<ExternalSigner> {
+  const publicKey = new PublicKey((await remoteSignerRequest(address, 'GET', '/public-key')).publicKey);
+  return {
+    name: `remote signer ${address}`,
+    publicKey,
+    signMessage: async (message) => {
+      const reply = await remoteSignerRequest(address, 'POST', '/sign', { publicKey: publicKey.toBase58(), message: Buffer.from(message).toString('base64') });
+      return Buffer.from(reply.signature, 'base64');
+    },
+  };
+}
+
+// Ledger: the Solana app's APDUs (CLA 0xe0). GET_PUBKEY takes a BIP32 path; SIGN_MESSAGE takes a signer count, the path
+// and the message, in 255-byte chunks flagged MORE (another follows) and EXTEND (continues the previous one).
+const LEDGER_CLA = 0xe0;
+const LEDGER_INS_GET_PUBKEY = 0x05;
+const LEDGER_INS_SIGN_MESSAGE = 0x06;
+const LEDGER_P1_CONFIRM = 0x01;
+const LEDGER_P2_EXTEND = 0x01;
+const LEDGER_P2_MORE = 0x02;
+const LEDGER_MAX_CHUNK = 255;
+const LEDGER_SW_OK = 0x9000;
+const LEDGER_SW_DENIED = 0x6985;
+const LEDGER_SW_INVALID_DATA = 0x6a80;
+const LEDGER_SW_UNKNOWN_INS = 0x6d00;
+
+// m/44'/501'/0'/0' as BIP32 indices; ed25519 derivation only has hardened ones.
+function parseDerivationPath(derivationPath: string): number[] {
+  return derivationPath.replace(/^m\//, '').split('/').map((part) => {
+    const index = Number(part.replace(/'$/, ''));
+    if (!part.endsWith("'") || !Number.isInteger(index) || index < 0 || index >= 0x80000000) {
+      throw cliError(`Invalid derivation path ${derivationPath}: every index must be hardened, as in ${DEFAULT_LEDGER_PATH}`, EXIT_CODES.config);
+    }
+    return 0x80000000 + index;
+  });
+}
+
+// A count byte and the big-endian indices.
+function encodeDerivationPath(derivationPath: string): Buffer {
+  const indices = parseDerivationPath(derivationPath);
+  const encoded = Buffer.alloc(1 + 4 * indices.length);
+  encoded.writeUInt8(indices.length, 0);
+  indices.forEach((index, i) => encoded.writeUInt32BE(index, 1 + 4 * i));
+  return encoded;
+}
+
+// The Speculos APDU socket framing, which the ledger-emulator command also serves: a 4-byte big-endian length and the
+// APDU out; a 4-byte length, the response data and a 2-byte status word back.
+async function openSpeculosTransport(address: string): Promise<LedgerTransport> {
+  const [host, port] = address.split(':');
+  const socket = net.connect(Number(port), host);
+  await new Promise<void>((resolve, reject) => socket.once('connect', resolve).once('error', (e) => reject(new Error(`No Ledger APDU socket on ${address} (${e.message}); set LEDGER_APDU.`))));
+  socket.unref();
+  return {
+    name: `Ledger on ${address}`,
+    exchange: (apdu) =>
+      new Promise((resolve, reject) => {
+        let response = Buffer.alloc(0);
+        const done = () => {
+          clearTimeout(timer);
+          socket.off('data', onData).off('error', onError).off('close', onClose);
+        };
+        const onData = (chunk: Buffer) => {
+          response = Buffer.concat([response, chunk]);
+          if (response.length < 4 || response.length < response.readUInt32BE(0) + 6) return;
+          done();
+          const length = response.readUInt32BE(0);
+          resolve({ data: response.subarray(4, 4 + length), status: response.readUInt16BE(4 + length) });
+        };
+        const onError = (e: Error) => {
+          done();
+          reject(e);
+        };
+        const onClose = () => onError(new Error(`Ledger on ${address} closed the connection`));
+        const timer = setTimeout(() => onError(new Error(`Ledger on ${address} did not answer within ${EXTERNAL_SIGNER_TIMEOUT_MS / 1000}s`)), EXTERNAL_SIGNER_TIMEOUT_MS);
+        socket.on('data', onData).on('error', onError).on('close', onClose);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(apdu.length);
+        socket.write(Buffer.concat([length, apdu]));
+      }),
+  };
+}
+
+async function sendLedgerApdu(transport: LedgerTransport, ins: number, p1: number, payload: Buffer): Promise<Buffer> {
+  let p2 = 0;
+  for (let offset = 0; ; p2 |= LEDGER_P2_EXTEND) {
+    const chunk = payload.subarray(offset, offset + LEDGER_MAX_CHUNK);
+    offset += chunk.length;
+    const more = offset < payload.length;
+    const { data, status } = await transport.exchange(Buffer.concat([Buffer.from([LEDGER_CLA, ins, p1, more ? p2 | LEDGER_P2_MORE : p2, chunk.length]), chunk]));
+    if (status === LEDGER_SW_DENIED) throw new Error(`The request was rejected on the device (${transport.name}).`);
+    if (status !== LEDGER_SW_OK) throw new Error(`${transport.name} answered 0x${status.toString(16)}; is it unlocked with the Solana app open (and blind signing enabled)?`);
+    if (!more) return data;
+  }
+}
+
+async function connectLedgerSigner(derivationPath: string, address: string): Promise<ExternalSigner> {
+  const transport = await openSpeculosTransport(address);
+  const encodedPath = encodeDerivationPath(derivationPath);
+  const publicKey = new PublicKey(await sendLedgerApdu(transport, LEDGER_INS_GET_PUBKEY, 0, encodedPath));
+  return {
+    name: `${transport.name} (${derivationPath})`,
+    publicKey,
+    signMessage: (message) => sendLedgerApdu(transport, LEDGER_INS_SIGN_MESSAGE, LEDGER_P1_CONFIRM, Buffer.concat([Buffer.from([1]), encodedPath, Buffer.from(message)])),
+  };
+}
+
+// Submission Backends
+function loadKeypairFile(keypairPath: string): Keypair {
+  const resolved = path.resolve(__dirname, keypairPath);
+  if (!fs.existsSync(resolved)) throw new Error(`Keypair file not found: ${resolved}`);
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(resolved, 'utf-8'))));
+}
+
+// Transaction Format
+// Steps build legacy Transactions; what goes on the wire is the legacy transaction while it fits in a packet and a
+// v0 transaction against the deployment lookup table once it does not.
+type WireTransaction = Transaction | VersionedTransaction;
+
+function fitsLegacy(tx: Transaction): boolean {
+  try {
+    return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).length <= PACKET_DATA_SIZE;
+  } catch {
+    return false; // web3.js refuses to serialize an oversized legacy transaction
+  }
+}
+
+// A v0 message that loads what it can from the lookup tables; signers and the fee payer always stay static.
+function compileV0(tx: Transaction, lookupTables: AddressLookupTableAccount[]): VersionedTransaction {
+  const message = new TransactionMessage({ payerKey: tx.feePayer!, recentBlockhash: tx.recentBlockhash!, instructions: tx.instructions });
+  return new VersionedTransaction(message.compileToV0Message(lookupTables));
+}
+
+function fitsV0(tx: Transaction, lookupTables: AddressLookupTableAccount[]): boolean {
+  try {
+    return compileV0(tx, lookupTables).serialize().length <= PACKET_DATA_SIZE;
+  } catch {
+    return false;
+  }
+}
+
+async function compileWire(connection: SubmitterConnection, tx: Transaction): Promise<WireTransaction> {
+  if (fitsLegacy(tx)) return tx;
+  const lookupTables = await loadLookupTables(connection);
+  if (!lookupTables.length || !fitsV0(tx, lookupTables)) {
+    throw new Error(`Transaction does not fit in ${PACKET_DATA_SIZE} bytes${lookupTables.length ? ' even with the lookup table; extend it' : '; create a lookup table with `lookup-table create`'}.`);
+  }
+  return compileV0(tx, lookupTables);
+}
+
+// Keypairs sign in process; external signers are handed the serialized message and their signatures checked.
+async function signWire(wire: WireTransaction, signers: TransactionSigner[]): Promise<void> {
+  const keypairs = signers.filter((signer): signer is Keypair => signer instanceof Keypair);
+  if (keypairs.length) {
+    if (wire instanceof VersionedTransaction) wire.sign(keypairs);
+    else wire.partialSign(...keypairs);
+  }
+  const external = signers.filter((signer): signer is ExternalSigner => !(signer instanceof Keypair));
+  if (!external.length) return;
+  const message = wire instanceof VersionedTransaction ? wire.message.serialize() : wire.serializeMessage();
+  for (const signer of external) wire.addSignature(signer.publicKey, await signMessageWith(signer, message));
+}
+
+function serializeWire(wire: WireTransaction): Buffer {
+  return wire instanceof VersionedTransaction ? Buffer.from(wire.serialize()) : wire.serialize({ requireAllSignatures: false });
+}
+
+// The required signers with their signatures, fee payer first; null where a signature is still missing.
+function getWireSignatures(wire: WireTransaction): { publicKey: PublicKey; signature: Uint8Array | null }[] {
+  if (!(wire instanceof VersionedTransaction)) return wire.signatures;
+  const signers = wire.message.staticAccountKeys.slice(0, wire.message.header.numRequiredSignatures);
+  return signers.map((publicKey, i) => ({ publicKey, signature: wire.signatures[i].some((byte) => byte !== 0) ? wire.signatures[i] : null }));
+}
+
+// Compute Budget
+// Defaults for manifest.priorityFee.
+const DEFAULT_PRIORITY_FEE: Required<PriorityFeeConfig> = { maxMicroLamports: 1_000_000, percentile: 75, attempts: 3, escalation: 2 };
+
+function getPriorityFeeConfig(): Required<PriorityFeeConfig> {
+  return { ...DEFAULT_PRIORITY_FEE, ...loadManifest().priorityFee };
+}
+
+// A percentile of the recent prioritization fees paid to write the same accounts, escalated on each rebuild and capped.
+async function estimatePriorityFee(connection: SubmitterConnection, tx: Transaction, attempt: number): Promise<number> {
+  const config = getPriorityFeeConfig();
+  const message = tx.compileMessage();
+  const writable = message.accountKeys.filter((_, index) => message.isAccountWritable(index)).slice(0, 128);
+  const fees = (await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writable })).map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  const estimate = fees.length ? fees[Math.min(fees.length - 1, Math.floor((fees.length * config.percentile) / 100))] : 0;
+  const price = attempt === 1 ? estimate : Math.max(estimate, MIN_ESCALATED_MICRO_LAMPORTS) * config.escalation ** (attempt - 1);
+  return Math.min(Math.ceil(price), config.maxMicroLamports);
+}
+
+// Sizes the compute unit limit from a simulation and sets the price, replacing the budget of an earlier build. The
+// budget instructions follow nonceAdvance, which must stay first.
+async function setComputeBudget(connection: SubmitterConnection, tx: Transaction, attempt: number): Promise<void> {
+  const instructions = tx.instructions.filter((ix) => !ix.programId.equals(ComputeBudgetProgram.programId));
+  const durable = !!getDurableNonce(tx);
+  const head = durable ? 1 : 0;
+  const withBudget = (units: number, microLamports: number) => [
+    ...instructions.slice(0, head),
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ...instructions.slice(head),
+  ];
+
+  tx.instructions = withBudget(MAX_COMPUTE_UNITS, 0);
+  const microLamports = await estimatePriorityFee(connection, tx, attempt);
+  let units: number;
+  try {
+    const wire = await compileWire(connection, tx);
+    const simulated = wire instanceof VersionedTransaction ? wire : new VersionedTransaction(tx.compileMessage());
+    const { value } = await connection.simulateTransaction(simulated, { sigVerify: false, replaceRecentBlockhash: !durable, commitment: 'confirmed' });
+    if (value.err || !value.unitsConsumed) throw new Error(`simulation failed: ${JSON.stringify(value.err)}`);
+    units = Math.min(MAX_COMPUTE_UNITS, Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN));
+  } catch (e) {
+    units = Math.min(MAX_COMPUTE_UNITS, FALLBACK_COMPUTE_UNITS * instructions.length);
+    console.warn(`⚠️  No compute unit estimate (${errorMessage(e)}); using a limit of ${units}.`);
+  }
+  tx.instructions = withBudget(units, microLamports);
+}
+
+// The blockhash and compute budget must be set before signing, otherwise the signatures cover a different message. A
+// durable-nonce transaction already carries its nonce as blockhash and has no last valid block height. The signed
+// wire form is tx itself when it is sent as legacy.
+async function prepareTransaction(connection: SubmitterConnection, feePayer: PublicKey, tx: Transaction, signers: TransactionSigner[], attempt = 1): Promise<{ blockhash: string; lastValidBlockHeight: number; wire: WireTransaction }> {
+  tx.feePayer = feePayer;
+  const { blockhash, lastValidBlockHeight } = getDurableNonce(tx) ? { blockhash: tx.recentBlockhash!, lastValidBlockHeight: Number.MAX_SAFE_INTEGER } : await connection.getLatestBlockhash('confirmed');
   tx.recentBlockhash = blockhash;
+  await setComputeBudget(connection, tx, attempt);
+  const wire = await compileWire(connection, tx);
+  await signWire(wire, signers);
+  return { blockhash, lastValidBlockHeight, wire };
+}
+
+// Send Errors
+function sendError(kind: SendErrorKind, message: string, details: Partial<Pick<SendError, 'signature' | 'instruction' | 'logs'>> = {}): SendError {
+  return Object.assign(new Error(message), { kind }, details);
+}
+
+function isSendError(e: unknown): e is SendError {
+  return e instanceof Error && typeof (e as Partial<SendError>).kind === 'string';
+}
+
+// Classifies whatever a send threw. Errors that are not already classified come from web3.js: SendTransactionError
+// when preflight simulation rejected the transaction, anything else is a transport or node failure.
+function classifySendError(e: unknown): SendError {
+  if (isSendError(e)) return e;
+  if (e instanceof SendTransactionError) return sendError('simulation', e.message, { logs: e.logs ?? undefined });
+  return Object.assign(e instanceof Error ? e : new Error(String(e)), { kind: 'rpc' as const });
+}
+
+// Relayer, RPC and expiry failures may pass on a fresh build; a rejected or failed transaction would fail the same way.
+function isRetryable(error: SendError): boolean {
+  return error.kind === 'relayer' || error.kind === 'rpc' || error.kind === 'expired';
+}
+
+// TransactionError is untyped JSON; an instruction failure is { InstructionError: [index, detail] }, where detail is a
+// name or { Custom: code }.
+function getInstructionError(err: TransactionError): [number, unknown] | null {
+  if (typeof err !== 'object' || err === null || !('InstructionError' in err)) return null;
+  const [index, detail] = Array.isArray(err.InstructionError) ? err.InstructionError : [];
+  return typeof index === 'number' ? [index, detail] : null;
+}
+
+// The error of a transaction that landed and failed, naming the failing instruction and carrying its program logs.
+async function programError(connection: SubmitterConnection, signature: string, err: TransactionError): Promise<SendError> {
+  const [instruction, detail]: [number | undefined, unknown] = getInstructionError(err) ?? [undefined, err];
+  const custom = typeof detail === 'object' && detail !== null && 'Custom' in detail && typeof detail.Custom === 'number' ? detail.Custom : null;
+  const reason = custom !== null ? `custom program error 0x${custom.toString(16)}` : JSON.stringify(detail);
+  const found = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' }).catch(() => null);
+  const logs = found?.meta?.logMessages ?? undefined;
+  const where = instruction === undefined ? '' : ` in instruction ${instruction}`;
+  return sendError('program', `Transaction ${signature} failed${where}: ${reason}${logs?.length ? `\n${logs.join('\n')}` : ''}`, { signature, instruction, logs });
+}
+
+// Observability
+// Every run gets an id, and every step within it a stepId of <run>.<n>; JSON log lines, metrics and webhook events
+// carry both, so the lines of one deployment step can be found across machines and retries.
+const RUN_ID = crypto.randomBytes(6).toString('hex');
+const LAMPORTS_PER_SIGNATURE = 5_000;
+const WEBHOOK_ATTEMPTS = 3; // per URL, with exponential backoff
+const WEBHOOK_TIMEOUT_MS = 5_000;
+const stepStack: { step: string; id: string; start: number }[] = [];
+let stepCount = 0;
+let writeLogLine: ((line: string) => void) | null = null; // set while LOG_FORMAT=json
+
+type DeploymentEventName = 'step.start' | 'step.success' | 'step.failure' | 'step.awaiting-signatures' | 'irreversible';
+
+interface DeploymentEvent {
+  event: DeploymentEventName;
+  time: string;
+  deployment?: string;
+  cluster?: string;
+  run: string;
+  step?: string;
+  stepId?: string;
+  [field: string]: unknown;
+}
+
+// Counters and summaries by label set, rendered in the Prometheus text format.
+const metrics = {
+  counters: new Map<string, { help: string; values: Map<string, number> }>(),
+  summaries: new Map<string, { help: string; values: Map<string, { count: number; sum: number }> }>(),
+};
+
+function metricLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  return entries.length ? `{${entries.map(([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}` : '';
+}
+
+function incrementMetric(name: string, help: string, labels: Record<string, string>, by = 1): void {
+  const metric = metrics.counters.get(name) ?? { help, values: new Map() };
+  metrics.counters.set(name, metric);
+  const key = metricLabels(labels);
+  metric.values.set(key, (metric.values.get(key) ?? 0) + by);
+}
+
+function observeMetric(name: string, help: string, labels: Record<string, string>, value: number): void {
+  const metric = metrics.summaries.get(name) ?? { help, values: new Map() };
+  metrics.summaries.set(name, metric);
+  const key = metricLabels(labels);
+  const current = metric.values.get(key) ?? { count: 0, sum: 0 };
+  metric.values.set(key, { count: current.count + 1, sum: current.sum + value });
+}
+
+function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const [name, { help, values }] of metrics.counters) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+    for (const [labels, value] of values) lines.push(`${name}${labels} ${value}`);
+  }
+  for (const [name, { help, values }] of metrics.summaries) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} summary`);
+    for (const [labels, { count, sum }] of values) lines.push(`${name}_sum${labels} ${sum}`, `${name}_count${labels} ${count}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Rewrites METRICS_FILE whole (for a node_exporter textfile collector), through a temporary file so it is never read half-written.
+function writeMetricsFile(): void {
+  const metricsFile = process.env.METRICS_FILE;
+  if (!metricsFile) return;
+  fs.mkdirSync(path.dirname(path.resolve(metricsFile)), { recursive: true });
+  fs.writeFileSync(`${metricsFile}.tmp`, renderMetrics());
+  fs.renameSync(`${metricsFile}.tmp`, metricsFile);
+}
+
+// Serves GET /metrics on 127.0.0.1 for as long as the process runs; the server never keeps it alive on its own.
+async function startMetricsServer(port: number): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'GET' || req.url !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      return res.end('GET /metrics\n');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+    res.end(renderMetrics());
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+  server.unref();
+  return server;
+}
+
+// The fee and compute-unit limit a signed transaction pays for: the base fee per signature plus its priority fee.
+function transactionCost(b64: string): { fee: number; computeUnits: number } {
+  const { message } = VersionedTransaction.deserialize(Buffer.from(b64, 'base64'));
+  let computeUnits = 0;
+  let microLamports = 0;
+  for (const compiled of message.compiledInstructions) {
+    const programId = message.staticAccountKeys[compiled.programIdIndex];
+    if (!programId?.equals(ComputeBudgetProgram.programId)) continue;
+    const ix = new TransactionInstruction({ programId, keys: [], data: Buffer.from(compiled.data) });
+    const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    if (type === 'SetComputeUnitLimit') computeUnits = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+    if (type === 'SetComputeUnitPrice') microLamports = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+  }
+  return { fee: LAMPORTS_PER_SIGNATURE * message.header.numRequiredSignatures + Math.ceil((microLamports * computeUnits) / 1_000_000), computeUnits };
+}
+
+// Counts a confirmed transaction of a journal step, with its latency from the first signed build and its cost.
+function recordConfirmedTransaction(step: string, signedAt: number, transaction?: string): void {
+  incrementMetric('grok_transactions_total', 'Transactions by journal step and outcome.', { step, outcome: 'confirmed' });
+  observeMetric('grok_confirmation_seconds', 'Seconds from the first signed build of a transaction to its confirmation.', { step }, (Date.now() - signedAt) / 1000);
+  if (!transaction) return;
+  const { fee, computeUnits } = transactionCost(transaction);
+  incrementMetric('grok_fees_lamports_total', 'Fees of confirmed transactions, in lamports, when paid at their compute-unit limit.', { step }, fee);
+  incrementMetric('grok_compute_unit_limit_total', 'Compute-unit limits of confirmed transactions.', { step }, computeUnits);
+}
+
+function recordSendRetry(kind: 'rebuild' | 'rebroadcast' | 'relayer'): void {
+  incrementMetric('grok_send_retries_total', 'Rebuilt transactions, rebroadcasts of an unconfirmed build and retried relayer POSTs.', { kind });
+}
+
+function currentStep(): { step: string; id: string } | undefined {
+  return stepStack[stepStack.length - 1];
+}
+
+function deploymentContext(): { deployment?: string; cluster?: string } {
+  const tryRead = <T>(read: () => T) => {
+    try {
+      return read();
+    } catch {
+      return undefined;
+    }
+  };
+  return { deployment: tryRead(getDeploymentName), cluster: tryRead(getClusterName) };
+}
+
+// With LOG_FORMAT=json every console line becomes one JSON object on the stream it was written to.
+function installJsonLogging(): void {
+  if (process.env.LOG_FORMAT !== 'json') return;
+  const write = (stream: NodeJS.WriteStream) => (line: string) => stream.write(line + '\n');
+  const levels = { log: 'info', info: 'info', warn: 'warn', error: 'error' } as const;
+  // --json already points console.log at stderr; keep each level on the stream it writes to now.
+  const streams = { log: console.log === console.error ? process.stderr : process.stdout, info: process.stdout, warn: process.stderr, error: process.stderr };
+  writeLogLine = write(streams.log);
+  for (const method of Object.keys(levels) as (keyof typeof levels)[]) {
+    const out = write(streams[method]);
+    console[method] = (...args: unknown[]) => {
+      const step = currentStep();
+      out(JSON.stringify({ time: new Date().toISOString(), level: levels[method], ...deploymentContext(), run: RUN_ID, step: step?.step, stepId: step?.id, msg: util.format(...args).trim() }));
+    };
+  }
+}
+
+// POSTs an event to each WEBHOOK_URLS endpoint, signed with WEBHOOK_SECRET when set. A webhook that keeps failing
+// is warned about and never fails the deployment.
+async function notifyWebhooks(event: DeploymentEvent): Promise<void> {
+  const urls = (process.env.WEBHOOK_URLS ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+  const wanted = (process.env.WEBHOOK_EVENTS ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  if (!urls.length || (wanted.length && !wanted.includes(event.event))) return;
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.WEBHOOK_SECRET) headers['X-Grok-Signature'] = `sha256=${crypto.createHmac('sha256', process.env.WEBHOOK_SECRET).update(body).digest('hex')}`;
+
+  await Promise.all(
+    urls.map(async (url) => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const res = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          return;
+        } catch (e) {
+          if (attempt >= WEBHOOK_ATTEMPTS) {
+            console.warn(`⚠️  Webhook ${url} failed after ${attempt} attempt(s) for ${event.event}: ${errorMessage(e)}`);
+            return;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+        }
+      }
+    })
+  );
+}
+
+// Emits an event of the current step: a JSON log line under LOG_FORMAT=json, and a webhook notification.
+async function emitEvent(name: DeploymentEventName, fields: Record<string, unknown> = {}): Promise<void> {
+  const step = currentStep();
+  const event: DeploymentEvent = { event: name, time: new Date().toISOString(), ...deploymentContext(), run: RUN_ID, step: step?.step, stepId: step?.id, ...fields };
+  writeLogLine?.(JSON.stringify({ level: name === 'step.failure' ? 'error' : 'info', ...event }));
+  await notifyWebhooks(event);
+}
+
+// Runs a step between step.start and step.success or step.failure events, counting and timing it. Transactions
+// exported for offline signing end it as awaiting signatures rather than failed.
+async function withStep<T>(step: string, run: () => Promise<T>): Promise<T> {
+  const entry = { step, id: `${RUN_ID}.${++stepCount}`, start: Date.now() };
+  stepStack.push(entry);
+  const finish = async (outcome: string, event: DeploymentEventName, fields: Record<string, unknown>) => {
+    const seconds = (Date.now() - entry.start) / 1000;
+    incrementMetric('grok_steps_total', 'Steps by outcome.', { step, outcome });
+    observeMetric('grok_step_duration_seconds', 'Seconds a step ran.', { step, outcome }, seconds);
+    writeMetricsFile();
+    await emitEvent(event, { durationMs: Date.now() - entry.start, ...fields });
+  };
+  try {
+    await emitEvent('step.start');
+    let result: T;
+    try {
+      result = await run();
+    } catch (e) {
+      const exitCode = e instanceof Error && 'exitCode' in e && typeof e.exitCode === 'number' ? e.exitCode : EXIT_CODES.error;
+      if (exitCode === EXIT_CODES.awaitingSignatures) await finish('awaiting-signatures', 'step.awaiting-signatures', { message: errorMessage(e) });
+      else await finish('failure', 'step.failure', { error: errorMessage(e), kind: isSendError(e) ? e.kind : undefined, exitCode });
+      throw e;
+    }
+    await finish('success', 'step.success', {});
+    return result;
+  } finally {
+    stepStack.pop();
+  }
+}
+
+// Confirmation Tracking
+async function getSignatureStatus(connection: SubmitterConnection, signature: string, searchTransactionHistory: boolean) {
+  return (await connection.getSignatureStatuses([signature], { searchTransactionHistory })).value[0];
+}
+
+// Whether a build can no longer land: the chain is past its last valid block height, or its durable nonce has moved.
+async function hasExpired(connection: SubmitterConnection, tx: Transaction, lastValidBlockHeight: number): Promise<boolean> {
+  const durable = getDurableNonce(tx);
+  if (durable) {
+    const nonce = await connection.getNonce(durable.nonceAccount, 'confirmed');
+    return !nonce || nonce.nonce !== durable.nonce;
+  }
+  return (await connection.getBlockHeight('confirmed')) > lastValidBlockHeight;
+}
+
+// Polls a sent transaction until it confirms, rebroadcasting the same bytes while it can still land. It gives up with
+// an 'expired' error only after the build has expired and a lookup through the transaction history finds nothing, so
+// the caller may rebuild without executing the step twice.
+async function trackConfirmation(connection: SubmitterConnection, signature: string, tx: Transaction, lastValidBlockHeight: number, start: number, rebroadcast?: () => Promise<unknown>): Promise<void> {
+  let broadcastAt = Date.now();
+  for (;;) {
+    const status = await getSignatureStatus(connection, signature, false);
+    if (status?.err) throw await programError(connection, signature, status.err);
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      console.log(`Transaction confirmed: ${getExplorerUrl('tx', signature)} (${Date.now() - start}ms)`);
+      return;
+    }
+    if (!status && (await hasExpired(connection, tx, lastValidBlockHeight)) && !(await getSignatureStatus(connection, signature, true))) {
+      const durable = getDurableNonce(tx);
+      throw sendError('expired', durable ? `Transaction ${signature} did not land before nonce ${durable.nonceAccount.toBase58()} advanced` : `Transaction ${signature} did not land by block height ${lastValidBlockHeight}`, { signature });
+    }
+    if (!status && rebroadcast && Date.now() - broadcastAt >= REBROADCAST_MS) {
+      broadcastAt = Date.now();
+      recordSendRetry('rebroadcast');
+      await rebroadcast().catch((e) => console.warn(`⚠️  Rebroadcast of ${signature} failed: ${e.message}`));
+    }
+    await new Promise((resolve) => setTimeout(resolve, CONFIRM_POLL_MS));
+  }
+}
+
+// Looks for an expired build on chain. A relayer that failed may still have broadcast it without returning the
+// signature; the build is then found by a local signer's signature among that signer's recent transactions.
+async function findLandedBuild(connection: SubmitterConnection, wire: WireTransaction, signature?: string): Promise<{ signature: string; err: TransactionError | null } | null> {
+  const [feePayer, ...signers] = getWireSignatures(wire);
+  const known = signature ?? (feePayer.signature ? bs58.encode(feePayer.signature) : undefined);
+  if (known) {
+    const status = await getSignatureStatus(connection, known, true);
+    return status ? { signature: known, err: status.err } : null;
+  }
+  const own = signers.find((s) => s.signature);
+  if (!own) throw sendError('relayer', 'The relayer returned no signature and no other signer is local, so whether the transaction landed cannot be checked; not rebuilding it.');
+  const ours = bs58.encode(own.signature!);
+  const recent = await connection.getSignaturesForAddress(own.publicKey, { limit: 25 }, 'confirmed');
+  const found = await connection.getTransactions(recent.map((r) => r.signature), { maxSupportedTransactionVersion: 0, commitment: 'confirmed' });
+  const index = found.findIndex((t) => t?.transaction.signatures.includes(ours));
+  return index === -1 ? null : { signature: recent[index].signature, err: recent[index].err };
+}
+
+// POSTs a body to a relayer, retrying with exponential backoff, and returns the parsed response once it reports success.
+async function postToRelayer(fetchImpl: FetchLike, relayerUrl: string, body: object, apiKey?: string, attempts = RELAYER_ATTEMPTS): Promise<RelayerReply> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await fetchImpl(relayerUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      });
+      const j = await res.json();
+      if (!isJsonObject(j)) throw new Error(`unexpected reply ${JSON.stringify(j)}`);
+      if (!j.success) throw new Error(typeof j.error === 'string' && j.error ? j.error : 'no error message');
+      return j as unknown as RelayerReply;
+    } catch (e) {
+      if (attempt >= attempts) throw sendError('relayer', `Relayer failed after ${attempts} attempt(s): ${errorMessage(e)}`);
+      recordSendRetry('relayer');
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+async function sendSignedViaRelayer(connection: SubmitterConnection, relayerUrl: string, tx: Transaction, lastValidBlockHeight: number, apiKey: string | undefined, hooks: SendHooks, fetchImpl: FetchLike, batch: boolean): Promise<string> {
+  const start = Date.now();
+  const b64 = tx.serialize({ requireAllSignatures: false }).toString('base64');
+  hooks.onSigned?.(b64, tx.recentBlockhash!, lastValidBlockHeight);
+  const body = batch ? { signedTransactionsBase64: [b64] } : { signedTransactionBase64: b64 };
+  const j = await postToRelayer(fetchImpl, relayerUrl, body, apiKey);
+  const signature = batch ? j.txSignatures?.[0] : j.txSignature;
+  if (typeof signature !== 'string' || !signature) throw sendError('relayer', `Relayer replied without a signature: ${JSON.stringify(j)}`);
+  hooks.onSent?.(signature);
+  await trackConfirmation(connection, signature, tx, lastValidBlockHeight, start, () => postToRelayer(fetchImpl, relayerUrl, body, apiKey, 1));
+  hooks.onConfirmed?.(signature);
+  return signature;
+}
+
+// Sends until the transaction confirms, rebroadcasting while a build is valid and rebuilding it with a fresh blockhash
+// and a higher priority fee once it has expired, with backoff. A build that failed for any other reason is waited out
+// first. Every expired build is looked up on chain before rebuilding, so a step never executes twice. Durable-nonce
+// transactions are not rebuilt.
+async function sendWithEscalation(connection: SubmitterConnection, feePayer: PublicKey, tx: Transaction, signers: TransactionSigner[], hooks: SendHooks, submit: (wire: WireTransaction) => Promise<string>, rebroadcast: (wire: WireTransaction) => Promise<unknown> = submit): Promise<string> {
+  const { attempts } = getPriorityFeeConfig();
+  for (let attempt = 1; ; attempt++) {
+    const start = Date.now();
+    const { blockhash, lastValidBlockHeight, wire } = await prepareTransaction(connection, feePayer, tx, signers, attempt);
+    hooks.onSigned?.(serializeWire(wire).toString('base64'), blockhash, lastValidBlockHeight);
+    let signature: string | undefined;
+    try {
+      signature = await submit(wire);
+      hooks.onSent?.(signature);
+      await trackConfirmation(connection, signature, tx, lastValidBlockHeight, start, () => rebroadcast(wire));
+      hooks.onConfirmed?.(signature);
+      return signature;
+    } catch (e) {
+      const error = classifySendError(e);
+      if (attempt >= attempts || !isRetryable(error) || getDurableNonce(tx)) throw error;
+      if (error.kind !== 'expired') {
+        console.log(`   Send failed (${error.kind}: ${error.message}); waiting for blockhash ${blockhash} to expire before rebuilding...`);
+        while (!(await hasExpired(connection, tx, lastValidBlockHeight))) await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
+      const landed = await findLandedBuild(connection, wire, signature);
+      if (landed?.err) throw await programError(connection, landed.signature, landed.err);
+      if (landed) {
+        console.log(`   The failed send landed after all: ${getExplorerUrl('tx', landed.signature)}`);
+        hooks.onSent?.(landed.signature);
+        hooks.onConfirmed?.(landed.signature);
+        return landed.signature;
+      }
+      const backoff = 1000 * 2 ** (attempt - 1);
+      recordSendRetry('rebuild');
+      console.log(`🔁 Rebuilding with a higher priority fee in ${backoff}ms (build ${attempt + 1}/${attempts})...`);
+      await new Promise((resolve) => setTimeout(resolve, backoff));
+    }
+  }
+}
+
+async function sendViaRelayer(connection: SubmitterConnection, relayerPubkey: PublicKey, relayerUrl: string, tx: Transaction, signers: TransactionSigner[], apiKey?: string, hooks: SendHooks = {}, fetchImpl: FetchLike = fetch): Promise<string> {
+  const post = (wire: WireTransaction, attempts?: number) => postToRelayer(fetchImpl, relayerUrl, { signedTransactionBase64: serializeWire(wire).toString('base64') }, apiKey, attempts);
+  const submit = async (built: WireTransaction) => {
+    const j = await post(built);
+    if (typeof j.txSignature !== 'string' || !j.txSignature) throw sendError('relayer', `Relayer replied without a signature: ${JSON.stringify(j)}`);
+    return j.txSignature;
+  };
+  return sendWithEscalation(connection, relayerPubkey, tx, signers, hooks, submit, (built) => post(built, 1));
+}
+
+// Relayer contract: { signedTransactionBase64 } -> { success, txSignature, error? }; the relayer signs as fee payer.
+function createRelayerSubmitter(connection: SubmitterConnection, relayerPubkey: PublicKey, relayerUrl: string, apiKey?: string, fetchImpl: FetchLike = fetch): Submitter {
+  return {
+    name: 'relayer',
+    feePayer: relayerPubkey,
+    async send(txs, signers, hooks) {
+      const signatures: string[] = [];
+      for (let i = 0; i < txs.length; i++) {
+        signatures.push(await sendViaRelayer(connection, relayerPubkey, relayerUrl, txs[i], signers[i], apiKey, hooks[i], fetchImpl));
+      }
+      return signatures;
+    },
+    sendSigned(tx, lastValidBlockHeight, hooks) {
+      return sendSignedViaRelayer(connection, relayerUrl, tx, lastValidBlockHeight, apiKey, hooks, fetchImpl, false);
+    },
+  };
+}
+
+// Batch relayer contract: { signedTransactionsBase64: [] } -> { success, txSignatures: [], error? }, in request order.
+// The batch is built once; a failed batch is settled by reconcileJournal rather than rebuilt here.
+function createBatchRelayerSubmitter(connection: SubmitterConnection, relayerPubkey: PublicKey, relayerUrl: string, apiKey?: string, fetchImpl: FetchLike = fetch): Submitter {
+  return {
+    name: 'batch-relayer',
+    feePayer: relayerPubkey,
+    async send(txs, signers, hooks) {
+      const start = Date.now();
+      const prepared: { b64: string; blockhash: string; lastValidBlockHeight: number }[] = [];
+      for (let i = 0; i < txs.length; i++) {
+        const { blockhash, lastValidBlockHeight, wire } = await prepareTransaction(connection, relayerPubkey, txs[i], signers[i]);
+        const b64 = serializeWire(wire).toString('base64');
+        hooks[i].onSigned?.(b64, blockhash, lastValidBlockHeight);
+        prepared.push({ b64, blockhash, lastValidBlockHeight });
+      }
+
+      const j = await postToRelayer(fetchImpl, relayerUrl, { signedTransactionsBase64: prepared.map((p) => p.b64) }, apiKey);
+      if (!Array.isArray(j.txSignatures) || j.txSignatures.length !== txs.length) {
+        throw sendError('relayer', `Batch relayer returned ${j.txSignatures?.length ?? 0} signatures for ${txs.length} transactions`);
+      }
+      j.txSignatures.forEach((signature: string, i: number) => hooks[i].onSent?.(signature));
+      for (let i = 0; i < txs.length; i++) {
+        const resend = () => postToRelayer(fetchImpl, relayerUrl, { signedTransactionsBase64: [prepared[i].b64] }, apiKey, 1);
+        await trackConfirmation(connection, j.txSignatures[i], txs[i], prepared[i].lastValidBlockHeight, start, resend);
+        hooks[i].onConfirmed?.(j.txSignatures[i]);
+      }
+      return j.txSignatures;
+    },
+    sendSigned(tx, lastValidBlockHeight, hooks) {
+      return sendSignedViaRelayer(connection, relayerUrl, tx, lastValidBlockHeight, apiKey, hooks, fetchImpl, true);
+    },
+  };
+}
+
+// Sends straight to the RPC, paying fees from a local keypair.
+function createRpcSubmitter(connection: SubmitterConnection, feePayer: Keypair): Submitter {
+  return {
+    name: 'rpc',
+    feePayer: feePayer.publicKey,
+    async send(txs, signers, hooks) {
+      const signatures: string[] = [];
+      for (let i = 0; i < txs.length; i++) {
+        signatures.push(await sendWithEscalation(connection, feePayer.publicKey, txs[i], [feePayer, ...signers[i]], hooks[i],
+          (wire) => connection.sendRawTransaction(serializeWire(wire), { preflightCommitment: 'confirmed' }),
+          (wire) => connection.sendRawTransaction(serializeWire(wire), { skipPreflight: true, maxRetries: 0 })));
+      }
+      return signatures;
+    },
+    async sendSigned(tx, lastValidBlockHeight, hooks) {
+      const start = Date.now();
+      tx.partialSign(feePayer);
+      const raw = tx.serialize();
+      hooks.onSigned?.(raw.toString('base64'), tx.recentBlockhash!, lastValidBlockHeight);
+      const signature = await connection.sendRawTransaction(raw, { preflightCommitment: 'confirmed' });
+      hooks.onSent?.(signature);
+      await trackConfirmation(connection, signature, tx, lastValidBlockHeight, start, () => connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }));
+      hooks.onConfirmed?.(signature);
+      return signature;
+    },
+  };
+}
+
+// Simulates each transaction for compute, fees and account changes, then executes it on the dry-run validator
+// so later steps see its effects. Fees come from an ephemeral, airdropped fee payer.
+function createDryRunSubmitter(connection: SimulationConnection): Submitter {
+  const feePayer = Keypair.generate();
+  let funded = false;
+  return {
+    name: 'dry-run',
+    feePayer: feePayer.publicKey,
+    async send(txs, signers, hooks) {
+      if (!funded) {
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+        const airdrop = await connection.requestAirdrop(feePayer.publicKey, 100 * LAMPORTS_PER_SOL);
+        await connection.confirmTransaction({ signature: airdrop, blockhash, lastValidBlockHeight }, 'confirmed');
+        funded = true;
+      }
+
+      const signatures: string[] = [];
+      for (let i = 0; i < txs.length; i++) {
+        const start = Date.now();
+        const tx = txs[i];
+        const { blockhash, lastValidBlockHeight, wire } = await prepareTransaction(connection, feePayer.publicKey, tx, [feePayer, ...signers[i]]);
+        if (wire !== tx) throw new Error('Dry runs simulate legacy transactions only; this one needs the lookup table.');
+        const message = tx.compileMessage();
+        const writable = message.accountKeys.filter((_, index) => message.isAccountWritable(index));
+        const before = await connection.getMultipleAccountsInfo(writable, 'confirmed');
+        const { value } = await connection.simulateTransaction(tx, undefined, writable);
+        const fee = (await connection.getFeeForMessage(message, 'confirmed')).value ?? 0;
+
+        const accounts: AccountDiff[] = [];
+        writable.forEach((address, index) => {
+          const pre = before[index];
+          const post = value.accounts?.[index] ?? null;
+          const dataLenAfter = post ? Buffer.from(post.data[0], 'base64').length : 0;
+          if (!pre && !post) return;
+          if (pre && post && pre.lamports === post.lamports && pre.data.length === dataLenAfter) return;
+          accounts.push({
+            address: address.toBase58(),
+            change: !pre ? 'created' : !post || post.lamports === 0 ? 'closed' : 'modified',
+            owner: post ? post.owner : pre!.owner.toBase58(),
+            lamportsBefore: pre ? pre.lamports : 0,
+            lamportsAfter: post ? post.lamports : 0,
+            dataLenBefore: pre ? pre.data.length : 0,
+            dataLenAfter,
+          });
+        });
+        const rent = accounts.filter((a) => a.change === 'created').reduce((sum, a) => sum + a.lamportsAfter, 0);
+        const summary: SimulationSummary = { computeUnits: value.unitsConsumed ?? 0, fee, rent, logs: value.logs ?? [], accounts };
+        if (value.err) summary.error = JSON.stringify(value.err);
+        hooks[i].onSimulated?.(summary);
+        if (value.err) throw sendError('simulation', `Simulation failed: ${summary.error}\n${summary.logs.join('\n')}`, { logs: summary.logs });
+
+        const raw = tx.serialize();
+        hooks[i].onSigned?.(raw.toString('base64'), blockhash, lastValidBlockHeight);
+        const signature = await connection.sendRawTransaction(raw, { preflightCommitment: 'confirmed' });
+        hooks[i].onSent?.(signature);
+        await trackConfirmation(connection, signature, tx, lastValidBlockHeight, start);
+        hooks[i].onConfirmed?.(signature);
+        signatures.push(signature);
+      }
+      return signatures;
+    },
+    async sendSigned() {
+      throw new Error('Transactions signed offline cannot be dry-run: their fee payer is fixed to the live submitter.');
+    },
+  };
+}
+
+// SUBMITTER overrides the manifest's submitter.type, so one manifest can be deployed through different backends.
+function createSubmitter(manifest: TokenManifest, connection: Connection): Submitter {
+  if (process.env.DRY_RUN === 'true') return createDryRunSubmitter(connection);
+
+  const profile = getClusterProfile();
+  const config: SubmitterConfig = { type: 'relayer', ...manifest.submitter };
+  if (profile.submitter) config.type = profile.submitter as SubmitterConfig['type'];
+
+  if (config.type === 'rpc') {
+    const keypairPath = config.feePayerKeypair || profile.feePayerKeypair;
+    if (!keypairPath) throw new Error(`Missing FEE_PAYER_KEYPAIR for ${profile.name} (required by the rpc submitter)`);
+    return createRpcSubmitter(connection, loadKeypairFile(keypairPath));
+  }
+  if (config.type !== 'relayer' && config.type !== 'batch-relayer') throw new Error(`Unknown submitter: ${config.type}`);
+
+  // A relayer URL in the manifest is only used on mainnet; other clusters have their own relayer in .env.<cluster>.
+  const relayerUrl = (profile.name === 'mainnet' && config.url) || profile.relayerUrl;
+  if (!relayerUrl) throw new Error(`Missing RELAYER_URL for ${profile.name} (required by the ${config.type} submitter)`);
+  if (!profile.relayerPubkey) throw new Error(`Missing RELAYER_PUBKEY for ${profile.name} (required by the ${config.type} submitter)`);
+  const relayerPubkey = new PublicKey(profile.relayerPubkey);
+  return config.type === 'relayer'
+    ? createRelayerSubmitter(connection, relayerPubkey, relayerUrl, profile.relayerApiKey)
+    : createBatchRelayerSubmitter(connection, relayerPubkey, relayerUrl, profile.relayerApiKey);
+}
+
+// Journals each transaction (intent, signed bytes, signature, confirmation) around a single submitter call.
+function journalHooks(journal: DeploymentJournal, entry: JournalEntry, send: Omit<PendingSend, 'tx' | 'signers'>): SendHooks {
+  let signedAt: number | undefined;
+  return {
+    onSigned: (transaction, blockhash, lastValidBlockHeight) => {
+      signedAt = signedAt ?? Date.now();
+      updateJournalEntry(journal, entry, { status: 'signed', transaction, blockhash, lastValidBlockHeight });
+    },
+    onSent: (signature) => updateJournalEntry(journal, entry, { status: 'sent', signature }),
+    onConfirmed: (signature) => {
+      updateJournalEntry(journal, entry, { status: 'confirmed', signature });
+      recordConfirmedTransaction(send.step, signedAt ?? Date.now(), entry.transaction);
+      send.onConfirmed?.(signature);
+    },
+    onSimulated: (simulation) => {
+      const report = loadDryRunReport();
+      report.steps.push({ step: send.step, intent: send.intent, ...simulation });
+      if (send.extra?.mint) report.mint = send.extra.mint;
+      saveDryRunReport(report);
+    },
+  };
+}
+
+// Runs a submission with one journal entry per transaction, settling entries that never reached the submitter on failure.
+async function withJournal<T>(sends: Omit<PendingSend, 'tx' | 'signers'>[], submit: (hooks: SendHooks[]) => Promise<T>): Promise<T> {
+  const journal = loadJournal();
+  const entries = sends.map((send) => {
+    const now = new Date().toISOString();
+    const entry: JournalEntry = { id: journal.entries.length + 1, step: send.step, intent: send.intent, status: 'intent', createdAt: now, updatedAt: now, ...send.extra };
+    journal.entries.push(entry);
+    return entry;
+  });
+  saveJournal(journal);
+
+  try {
+    return await submit(sends.map((send, i) => journalHooks(journal, entries[i], send)));
+  } catch (e) {
+    // A send that failed after reaching the submitter may still land; leave it for reconcileJournal to settle.
+    const failure = { error: errorMessage(e), errorKind: isSendError(e) ? e.kind : undefined };
+    for (const entry of entries) {
+      if (entry.status === 'confirmed') continue;
+      incrementMetric('grok_transactions_total', 'Transactions by journal step and outcome.', { step: entry.step, outcome: entry.status === 'intent' ? 'failed' : 'unsettled' });
+      if (entry.status === 'intent') updateJournalEntry(journal, entry, { status: 'failed', ...failure });
+      else updateJournalEntry(journal, entry, failure);
+    }
+    throw e;
+  }
+}
+
+// Submits the sends, or exports them for offline signing when a signer's secret key is not on this machine.
+async function journaledSendAll(connection: Connection, submitter: Submitter, sends: PendingSend[], durableNonce = useDurableNonces(loadManifest())): Promise<string[]> {
+  if (durableNonce) await attachDurableNonces(connection, submitter, sends);
+  if (sends.some((send) => send.signers.some((signer) => !isTransactionSigner(signer)))) {
+    await requireNoPendingExport(connection, sends);
+    const bundlePath = await exportOfflineBundle(connection, submitter, sends);
+    throw cliError(`Exported ${sends.length} transaction(s) for offline signing to ${bundlePath}. Sign with \`sign ${bundlePath}\` on the signing machine, then run \`import ${bundlePath}\` before the blockhash expires.`, EXIT_CODES.awaitingSignatures);
+  }
+  return withJournal(sends, (hooks) => submitter.send(sends.map((s) => s.tx), sends.map((s) => s.signers as TransactionSigner[]), hooks));
+}
+
+async function journaledSend(connection: Connection, submitter: Submitter, tx: Transaction, signers: AuthorityKey[], step: string, intent: string, extra: Partial<JournalEntry> = {}): Promise<string> {
+  return (await journaledSendAll(connection, submitter, [{ tx, signers, step, intent, extra }]))[0];
+}
+
+// Durable Nonces
+function useDurableNonces(manifest: TokenManifest): boolean {
+  return process.env.DRY_RUN !== 'true' && (manifest.durableNonce ?? isOfflineSigning());
+}
+
+// nonces.json, settled from the journal: every confirmed create-nonce and close-nonce transaction is applied to it, so
+// one imported from an offline bundle, whose onConfirmed ran in no process, still lands in the records.
+function loadNonceAccounts(): NonceAccountRecord[] {
+  const noncePath = path.join(getCacheDir(), 'nonces.json');
+  const saved: NonceAccountRecord[] = fs.existsSync(noncePath) ? JSON.parse(fs.readFileSync(noncePath, 'utf-8')) : [];
+  let records = saved;
+  for (const entry of loadJournal().entries) {
+    if (entry.status !== 'confirmed' || !entry.transaction || (entry.step !== 'create-nonce' && entry.step !== 'close-nonce')) continue;
+    for (const ix of Transaction.from(Buffer.from(entry.transaction, 'base64')).instructions) {
+      if (!ix.programId.equals(SystemProgram.programId)) continue;
+      const type = SystemInstruction.decodeInstructionType(ix);
+      if (type === 'InitializeNonceAccount') {
+        const { noncePubkey, authorizedPubkey } = SystemInstruction.decodeNonceInitialize(ix);
+        const address = noncePubkey.toBase58();
+        if (!records.some((record) => record.address === address)) records = [...records, { address, authority: authorizedPubkey.toBase58(), createdAt: entry.updatedAt }];
+      } else if (type === 'WithdrawNonceAccount') {
+        const address = SystemInstruction.decodeNonceWithdraw(ix).noncePubkey.toBase58();
+        records = records.filter((record) => record.address !== address);
+      }
+    }
+  }
+  if (records !== saved) saveNonceAccounts(records);
+  return records;
+}
+
+function saveNonceAccounts(records: NonceAccountRecord[]): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'nonces.json'), JSON.stringify(records, null, 2));
+}
+
+function getDurableNonce(tx: Transaction): { nonceAccount: PublicKey; nonce: string } | null {
+  const first = tx.instructions[0];
+  if (!first || !first.programId.equals(SystemProgram.programId)) return null;
+  try {
+    if (SystemInstruction.decodeInstructionType(first) !== 'AdvanceNonceAccount') return null;
+  } catch {
+    return null;
+  }
+  return { nonceAccount: first.keys[0].pubkey, nonce: tx.recentBlockhash! };
+}
+
+// Nonce accounts held by a journal entry that may still land, mapped to that entry's id.
+function getReservedNonces(journal: DeploymentJournal): Map<string, number> {
+  const reserved = new Map<string, number>();
+  for (const entry of journal.entries) {
+    if (entry.nonceAccount && ['intent', 'exported', 'signed', 'sent'].includes(entry.status)) reserved.set(entry.nonceAccount, entry.id);
+  }
+  return reserved;
+}
+
+// Nonce accounts are authorized to USER_AUTH and funded by the fee payer, like the mint itself.
+async function createNonceAccounts(connection: Connection, submitter: Submitter, authority: PublicKey, count: number): Promise<PublicKey[]> {
+  const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+  const keypairs = Array.from({ length: count }, () => Keypair.generate());
+  const groups = keypairs.map((keypair) => SystemProgram.createNonceAccount({ fromPubkey: submitter.feePayer, noncePubkey: keypair.publicKey, authorizedPubkey: authority, lamports }).instructions);
+  const sends = packInstructions(submitter.feePayer, authority, groups).map((tx) => {
+    const created = keypairs.filter((keypair) => tx.instructions.some((ix) => ix.keys.some((key) => key.pubkey.equals(keypair.publicKey))));
+    return {
+      tx,
+      signers: created,
+      step: 'create-nonce',
+      intent: `Create ${created.length} durable nonce account(s)`,
+      onConfirmed: () => loadNonceAccounts(),
+    };
+  });
+  await journaledSendAll(connection, submitter, sends, false);
+  console.log(`Created ${count} durable nonce account(s) authorized to ${authority.toBase58()}`);
+  return keypairs.map((keypair) => keypair.publicKey);
+}
+
+async function ensureNonceAccounts(connection: Connection, submitter: Submitter, authority: PublicKey, count: number): Promise<PublicKey[]> {
+  const reserved = getReservedNonces(loadJournal());
+  const free = loadNonceAccounts()
+    .filter((record) => record.authority === authority.toBase58() && !reserved.has(record.address))
+    .map((record) => new PublicKey(record.address));
+  if (free.length >= count) return free.slice(0, count);
+  return [...free, ...(await createNonceAccounts(connection, submitter, authority, count - free.length))];
+}
+
+// Prepends nonceAdvance to each transaction, each on its own nonce account, so none of them expires while it waits
+// for signatures, approvals or a relayer queue. USER_AUTH, the nonce authority, joins the signers.
+async function attachDurableNonces(connection: Connection, submitter: Submitter, sends: PendingSend[]): Promise<void> {
+  const authority = loadOrCreateUserAuth();
+  const nonceAccounts = await ensureNonceAccounts(connection, submitter, authority.publicKey, sends.length);
+  for (let i = 0; i < sends.length; i++) {
+    const nonce = await connection.getNonce(nonceAccounts[i], 'confirmed');
+    if (!nonce) throw new Error(`Nonce account ${nonceAccounts[i].toBase58()} not found.`);
+    const { tx, signers } = sends[i];
+    tx.instructions.unshift(SystemProgram.nonceAdvance({ noncePubkey: nonceAccounts[i], authorizedPubkey: authority.publicKey }));
+    tx.recentBlockhash = nonce.nonce;
+    if (!signers.some((signer) => signer.publicKey.equals(authority.publicKey))) signers.push(authority);
+    sends[i].extra = { ...sends[i].extra, nonceAccount: nonceAccounts[i].toBase58() };
+  }
+}
+
+// Advancing the nonce invalidates any transaction still built on it, so a send of unknown outcome settles without waiting.
+async function advanceNonce(connection: Connection, nonceAccount: PublicKey): Promise<void> {
+  const submitter = createSubmitter(loadManifest(), connection);
+  const userAuth = loadOrCreateUserAuth();
+  const tx = new Transaction().add(SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: userAuth.publicKey }));
+  await journaledSendAll(connection, submitter, [{ tx, signers: [userAuth], step: 'advance-nonce', intent: `Advance nonce ${nonceAccount.toBase58()}` }], false);
+}
+
+// Withdraws the rent of every free nonce account back to the fee payer, which closes it.
+async function closeNonceAccounts(connection: Connection): Promise<void> {
+  const submitter = createSubmitter(loadManifest(), connection);
+  const userAuth = loadOrCreateUserAuth();
+  const reserved = getReservedNonces(loadJournal());
+  const closable = loadNonceAccounts().filter((record) => record.authority === userAuth.publicKey.toBase58() && !reserved.has(record.address));
+  if (closable.length === 0) {
+    console.log('No free nonce accounts to close.');
+    return;
+  }
+
+  const groups: TransactionInstruction[][] = [];
+  for (const record of closable) {
+    const noncePubkey = new PublicKey(record.address);
+    const lamports = await connection.getBalance(noncePubkey, 'confirmed');
+    if (lamports > 0) groups.push([SystemProgram.nonceWithdraw({ noncePubkey, authorizedPubkey: userAuth.publicKey, toPubkey: submitter.feePayer, lamports })]);
+  }
+  const sends = packInstructions(submitter.feePayer, userAuth.publicKey, groups).map((tx) => {
+    const closed = tx.instructions.map((ix) => ix.keys[0].pubkey.toBase58());
+    return {
+      tx,
+      signers: [userAuth],
+      step: 'close-nonce',
+      intent: `Close ${closed.length} durable nonce account(s)`,
+      onConfirmed: () => loadNonceAccounts(),
+    };
+  });
+  await journaledSendAll(connection, submitter, sends, false);
+  console.log(`Closed ${closable.length} durable nonce account(s); rent returned to ${submitter.feePayer.toBase58()}`);
+}
+
+async function printNonceStatus(connection: Connection): Promise<void> {
+  const records = loadNonceAccounts();
+  if (records.length === 0) return;
+  const reserved = getReservedNonces(loadJournal());
+  console.log(`✅ Durable nonces: ${records.length} account(s)`);
+  for (const record of records) {
+    const nonce = await connection.getNonce(new PublicKey(record.address), 'confirmed').catch(() => null);
+    const holder = reserved.get(record.address);
+    const state = nonce ? `nonce ${nonce.nonce}, authority ${nonce.authorizedPubkey.toBase58()}` : 'not found';
+    console.log(`   ${record.address}: ${state}, ${holder ? `held by entry #${holder}` : 'free'}`);
+  }
+}
+
+async function manageNonceAccounts(): Promise<void> {
+  const connection = getConnection();
+  console.log('\n🔢 Durable Nonces:');
+  console.log('1. Show nonce accounts');
+  console.log('2. Create nonce accounts');
+  console.log('3. Advance a nonce (cancels any transaction built on it)');
+  console.log('4. Close free nonce accounts');
+  const choice = await askQuestion('Select an action (1-4): ');
+
+  switch (choice) {
+    case '1':
+      await printNonceStatus(connection);
+      break;
+    case '2': {
+      const count = Number(await askQuestion('How many: '));
+      if (!Number.isInteger(count) || count < 1) throw new Error('Count must be a positive integer.');
+      await createNonceAccounts(connection, createSubmitter(loadManifest(), connection), loadOrCreateUserAuth().publicKey, count);
+      break;
+    }
+    case '3':
+      await advanceNonce(connection, new PublicKey(await askQuestion('Nonce account: ')));
+      break;
+    case '4':
+      await closeNonceAccounts(connection);
+      break;
+    default:
+      console.log('❌ Invalid choice.');
+  }
+}
+
+// Lookup Tables
+function getLookupTablePath(): string {
+  return path.join(getCacheDir(), 'lookup-table.json');
+}
+
+function loadLookupTableRecord(): LookupTableRecord | null {
+  return fs.existsSync(getLookupTablePath()) ? JSON.parse(fs.readFileSync(getLookupTablePath(), 'utf-8')) : null;
+}
+
+// The deployment lookup table as the v0 compiler takes it. Offline bundles carry legacy messages, so none is used then.
+async function loadLookupTables(connection: Pick<Connection, 'getAddressLookupTable'>): Promise<AddressLookupTableAccount[]> {
+  const record = loadLookupTableRecord();
+  if (!record || isOfflineSigning()) return [];
+  const { value } = await connection.getAddressLookupTable(new PublicKey(record.address));
+  return value ? [value] : [];
+}
+
+// The accounts the deployment's transactions keep touching: programs, treasury, recipients and, once the mint
+// exists, the mint, its metadata and every token account the steps write.
+function getDeploymentAddresses(manifest: TokenManifest): PublicKey[] {
+  const owners = [new PublicKey(manifest.treasury), ...resolveAllocations(manifest).map((a) => a.address)];
+  const addresses = [TOKEN_2022_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID, SystemProgram.programId, ComputeBudgetProgram.programId, ...owners];
+  if (manifest.authority.mode === 'dao' && manifest.authority.dao && manifest.authority.multisig) {
+    addresses.push(multisig.PROGRAM_ID, new PublicKey(manifest.authority.multisig), new PublicKey(manifest.authority.dao));
+  }
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  if (fs.existsSync(mintCachePath)) {
+    const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+    addresses.push(mint, ...owners.map((owner) => findAssociatedTokenAddress(owner, mint)));
+    if (!manifest.extensions.metadataPointer) addresses.push(findMetadataPda(mint));
+  }
+  return addresses;
+}
+
+// Creates the deployment's lookup table with USER_AUTH as its authority, then fills it with the deployment addresses.
+async function createLookupTable(): Promise<PublicKey> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+
+  const existing = loadLookupTableRecord();
+  if (existing && (await connection.getAccountInfo(new PublicKey(existing.address)))) {
+    console.log(`✅ Lookup table already created: ${existing.address}`);
+    return new PublicKey(existing.address);
+  }
+  const recentSlot = await connection.getSlot('finalized');
+  const [instruction, address] = AddressLookupTableProgram.createLookupTable({ authority: userAuth.publicKey, payer: submitter.feePayer, recentSlot });
+  // Recorded before sending, as the mint is, so an interrupted create never loses track of the table.
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(getLookupTablePath(), JSON.stringify({ address: address.toBase58(), createdAt: new Date().toISOString() }, null, 2));
+  await journaledSend(connection, submitter, new Transaction().add(instruction), [userAuth], 'lookup-table', `Create lookup table ${address.toBase58()}`);
+  console.log(`✅ Lookup table created: ${getExplorerUrl('address', address.toBase58())}`);
+  await extendLookupTable();
+  return address;
+}
+
+// Adds the deployment addresses, then as many of the extra ones as fit, that the table lacks, then waits a slot:
+// entries are only usable after the slot they were added in.
+async function extendLookupTable(extra: PublicKey[] = []): Promise<number> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+
+  const record = loadLookupTableRecord();
+  if (!record) throw new Error('No lookup table for this deployment. Run `lookup-table create` first.');
+  const address = new PublicKey(record.address);
+  const { value: table } = await connection.getAddressLookupTable(address);
+  if (!table) throw new Error(`Lookup table ${record.address} not found.`);
+  if (!table.state.authority) throw new Error(`Lookup table ${record.address} is frozen and cannot be extended.`);
+
+  const present = new Set(table.state.addresses.map((a) => a.toBase58()));
+  const missing: PublicKey[] = [];
+  for (const candidate of [...getDeploymentAddresses(manifest), ...extra]) {
+    if (present.has(candidate.toBase58())) continue;
+    present.add(candidate.toBase58());
+    missing.push(candidate);
+  }
+  const room = LOOKUP_TABLE_MAX_ADDRESSES - table.state.addresses.length;
+  if (missing.length > room) console.warn(`⚠️  The lookup table has room for ${room} more address(es); ${missing.length - room} stay static.`);
+  const added = missing.slice(0, room);
+  if (!added.length) {
+    console.log(`✅ Lookup table ${record.address} already holds every address (${table.state.addresses.length}).`);
+    return 0;
+  }
+
+  const sends: PendingSend[] = [];
+  for (let i = 0; i < added.length; i += LOOKUP_TABLE_EXTEND_CHUNK) {
+    const addresses = added.slice(i, i + LOOKUP_TABLE_EXTEND_CHUNK);
+    const tx = new Transaction().add(AddressLookupTableProgram.extendLookupTable({ payer: submitter.feePayer, authority: userAuth.publicKey, lookupTable: address, addresses }));
+    sends.push({ tx, signers: [userAuth], step: 'lookup-table', intent: `Add ${addresses.length} address(es) to lookup table ${record.address}` });
+  }
+  await journaledSendAll(connection, submitter, sends);
+  const slot = await connection.getSlot('confirmed');
+  while ((await connection.getSlot('confirmed')) <= slot) await new Promise((resolve) => setTimeout(resolve, 400));
+  console.log(`✅ Added ${added.length} address(es) to lookup table ${record.address} (${table.state.addresses.length + added.length} in total)`);
+  return added.length;
+}
+
+// Freezing drops the authority for good: the table can then never be extended, deactivated or closed.
+async function freezeLookupTable(): Promise<void> {
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const record = loadLookupTableRecord();
+  if (!record) throw new Error('No lookup table for this deployment. Run `lookup-table create` first.');
+  const { value: table } = await connection.getAddressLookupTable(new PublicKey(record.address));
+  if (!table) throw new Error(`Lookup table ${record.address} not found.`);
+  if (!table.state.authority) {
+    console.log(`✅ Lookup table ${record.address} is already frozen.`);
+    return;
+  }
+  if (!(await confirmAction(`Freeze lookup table ${record.address} with ${table.state.addresses.length} addresses? It can never be extended or closed afterwards.`))) {
+    throw cliError('Freeze cancelled.', EXIT_CODES.notConfirmed);
+  }
+  const tx = new Transaction().add(AddressLookupTableProgram.freezeLookupTable({ lookupTable: new PublicKey(record.address), authority: userAuth.publicKey }));
+  const signature = await journaledSend(connection, createSubmitter(loadManifest(), connection), tx, [userAuth], 'lookup-table', `Freeze lookup table ${record.address}`);
+  console.log(`✅ Lookup table ${record.address} frozen.`);
+  await emitEvent('irreversible', { action: 'freeze-lookup-table', lookupTable: record.address, signature });
+}
+
+async function printLookupTable(): Promise<Record<string, unknown>> {
+  const record = loadLookupTableRecord();
+  if (!record) {
+    console.log('❌ No lookup table for this deployment. Run `lookup-table create` to create one.');
+    return { address: null };
+  }
+  const { value: table } = await getConnection().getAddressLookupTable(new PublicKey(record.address));
+  if (!table) {
+    console.log(`❌ Lookup table ${record.address} not found on ${getClusterName()}.`);
+    return { address: record.address, found: false };
+  }
+  const authority = table.state.authority ? table.state.authority.toBase58() : null;
+  console.log(`\n📇 Lookup table ${record.address}: ${table.state.addresses.length}/${LOOKUP_TABLE_MAX_ADDRESSES} addresses, ${authority ? `authority ${authority}` : 'frozen'}`);
+  console.log(`   Explorer: ${getExplorerUrl('address', record.address)}`);
+  return { address: record.address, found: true, addresses: table.state.addresses.map((a) => a.toBase58()), authority, frozen: !authority };
+}
+
+// Offline Signing
+// A step exported earlier must be imported or expire before it is exported again, or both bundles could land.
+async function requireNoPendingExport(connection: Connection, sends: PendingSend[]): Promise<void> {
+  const journal = loadJournal();
+  const steps = new Set(sends.map((send) => send.step));
+  const exported = journal.entries.filter((e) => e.status === 'exported' && steps.has(e.step));
+  for (const entry of exported) {
+    if (await isEntryExpired(connection, entry)) {
+      updateJournalEntry(journal, entry, { status: 'expired' });
+      continue;
+    }
+    throw new Error(`Entry #${entry.id} (${entry.step}) is already exported to ${entry.bundle}. Import it, or wait for its blockhash to expire, before exporting again.`);
+  }
+}
+
+function loadOfflineBundle(filePath: string): OfflineBundle {
+  const bundle: OfflineBundle = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (bundle.version !== OFFLINE_BUNDLE_VERSION) throw new Error(`Unsupported offline bundle version ${bundle.version} in ${filePath}`);
+  return bundle;
+}
+
+// Fixes fee payer and blockhash, signs with whatever keys are local (e.g. a fresh mint keypair) and writes the rest
+// of the signing to a bundle. Each transaction gets an 'exported' journal entry that the import settles.
+async function exportOfflineBundle(connection: SubmitterConnection, submitter: Submitter, sends: PendingSend[]): Promise<string> {
+  const journal = loadJournal();
+  const bundle: OfflineBundle = { version: OFFLINE_BUNDLE_VERSION, deployment: getDeploymentName(), feePayer: submitter.feePayer.toBase58(), createdAt: new Date().toISOString(), transactions: [] };
+  const offlineDir = path.join(getCacheDir(), 'offline');
+  if (!fs.existsSync(offlineDir)) fs.mkdirSync(offlineDir, { recursive: true });
+  const bundlePath = path.join(offlineDir, `bundle-${journal.entries.length + 1}.json`);
+
+  for (const send of sends) {
+    const localSigners = send.signers.filter(isTransactionSigner);
+    const { blockhash, lastValidBlockHeight, wire } = await prepareTransaction(connection, submitter.feePayer, send.tx, localSigners);
+    if (wire !== send.tx) throw cliError(`"${send.intent}" only fits as a v0 transaction; offline bundles carry legacy transactions only.`, EXIT_CODES.config);
+    const message = send.tx.compileMessage();
+    const signers = message.accountKeys.slice(0, message.header.numRequiredSignatures).map((key) => key.toBase58()).filter((key) => key !== bundle.feePayer);
+    const signatures: Record<string, string> = {};
+    for (const { publicKey, signature } of send.tx.signatures) {
+      if (signature && signers.includes(publicKey.toBase58())) signatures[publicKey.toBase58()] = signature.toString('base64');
+    }
+
+    const now = new Date().toISOString();
+    const entry: JournalEntry = { id: journal.entries.length + 1, step: send.step, intent: send.intent, status: 'exported', createdAt: now, updatedAt: now, blockhash, lastValidBlockHeight, bundle: path.relative(__dirname, bundlePath), ...send.extra };
+    journal.entries.push(entry);
+    bundle.transactions.push({ journalEntryId: entry.id, step: send.step, intent: send.intent, message: message.serialize().toString('base64'), blockhash, lastValidBlockHeight, signers, signatures });
+  }
+  saveJournal(journal);
+  fs.writeFileSync(bundlePath, JSON.stringify(bundle, null, 2));
+  console.log(`📤 Exported ${sends.length} transaction(s) for offline signing: ${bundlePath}`);
+  return bundlePath;
+}
+
+// Offline: needs no RPC or .env, only the bundle and the signer's key. Shows what each transaction does before signing.
+async function signOfflineBundle(filePath: string, keypair: TransactionSigner): Promise<void> {
+  const bundle = loadOfflineBundle(filePath);
+  const signer = keypair.publicKey.toBase58();
+  const mine = bundle.transactions.filter((t) => t.signers.includes(signer) && !t.signatures[signer]);
+  if (mine.length === 0) throw new Error(`${filePath} has no unsigned transactions for ${signer}.`);
+
+  console.log(`Bundle for deployment "${bundle.deployment}", fee payer ${bundle.feePayer}, created ${bundle.createdAt}:`);
+  for (const t of mine) {
+    const message = Message.from(Buffer.from(t.message, 'base64'));
+    const programs = [...new Set(message.instructions.map((ix) => message.accountKeys[ix.programIdIndex].toBase58()))];
+    console.log(`  #${t.journalEntryId} ${t.step}: ${t.intent}`);
+    console.log(`     ${message.instructions.length} instruction(s) calling ${programs.join(', ')}`);
+  }
+  if (!(await confirmAction(`Sign ${mine.length} transaction(s) as ${signer}?`))) throw cliError('Signing cancelled.', EXIT_CODES.notConfirmed);
+
+  for (const t of mine) {
+    t.signatures[signer] = (await signMessageWith(keypair, Buffer.from(t.message, 'base64'))).toString('base64');
+  }
+  fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+  const complete = bundle.transactions.filter((t) => t.signers.every((key) => t.signatures[key])).length;
+  console.log(`Signed ${mine.length} transaction(s) in ${filePath} as ${signer} (${complete}/${bundle.transactions.length} fully signed)`);
+}
+
+// Aggregates the offline signatures and submits each transaction through the deployment's submitter, settling its journal entry.
+async function importOfflineBundle(filePath: string, submitter: Submitter = createSubmitter(loadManifest(), getConnection())): Promise<string[]> {
+  const bundle = loadOfflineBundle(filePath);
+  if (bundle.deployment !== getDeploymentName()) throw new Error(`${filePath} belongs to deployment "${bundle.deployment}", not "${getDeploymentName()}".`);
+  if (bundle.feePayer !== submitter.feePayer.toBase58()) throw new Error(`${filePath} was built for fee payer ${bundle.feePayer}, not ${submitter.feePayer.toBase58()}.`);
+  for (const t of bundle.transactions) {
+    const missing = t.signers.filter((signer) => !t.signatures[signer]);
+    if (missing.length) throw new Error(`${filePath} entry #${t.journalEntryId} is missing signatures from: ${missing.join(', ')}`);
+  }
+
+  const journal = loadJournal();
+  const signatures: string[] = [];
+  for (const t of bundle.transactions) {
+    const entry = journal.entries.find((e) => e.id === t.journalEntryId);
+    if (!entry) throw new Error(`Journal has no entry #${t.journalEntryId} for ${filePath}.`);
+    if (entry.status !== 'exported') {
+      console.log(`Entry #${entry.id} (${entry.step}) is already ${entry.status}; skipping.`);
+      continue;
+    }
+    const tx = Transaction.populate(Message.from(Buffer.from(t.message, 'base64')));
+    for (const signer of t.signers) tx.addSignature(new PublicKey(signer), Buffer.from(t.signatures[signer], 'base64'));
+    try {
+      signatures.push(await submitter.sendSigned(tx, t.lastValidBlockHeight, journalHooks(journal, entry, { step: t.step, intent: t.intent })));
+    } catch (e) {
+      // Left for reconcileJournal: a send that reached the submitter may still land.
+      updateJournalEntry(journal, entry, { error: errorMessage(e) });
+      throw e;
+    }
+    recoverMint(entry);
+    console.log(`Imported #${entry.id} (${entry.step}): ${entry.signature}`);
+  }
+  loadNonceAccounts(); // saves the nonce accounts the imported transactions created or closed
+  return signatures;
+}
+
+// The Metaplex fungible token standard JSON.
+function buildMetadataJson(manifest: TokenManifest, imageUri: string, imageType = getContentType(imageUri)): MetadataJson {
+  const { description, external_url, attributes } = manifest.metadata;
+  return {
+    name: manifest.name,
+    symbol: manifest.symbol,
+    description,
+    image: imageUri,
+    ...(external_url ? { external_url } : {}),
+    attributes: attributes ?? [],
+    properties: { files: [{ uri: imageUri, type: imageType }], category: 'image' },
+  };
+}
+
+function buildMetadataUri(manifest: TokenManifest): string {
+  return `data:application/json;base64,${Buffer.from(JSON.stringify(buildMetadataJson(manifest, manifest.metadata.image))).toString('base64')}`;
+}
+
+// Metadata Storage
+function getContentType(file: string): string {
+  const types: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif', '.svg': 'image/svg+xml', '.webp': 'image/webp', '.json': 'application/json' };
+  return types[path.extname(file.split('?')[0]).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+async function fetchUri(uri: string): Promise<Buffer> {
+  const dataUri = uri.match(/^data:[^;,]+;base64,(.*)$/);
+  if (dataUri) return Buffer.from(dataUri[1], 'base64');
+  if (uri.startsWith('file://')) return fs.readFileSync(new URL(uri));
+  if (!/^https?:\/\//.test(uri)) throw new Error(`unsupported URI scheme: ${uri.split(':')[0]}`);
+  const res = await fetch(uri, { signal: AbortSignal.timeout(15000) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+// Arweave through Irys, paid in SOL by a local keypair; the node is funded just enough for each upload.
+function createIrysStorage(config: StorageConfig): StorageAdapter {
+  const keypairPath = config.keypair || process.env.STORAGE_KEYPAIR;
+  if (!keypairPath) throw new Error('Missing STORAGE_KEYPAIR in .env (required by the irys storage)');
+  const gateway = (config.gateway || 'https://gateway.irys.xyz').replace(/\/$/, '');
+  return {
+    name: 'irys',
+    async upload(content, contentType) {
+      const builder = Uploader(Solana).withWallet(loadKeypairFile(keypairPath).secretKey).withRpc(getRpcUrl());
+      const network = config.network ?? (getClusterName() === 'mainnet' ? 'mainnet' : 'devnet');
+      const irys = await (network === 'devnet' ? builder.devnet() : builder);
+      const price = await irys.getPrice(content.length);
+      const balance = await irys.getLoadedBalance();
+      if (balance.lt(price)) await irys.fund(price.minus(balance));
+      const receipt = await irys.upload(content, { tags: [{ name: 'Content-Type', value: contentType }] });
+      return `${gateway}/${receipt.id}`;
+    },
+  };
+}
+
+// Any Kubo-compatible RPC API (a local node or a pinning service exposing /api/v0/add).
+function createIpfsStorage(config: StorageConfig): StorageAdapter {
+  const apiUrl = config.url || process.env.IPFS_API_URL;
+  if (!apiUrl) throw new Error('Missing IPFS_API_URL in .env (required by the ipfs storage)');
+  const gateway = (config.gateway || 'https://ipfs.io').replace(/\/$/, '');
+  return {
+    name: 'ipfs',
+    async upload(content, contentType, key) {
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(content)], { type: contentType }), key);
+      const headers: Record<string, string> = {};
+      if (process.env.IPFS_API_TOKEN) headers['Authorization'] = `Bearer ${process.env.IPFS_API_TOKEN}`;
+      const res = await fetch(`${apiUrl.replace(/\/$/, '')}/api/v0/add?pin=true&cid-version=1`, { method: 'POST', headers, body: form });
+      if (!res.ok) throw new Error(`IPFS add failed: HTTP ${res.status} ${await res.text()}`);
+      const { Hash } = await res.json();
+      return `${gateway}/ipfs/${Hash}`;
+    },
+  };
+}
+
+// S3 or an S3-compatible store; credentials come from the usual AWS_* environment variables.
+function createS3Storage(config: StorageConfig): StorageAdapter {
+  const client = new S3Client({ region: config.region || process.env.AWS_REGION || 'auto', endpoint: config.endpoint, forcePathStyle: !!config.endpoint });
+  const publicUrl = config.publicUrl!.replace(/\/$/, '');
+  return {
+    name: 's3',
+    async upload(content, contentType, key) {
+      await client.send(new PutObjectCommand({ Bucket: config.bucket, Key: key, Body: content, ContentType: contentType }));
+      return `${publicUrl}/${key}`;
+    },
+  };
+}
+
+// Writes to a directory, served over HTTP by the serve-storage command when publicUrl is set, or referenced as file:// URIs.
+function createLocalStorage(config: StorageConfig): StorageAdapter {
+  const dir = path.resolve(__dirname, config.dir || path.join('.cache', 'storage'));
+  return {
+    name: 'local',
+    async upload(content, contentType, key) {
+      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, key), content);
+      return config.publicUrl ? `${config.publicUrl.replace(/\/$/, '')}/${key}` : `file://${path.join(dir, key)}`;
+    },
+  };
+}
+
+// Dry runs never upload: their files go to the dry-run cache.
+function createStorage(manifest: TokenManifest): StorageAdapter {
+  if (process.env.DRY_RUN === 'true') return createLocalStorage({ type: 'local', dir: path.join(getCacheDir(), 'storage') });
+  const config = manifest.storage;
+  if (!config) throw cliError('No storage in the manifest: the metadata JSON is embedded as a data: URI instead.', EXIT_CODES.config);
+  switch (config.type) {
+    case 'irys':
+      return createIrysStorage(config);
+    case 'ipfs':
+      return createIpfsStorage(config);
+    case 's3':
+      return createS3Storage(config);
+    case 'local':
+      return createLocalStorage(config);
+    default:
+      throw cliError(`Unknown storage type: ${(config as StorageConfig).type}`, EXIT_CODES.config);
+  }
+}
+
+function loadPublishedMetadata(): PublishedMetadata | null {
+  const publishedPath = path.join(getCacheDir(), 'metadata.json');
+  return fs.existsSync(publishedPath) ? JSON.parse(fs.readFileSync(publishedPath, 'utf-8')) : null;
+}
+
+function savePublishedMetadata(published: PublishedMetadata): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'metadata.json'), JSON.stringify(published, null, 2));
+}
+
+// Uploads the image and the metadata JSON, reading each back to check its hash. Content already published to the same
+// storage (same hash) is reused, so re-running a step never pays for the same upload twice.
+async function publishMetadata(manifest: TokenManifest): Promise<PublishedMetadata> {
+  const storage = createStorage(manifest);
+  const previous = loadPublishedMetadata();
+  const publish = async (content: Buffer, contentType: string, extension: string): Promise<PublishedFile> => {
+    const hash = sha256(content);
+    const reused = previous?.storage === storage.name ? [previous.image, previous.json].find((file) => file?.sha256 === hash) : undefined;
+    if (reused) return reused;
+
+    const uri = await storage.upload(content, contentType, `${hash}${extension}`);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const served = sha256(await fetchUri(uri));
+        if (served !== hash) throw new Error(`Content hash mismatch for ${uri}: uploaded ${hash}, served ${served}`);
+        break;
+      } catch (e) {
+        if (attempt === 3) throw e;
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+      }
+    }
+    console.log(`✅ Uploaded ${contentType} (${content.length} bytes, sha256 ${hash}) to ${uri}`);
+    return { uri, sha256: hash, contentType };
+  };
+
+  let image: PublishedFile | undefined;
+  let imageUri = manifest.metadata.image;
+  if (!/^https?:\/\//.test(imageUri)) {
+    const imagePath = path.resolve(path.dirname(getManifestPath()), imageUri);
+    if (!fs.existsSync(imagePath)) throw new Error(`Image not found: ${imagePath}`);
+    image = await publish(fs.readFileSync(imagePath), getContentType(imagePath), path.extname(imagePath).toLowerCase());
+    imageUri = image.uri;
+  }
+  const json = await publish(Buffer.from(JSON.stringify(buildMetadataJson(manifest, imageUri, image?.contentType))), 'application/json', '.json');
+  const published: PublishedMetadata = { storage: storage.name, image, json, publishedAt: new Date().toISOString() };
+  savePublishedMetadata(published);
+  return published;
+}
+
+async function resolveMetadataUri(manifest: TokenManifest): Promise<string> {
+  return manifest.storage ? (await publishMetadata(manifest)).json.uri : buildMetadataUri(manifest);
+}
+
+// A static file server over the local storage directory, for wallets and explorers pointed at a test validator.
+function serveLocalStorage(manifest: TokenManifest): void {
+  const config = manifest.storage;
+  if (config?.type !== 'local') throw cliError('serve-storage needs storage.type "local" in the manifest.', EXIT_CODES.config);
+  const dir = path.resolve(__dirname, config.dir || path.join('.cache', 'storage'));
+  const port = Number(new URL(config.publicUrl || 'http://127.0.0.1:8787').port || 80);
+  http
+    .createServer((req, res) => {
+      const filePath = path.join(dir, path.basename(decodeURIComponent((req.url || '/').split('?')[0])));
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': getContentType(filePath), 'Access-Control-Allow-Origin': '*' });
+      fs.createReadStream(filePath).pipe(res);
+    })
+    .listen(port, () => console.log(`Serving ${dir} on port ${port} (Ctrl-C to stop)`));
+}
+
+function optionalPubkey(value: string | undefined, fallback: PublicKey): PublicKey {
+  return value ? new PublicKey(value) : fallback;
+}
+
+// Extension init instructions must precede InitializeMint; the native token-metadata init must follow it.
+function buildExtensionInstructions(manifest: TokenManifest, mint: PublicKey, authority: PublicKey): { types: ExtensionType[]; instructions: TransactionInstruction[] } {
+  const ext = manifest.extensions;
+  const types: ExtensionType[] = [];
+  const instructions: TransactionInstruction[] = [];
+
+  if (ext.transferFee) {
+    types.push(ExtensionType.TransferFeeConfig);
+    instructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        optionalPubkey(ext.transferFee.authority, authority),
+        optionalPubkey(ext.transferFee.withdrawAuthority, authority),
+        ext.transferFee.feeBasisPoints,
+        toBaseUnits(ext.transferFee.maxFee, manifest.decimals),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+  if (ext.metadataPointer) {
+    types.push(ExtensionType.MetadataPointer);
+    instructions.push(createInitializeMetadataPointerInstruction(mint, optionalPubkey(ext.metadataPointer.authority, authority), mint, TOKEN_2022_PROGRAM_ID));
+  }
+  if (ext.interestBearing) {
+    types.push(ExtensionType.InterestBearingConfig);
+    instructions.push(createInitializeInterestBearingMintInstruction(mint, optionalPubkey(ext.interestBearing.authority, authority), ext.interestBearing.rate, TOKEN_2022_PROGRAM_ID));
+  }
+  if (ext.nonTransferable) {
+    types.push(ExtensionType.NonTransferable);
+    instructions.push(createInitializeNonTransferableMintInstruction(mint, TOKEN_2022_PROGRAM_ID));
+  }
+  if (ext.permanentDelegate) {
+    types.push(ExtensionType.PermanentDelegate);
+    instructions.push(createInitializePermanentDelegateInstruction(mint, new PublicKey(ext.permanentDelegate), TOKEN_2022_PROGRAM_ID));
+  }
+  if (ext.defaultAccountState) {
+    types.push(ExtensionType.DefaultAccountState);
+    const state = ext.defaultAccountState === 'frozen' ? AccountState.Frozen : AccountState.Initialized;
+    instructions.push(createInitializeDefaultAccountStateInstruction(mint, state, TOKEN_2022_PROGRAM_ID));
+  }
+  return { types, instructions };
+}
+
+async function createTokenMint(): Promise<PublicKey> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const feePayer = submitter.feePayer;
+  const cacheDir = getCacheDir();
+  const mintCachePath = path.join(cacheDir, 'mint.json');
+
+  if (fs.existsSync(mintCachePath)) {
+    const mint = JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint;
+    const mintInfo = await connection.getAccountInfo(new PublicKey(mint));
+    if (mintInfo) {
+      console.log(`Mint already exists: ${mint}`);
+      return new PublicKey(mint);
+    }
+  }
+
+  // A confirmed creation whose cache write was lost is adopted rather than creating a second mint.
+  const created = loadJournal().entries.filter((e) => e.step === 'create-mint' && e.status === 'confirmed' && e.mint).pop();
+  if (created && (await connection.getAccountInfo(new PublicKey(created.mint!)))) {
+    if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(mintCachePath, JSON.stringify({ mint: created.mint }));
+    console.log(`Mint already exists (recovered from journal): ${created.mint}`);
+    return new PublicKey(created.mint!);
+  }
+
+  const mintKeypair = Keypair.generate();
+  const mint = mintKeypair.publicKey;
+  const { types, instructions } = buildExtensionInstructions(manifest, mint, userAuth.publicKey);
+  const mintLen = getMintLen(types);
+
+  // The native metadata is written after InitializeMint and reallocs the account, so fund its rent up front.
+  const nativeMetadata: TokenMetadata | null = manifest.extensions.metadataPointer
+    ? { mint, updateAuthority: userAuth.publicKey, name: manifest.name, symbol: manifest.symbol, uri: await resolveMetadataUri(manifest), additionalMetadata: [] }
+    : null;
+  const metadataLen = nativeMetadata ? TYPE_SIZE + LENGTH_SIZE + pack(nativeMetadata).length : 0;
+  const lamports = await connection.getMinimumBalanceForRentExemption(mintLen + metadataLen);
+
+  const tx = new Transaction().add(
+    SystemProgram.createAccount({
+      fromPubkey: feePayer,
+      newAccountPubkey: mint,
+      space: mintLen,
+      lamports,
+      programId: TOKEN_2022_PROGRAM_ID,
+    }),
+    ...instructions,
+    createInitializeMintInstruction(mint, manifest.decimals, userAuth.publicKey, userAuth.publicKey, TOKEN_2022_PROGRAM_ID)
+  );
+  if (nativeMetadata) {
+    tx.add(
+      createInitializeInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mint,
+        updateAuthority: userAuth.publicKey,
+        mint,
+        mintAuthority: userAuth.publicKey,
+        name: nativeMetadata.name,
+        symbol: nativeMetadata.symbol,
+        uri: nativeMetadata.uri,
+      })
+    );
+  }
+
+  // Native metadata is written with the mint, so its first version is the create-mint transaction.
+  const history = nativeMetadata ? loadMetadataHistory(mint) : null;
+  const version = history && addMetadataVersion(history, 'token-2022', nativeMetadata!.uri, { name: nativeMetadata!.name, symbol: nativeMetadata!.symbol, uri: nativeMetadata!.uri }, () => `Create mint ${mint.toBase58()}`);
+  const signature = await journaledSend(connection, submitter, tx, [userAuth, mintKeypair], 'create-mint', `Create mint ${mint.toBase58()}`, { mint: mint.toBase58() });
+  if (history && version) publishMetadataVersion(history, version, signature);
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(mintCachePath, JSON.stringify({ mint: mintKeypair.publicKey.toBase58() }));
+  console.log(`Created mint for ${manifest.symbol}: ${mint.toBase58()}`);
+  if (types.length) console.log(`   Extensions: ${types.map((t) => ExtensionType[t]).join(', ')}`);
+  return mint;
+}
+
+async function mintInitialSupply(): Promise<void> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const feePayer = submitter.feePayer;
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const allocations = resolveAllocations(manifest);
+  const status = loadAllocationStatus();
+
+  // Reconcile the local status with the chain so a rerun only mints what is still missing.
+  const missing: ResolvedAllocation[] = [];
+  for (const allocation of allocations) {
+    const key = allocation.address.toBase58();
+    const record = status[key];
+    if (record && record.status === 'minted' && record.amount === allocation.amount.toString()) continue;
+
+    const ata = findAssociatedTokenAddress(allocation.address, mint);
+    const ataInfo = await connection.getAccountInfo(ata);
+    const balance = ataInfo ? BigInt((await connection.getTokenAccountBalance(ata, 'confirmed')).value.amount) : BigInt(0);
+    if (balance === allocation.amount) {
+      status[key] = { label: allocation.label, amount: allocation.amount.toString(), status: 'minted', signature: record?.signature };
+      console.log(`Allocation "${allocation.label}" already minted to ${ata.toBase58()}`);
+    } else if (balance === BigInt(0)) {
+      status[key] = { label: allocation.label, amount: allocation.amount.toString(), status: 'pending' };
+      missing.push(allocation);
+    } else {
+      throw new Error(`Allocation "${allocation.label}" holds ${balance} base units, expected 0 or ${allocation.amount}. Resolve manually before re-running.`);
+    }
+  }
+  saveAllocationStatus(status);
+
+  if (missing.length === 0) {
+    console.log(`Initial supply of ${manifest.supply} ${manifest.symbol} already minted`);
+    return;
+  }
+
+  // New accounts start frozen under DefaultAccountState=frozen, so allocations are thawed before minting.
+  const thaw = manifest.extensions.defaultAccountState === 'frozen';
+  const groups = missing.map((allocation) => {
+    const ata = findAssociatedTokenAddress(allocation.address, mint);
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(feePayer, ata, allocation.address, mint, TOKEN_2022_PROGRAM_ID),
+      ...(thaw ? [createThawAccountInstruction(ata, mint, userAuth.publicKey, [], TOKEN_2022_PROGRAM_ID)] : []),
+      createMintToCheckedInstruction(mint, ata, userAuth.publicKey, allocation.amount, manifest.decimals, [], TOKEN_2022_PROGRAM_ID),
+    ];
+  });
+  const packed = packGroups(feePayer, userAuth.publicKey, groups, await loadLookupTables(connection));
+  console.log(`Minting ${missing.length} allocation(s) in ${packed.length} transaction(s)`);
+
+  const sends: PendingSend[] = packed.map(({ tx, groups: indices }) => {
+    const batch = indices.map((i) => missing[i]);
+    return {
+      tx,
+      signers: [userAuth],
+      step: 'mint-supply',
+      intent: `Mint ${batch.map((a) => a.label).join(', ')}`,
+      onConfirmed: (signature: string) => {
+        for (const allocation of batch) {
+          status[allocation.address.toBase58()] = { label: allocation.label, amount: allocation.amount.toString(), status: 'minted', signature };
+          console.log(`Minted ${allocation.amount} base units to "${allocation.label}" (${allocation.address.toBase58()})`);
+        }
+        saveAllocationStatus(status);
+      },
+    };
+  });
+  await journaledSendAll(connection, submitter, sends);
+}
+
+// Updates the token-metadata extension stored on the mint, topping up rent first when the account grows.
+async function setNativeTokenMetadata(connection: Connection, submitter: Submitter, userAuth: AuthorityKey, mint: PublicKey, fields: { name: string; symbol: string; uri: string }): Promise<void> {
+  const current = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+  if (!current) throw new Error(`Mint ${mint.toBase58()} has no native token metadata. It must be initialized at mint creation.`);
+
+  const changed = (await previewMetadataChange(`native metadata of ${mint.toBase58()}`, { name: current.name, symbol: current.symbol, uri: current.uri }, fields, !!current.updateAuthority)) as (keyof typeof fields)[];
+  if (changed.length === 0) {
+    console.log(`Native metadata for mint ${mint.toBase58()} is up to date`);
+    return;
+  }
+
+  const mintInfo = await connection.getAccountInfo(mint);
+  if (!mintInfo) throw new Error('Mint not found.');
+  const growth = pack({ ...current, ...fields }).length - pack(current).length;
+  const required = await connection.getMinimumBalanceForRentExemption(mintInfo.data.length + Math.max(growth, 0));
+
+  const tx = new Transaction();
+  if (required > mintInfo.lamports) {
+    tx.add(SystemProgram.transfer({ fromPubkey: submitter.feePayer, toPubkey: mint, lamports: required - mintInfo.lamports }));
+  }
+  for (const field of changed) {
+    tx.add(
+      createUpdateFieldInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mint,
+        updateAuthority: userAuth.publicKey,
+        field,
+        value: fields[field],
+      })
+    );
+  }
+
+  const history = loadMetadataHistory(mint);
+  const version = addMetadataVersion(history, 'token-2022', fields.uri, fields, (n) => `Update native metadata to version ${n} (${changed.join(', ')})`);
+  const signature = await journaledSend(connection, submitter, tx, [userAuth], 'set-metadata', version.intent);
+  publishMetadataVersion(history, version, signature);
+  console.log(`Native metadata updated for mint ${mint.toBase58()} (${changed.join(', ')}): ${signature}`);
+}
+
+async function setTokenMetadata(): Promise<string> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const feePayer = submitter.feePayer;
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  const METADATA = {
+    name: manifest.name,
+    symbol: manifest.symbol,
+    ...manifest.metadata,
+  };
+
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const uri = await resolveMetadataUri(manifest);
+
+  if (manifest.extensions.metadataPointer) {
+    await setNativeTokenMetadata(connection, submitter, userAuth, mint, { name: METADATA.name, symbol: METADATA.symbol, uri });
+    return uri;
+  }
+
+  const metadataPda = findMetadataPda(mint);
+  const tx = new Transaction();
+  const metadataAccount = await connection.getAccountInfo(metadataPda);
+  const current = metadataAccount ? decodeMetaplexMetadata(metadataAccount.data) : null;
+  const data = buildMetaplexData(manifest, uri, userAuth.publicKey, current);
+  const fields = metaplexFields(data);
+  const changed = await previewMetadataChange(`Metaplex metadata of ${mint.toBase58()}`, current && metaplexFields(current), fields, !current || current.isMutable);
+  if (changed.length === 0) {
+    console.log(`Metaplex metadata for mint ${mint.toBase58()} is up to date`);
+    return uri;
+  }
+
+  if (current) {
+    tx.add(createUpdateMetaplexMetadataInstruction({ metadata: metadataPda, updateAuthority: userAuth.publicKey, data }));
+  } else {
+    tx.add(
+      createMetaplexMetadataInstruction({
+        metadata: metadataPda,
+        mint,
+        mintAuthority: userAuth.publicKey,
+        payer: userAuth.publicKey,
+        updateAuthority: userAuth.publicKey,
+        data,
+      })
+    );
+  }
+
+  const history = loadMetadataHistory(mint);
+  const version = addMetadataVersion(history, 'metaplex', uri, fields, (n) => `${current ? 'Update' : 'Create'} Metaplex metadata as version ${n}${current ? ` (${changed.join(', ')})` : ''}`);
+  const signature = await journaledSend(connection, submitter, tx, [userAuth], 'set-metadata', version.intent);
+  publishMetadataVersion(history, version, signature);
+  console.log(`Metadata set for mint ${mint.toBase58()}. URI: ${uri.slice(0, 50)}...`);
+  return uri;
+}
+
+async function lockAuthorities(): Promise<void> {
+  const connection = getConnection();
+  const manifest = loadManifest();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const feePayer = submitter.feePayer;
+  const treasuryPubkey = new PublicKey(manifest.treasury);
+  const daoPubkey = manifest.authority.dao ? new PublicKey(manifest.authority.dao) : null;
+  const authorityMode = manifest.authority.mode;
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+
+  if (!(await connection.getAccountInfo(mint))) throw new Error('Mint not found.');
+  const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+
+  if (authorityMode === 'dao') {
+    const dao = await loadDaoMultisig(connection, manifest.authority);
+    console.log(`✅ DAO vault verified: ${dao.vault.toBase58()} (vault #${dao.vaultIndex} of multisig ${dao.multisigPda.toBase58()}, ${dao.account.threshold} of ${dao.account.members.length})`);
+    if (dao.account.threshold < 2) console.warn('⚠️  Multisig threshold is 1: any single member can act for the DAO.');
+  }
+
+  const targetAuthority = authorityMode === 'dao' && daoPubkey ? daoPubkey : authorityMode === 'treasury' ? treasuryPubkey : null;
+  const txs = [];
+  const roles: AuthorityRole[] = [];
+  const authorities = [
+    { role: 'mint' as const, authType: AuthorityType.MintTokens, currentAuthority: mintInfo.mintAuthority },
+    { role: 'freeze' as const, authType: AuthorityType.FreezeAccount, currentAuthority: mintInfo.freezeAuthority },
+  ];
+
+  for (const { role, authType, currentAuthority } of authorities) {
+    if (currentAuthority && (!targetAuthority || !currentAuthority.equals(targetAuthority))) {
+      txs.push(new Transaction().add(createSetAuthorityInstruction(mint, userAuth.publicKey, authType, targetAuthority, [], TOKEN_2022_PROGRAM_ID)));
+      roles.push(role);
+    }
+  }
+  if (!targetAuthority && roles.length && !(await confirmMintAddress(mint, `Locking under authority.mode null revokes the ${roles.join(' and ')} authorities of ${mint.toBase58()}; this is irreversible.`))) {
+    throw cliError('Lock cancelled: the mint address did not match.', EXIT_CODES.notConfirmed);
+  }
+
+  const signatures = [];
+  for (const tx of txs) {
+    const signature = await journaledSend(connection, submitter, tx, [userAuth], 'lock-authorities', `Set authorities to ${targetAuthority ? targetAuthority.toBase58() : 'null'}`);
+    console.log(`Authority set: ${signature}`);
+    signatures.push(signature);
+  }
+
+  console.log(`Mint ${mint.toBase58()} authorities set to ${targetAuthority ? targetAuthority.toBase58() : 'null'}.`);
+  if (!targetAuthority && signatures.length) await emitEvent('irreversible', { action: 'revoke-authority', roles, mint: mint.toBase58(), signatures });
+}
+
+// Metadata Versions
+// The manifest's Metaplex data. A creator is verified when it is the signing update authority or already was on-chain;
+// the collection keeps its on-chain verification while its key is unchanged.
+function buildMetaplexData(manifest: TokenManifest, uri: string, updateAuthority: PublicKey, current: MetaplexMetadata | null): MetaplexData {
+  const { creators, collection, sellerFeeBasisPoints } = manifest.metadata;
+  const wasVerified = (address: PublicKey) => !!current?.creators?.some((c) => c.verified && c.address.equals(address));
+  return {
+    name: manifest.name,
+    symbol: manifest.symbol,
+    uri,
+    sellerFeeBasisPoints: sellerFeeBasisPoints ?? 0,
+    creators: creators
+      ? creators.map((c) => {
+          const address = new PublicKey(c.address);
+          return { address, verified: address.equals(updateAuthority) || wasVerified(address), share: c.share };
+        })
+      : null,
+    collection: collection ? { key: new PublicKey(collection), verified: !!current?.collection?.verified && current.collection.key.toBase58() === collection } : null,
+    uses: null,
+  };
+}
+
+function metaplexFields(data: Pick<MetaplexData, 'name' | 'symbol' | 'uri' | 'sellerFeeBasisPoints' | 'creators' | 'collection'>): MetadataFields {
+  return {
+    name: data.name,
+    symbol: data.symbol,
+    uri: data.uri,
+    sellerFeeBasisPoints: String(data.sellerFeeBasisPoints),
+    creators: data.creators ? data.creators.map((c) => `${c.address.toBase58()} ${c.share}%${c.verified ? ' (verified)' : ''}`).join(', ') : 'none',
+    collection: data.collection ? `${data.collection.key.toBase58()}${data.collection.verified ? ' (verified)' : ''}` : 'none',
+  };
+}
+
+// Prints the fields a write changes, before and after, and asks to go ahead with an update (a dry run only prints).
+// Returns the changed fields; immutable metadata with changes is refused.
+async function previewMetadataChange(label: string, before: MetadataFields | null, after: MetadataFields, mutable: boolean): Promise<string[]> {
+  const changed = Object.keys(after).filter((field) => !before || before[field] !== after[field]);
+  if (changed.length === 0) return changed;
+  if (!mutable) throw new Error(`The ${label} is finalized (immutable), but the manifest changes ${changed.join(', ')}.`);
+  console.log(`\n📝 ${before ? 'Changes to the' : 'New'} ${label}:`);
+  for (const field of changed) console.log(before ? `   ${field}: ${before[field]} → ${after[field]}` : `   ${field}: ${after[field]}`);
+  if (before && process.env.DRY_RUN !== 'true' && !(await confirmAction('Write these changes on-chain?'))) {
+    throw cliError('Metadata update cancelled.', EXIT_CODES.notConfirmed);
+  }
+  return changed;
+}
+
+// The history of on-chain metadata versions. Pending versions are settled from the journal entry with their intent;
+// one whose send failed never happened and is dropped.
+function loadMetadataHistory(mint: PublicKey): MetadataHistory {
+  const historyPath = path.join(getCacheDir(), 'metadata-history.json');
+  const history: MetadataHistory = fs.existsSync(historyPath) ? JSON.parse(fs.readFileSync(historyPath, 'utf-8')) : { mint: mint.toBase58(), versions: [] };
+  if (history.mint !== mint.toBase58()) throw cliError(`${historyPath} is for mint ${history.mint}, not ${mint.toBase58()}.`, EXIT_CODES.config);
+  const entries = loadJournal().entries;
+  history.versions = history.versions.filter((version) => {
+    if (version.status !== 'pending') return true;
+    const entry = entries.filter((e) => e.intent === version.intent).pop();
+    if (entry?.status === 'confirmed') Object.assign(version, { status: 'published', signature: entry.signature, publishedAt: entry.updatedAt });
+    return !(!entry || entry.status === 'failed' || entry.status === 'expired');
+  });
+  return history;
+}
+
+function saveMetadataHistory(history: MetadataHistory): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'metadata-history.json'), JSON.stringify(history, null, 2));
+}
+
+// Records a version as pending before it is sent; intent names the journal entry, given the version number.
+function addMetadataVersion(history: MetadataHistory, program: MetadataVersion['program'], uri: string, fields: MetadataFields, intent: (version: number) => string, finalized = false): MetadataVersion {
+  const number = history.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+  const version: MetadataVersion = { version: number, program, status: 'pending', intent: intent(number), uri, fields, ...(finalized ? { finalized } : {}), createdAt: new Date().toISOString() };
+  history.versions.push(version);
+  saveMetadataHistory(history);
+  return version;
+}
+
+function publishMetadataVersion(history: MetadataHistory, version: MetadataVersion, signature: string): void {
+  Object.assign(version, { status: 'published', signature, publishedAt: new Date().toISOString() });
+  saveMetadataHistory(history);
+}
+
+function printMetadataHistory(): MetadataVersion[] {
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const history = loadMetadataHistory(new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint));
+  saveMetadataHistory(history);
+  console.log(`\n📜 Metadata versions of ${history.mint}:`);
+  if (history.versions.length === 0) console.log('   None recorded.');
+  for (const version of history.versions) {
+    const when = version.publishedAt ?? version.createdAt;
+    console.log(`   v${version.version} ${when} ${version.program}${version.finalized ? ' [finalized]' : ''}${version.status === 'pending' ? ' [pending]' : ''}`);
+    console.log(`      ${version.uri.length > 80 ? `${version.uri.slice(0, 77)}...` : version.uri}`);
+    if (version.signature) console.log(`      ${getExplorerUrl('tx', version.signature)}`);
+  }
+  return history.versions;
+}
+
+// Makes the metadata immutable for good: is_mutable=false on Metaplex, a null update authority on native metadata.
+// Like a revocation, it needs the mint address typed back (or --confirm-mint); --yes is not enough.
+async function finalizeMetadata(): Promise<MetadataVersion | null> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const tx = new Transaction();
+  let holder: PublicKey | undefined;
+  let fields: MetadataFields;
+  if (manifest.extensions.metadataPointer) {
+    const current = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    if (!current) throw new Error(`Mint ${mint.toBase58()} has no native token metadata.`);
+    holder = current.updateAuthority;
+    fields = { name: current.name, symbol: current.symbol, uri: current.uri };
+    tx.add(createUpdateAuthorityInstruction({ programId: TOKEN_2022_PROGRAM_ID, metadata: mint, oldAuthority: userAuth.publicKey, newAuthority: null }));
+  } else {
+    const metadataInfo = await connection.getAccountInfo(findMetadataPda(mint), 'confirmed');
+    if (!metadataInfo) throw new Error(`Mint ${mint.toBase58()} has no Metaplex metadata. Run set-metadata first.`);
+    const current = decodeMetaplexMetadata(metadataInfo.data);
+    holder = current.isMutable ? current.updateAuthority : undefined;
+    fields = metaplexFields(current);
+    tx.add(createUpdateMetaplexMetadataInstruction({ metadata: findMetadataPda(mint), updateAuthority: userAuth.publicKey, isMutable: false }));
+  }
+  if (!holder) {
+    console.log(`✅ The metadata of ${mint.toBase58()} is already immutable.`);
+    return null;
+  }
+  if (!holder.equals(userAuth.publicKey)) {
+    throw new Error(`The metadata update authority is ${holder.toBase58()}, not USER_AUTH ${userAuth.publicKey.toBase58()}; only its holder can finalize.`);
+  }
+
+  console.log(`\n🔒 Finalizing keeps this metadata of ${mint.toBase58()} forever:`);
+  for (const [field, value] of Object.entries(fields)) console.log(`   ${field}: ${value}`);
+  if (!(await confirmMintAddress(mint, `Finalizing the metadata of ${mint.toBase58()} is irreversible: it can never be updated again.`))) {
+    throw cliError('Finalize cancelled: the mint address did not match.', EXIT_CODES.notConfirmed);
+  }
+  const history = loadMetadataHistory(mint);
+  const version = addMetadataVersion(history, manifest.extensions.metadataPointer ? 'token-2022' : 'metaplex', fields.uri, fields, (n) => `Finalize metadata as version ${n}`, true);
+  const signature = await journaledSend(connection, submitter, tx, [userAuth], 'finalize-metadata', version.intent);
+  publishMetadataVersion(history, version, signature);
+  console.log(`✅ Metadata finalized: ${getExplorerUrl('tx', signature)}`);
+  await emitEvent('irreversible', { action: 'finalize-metadata', mint: mint.toBase58(), version: version.version, signature });
+  return version;
+}
+
+async function manageMetadataVersions(): Promise<void> {
+  printMetadataHistory();
+  console.log('\n📜 Metadata versions:');
+  console.log('1. Finalize the metadata (irreversible)');
+  console.log('2. Back');
+  const choice = await askQuestion('Select an action (1-2): ');
+
+  switch (choice) {
+    case '1':
+      await finalizeMetadata();
+      break;
+    case '2':
+      break;
+    default:
+      console.log('❌ Invalid choice.');
+  }
+}
+
+// Airdrops
+// CSV amounts are in tokens and may have up to `decimals` fractional digits.
+function parseTokenAmount(amount: string, decimals: number): bigint | null {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+  if (!match || (match[2] ?? '').length > decimals) return null;
+  return BigInt(match[1] + (match[2] ?? '').padEnd(decimals, '0'));
+}
+
+// The inverse of parseTokenAmount: base units as tokens, without trailing fractional zeros.
+function formatTokenAmount(amount: bigint, decimals: number): string {
+  const negative = amount < BigInt(0);
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${digits.slice(0, digits.length - decimals)}${fraction ? `.${fraction}` : ''}`;
+}
+
+// Reads `recipient,amount` rows, skipping blank lines, # comments and a header. Every row is checked before any is paid.
+function parseAirdropCsv(csvPath: string, decimals: number): { line: number; recipient: string; amount: bigint }[] {
+  if (!fs.existsSync(csvPath)) throw cliError(`Airdrop CSV not found: ${csvPath}`, EXIT_CODES.config);
+  const rows: { line: number; recipient: string; amount: bigint }[] = [];
+  const errors: string[] = [];
+  let header = true;
+  fs.readFileSync(csvPath, 'utf-8').split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    const cells = text.split(',').map((cell) => cell.trim());
+    if (!cells[0] || cells[0].startsWith('#')) return;
+    const isHeader = header && /^(recipient|address|wallet)$/i.test(cells[0]);
+    header = false;
+    if (isHeader) return;
+    const amount = cells.length === 2 ? parseTokenAmount(cells[1], decimals) : null;
+    if (cells.length !== 2) errors.push(`line ${line}: expected recipient,amount`);
+    else if (!isPublicKey(cells[0])) errors.push(`line ${line}: ${cells[0]} is not a public key`);
+    else if (!amount) errors.push(`line ${line}: ${cells[1]} is not a positive amount with at most ${decimals} decimals`);
+    else rows.push({ line, recipient: new PublicKey(cells[0]).toBase58(), amount });
+  });
+  if (errors.length) throw cliError(`Invalid airdrop CSV ${csvPath}:\n  ${errors.join('\n  ')}`, EXIT_CODES.config);
+  if (rows.length === 0) throw cliError(`Airdrop CSV ${csvPath} has no rows.`, EXIT_CODES.config);
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.recipient)) console.warn(`⚠️  ${row.recipient} appears more than once (line ${row.line}); each row is paid.`);
+    seen.add(row.recipient);
+  }
+  return rows;
+}
+
+function getAirdropReceiptsPath(csvPath: string): string {
+  return path.join(getCacheDir(), 'airdrops', `${path.basename(csvPath).replace(/\.csv$/i, '')}.json`);
+}
+
+function loadAirdropReceipts(receiptsPath: string): AirdropReceipts | null {
+  return fs.existsSync(receiptsPath) ? JSON.parse(fs.readFileSync(receiptsPath, 'utf-8')) : null;
+}
+
+function saveAirdropReceipts(receiptsPath: string, receipts: AirdropReceipts): void {
+  const dir = path.dirname(receiptsPath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(receiptsPath, JSON.stringify(receipts, null, 2));
+}
+
+// The paid rows of every airdrop of the mint, all paid from the treasury's token account.
+function loadPaidAirdropRows(mint: PublicKey): AirdropReceipt[] {
+  const dir = path.join(getCacheDir(), 'airdrops');
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => loadAirdropReceipts(path.join(dir, file)))
+    .filter((receipts): receipts is AirdropReceipts => receipts?.mint === mint.toBase58())
+    .flatMap((receipts) => receipts.rows.filter((r) => r.status === 'paid'));
+}
+
+// Settles rows an interrupted run left 'sent' from the journal, which the deploy preflight has already reconciled
+// with the chain. A row whose transaction may still land stops the airdrop.
+function settleAirdropReceipts(receipts: AirdropReceipts): void {
+  const entries = loadJournal().entries.filter((e) => e.step === 'airdrop');
+  for (const row of receipts.rows.filter((r) => r.status === 'sent')) {
+    const entry = entries.filter((e) => e.intent === row.intent).pop();
+    if (entry?.status === 'confirmed') {
+      Object.assign(row, { status: 'paid', signature: entry.signature, paidAt: entry.updatedAt });
+    } else if (!entry || entry.status === 'failed' || entry.status === 'expired') {
+      Object.assign(row, { status: 'pending', intent: undefined });
+    } else {
+      throw new Error(`Line ${row.line} is in journal entry #${entry.id} (${entry.status}), which may still land. Import its bundle or let it expire, then re-run.`);
+    }
+  }
+}
+
+// The treasury owner signs transfers out of its token account: the --keypair file, USER_AUTH when it is the
+// treasury, or otherwise an offline signer, so the transfers are exported as a bundle.
+function loadTreasurySigner(treasury: PublicKey): AuthorityKey {
+  const keypairIndex = process.argv.indexOf('--keypair');
+  if (keypairIndex !== -1) {
+    const keypair = loadKeypairFile(process.argv[keypairIndex + 1]);
+    if (!keypair.publicKey.equals(treasury)) throw cliError(`--keypair is ${keypair.publicKey.toBase58()}, not the treasury ${treasury.toBase58()}.`, EXIT_CODES.config);
+    return keypair;
+  }
+  if (readUserAuthPublicKey()?.equals(treasury)) return loadOrCreateUserAuth();
+  console.log(`   No key for the treasury ${treasury.toBase58()} here; the transfers will be exported for offline signing.`);
+  return { publicKey: treasury };
+}
+
+// Pays each CSV row from the treasury's token account, creating missing recipient accounts, with as many rows per
+// transaction as fit; with useLookupTable the recipients join the deployment lookup table and the transactions go out
+// as v0. Receipts record every row, so a rerun pays only the rows that were never paid.
+async function runAirdrop(csvPath: string, useLookupTable = false): Promise<AirdropReceipts> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const submitter = createSubmitter(manifest, connection);
+  const feePayer = submitter.feePayer;
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const treasury = new PublicKey(manifest.treasury);
+  const source = findAssociatedTokenAddress(treasury, mint);
+  const resolved = path.resolve(csvPath);
+  const csvName = path.basename(resolved);
+  const rows = parseAirdropCsv(resolved, manifest.decimals);
+
+  const receiptsPath = getAirdropReceiptsPath(resolved);
+  const receipts = loadAirdropReceipts(receiptsPath) ?? { csv: resolved, mint: mint.toBase58(), source: source.toBase58(), rows: [] };
+  if (receipts.csv !== resolved) throw cliError(`${receiptsPath} belongs to ${receipts.csv}; rename ${csvName}.`, EXIT_CODES.config);
+  if (receipts.mint !== mint.toBase58()) throw cliError(`${receiptsPath} is for mint ${receipts.mint}, not ${mint.toBase58()}.`, EXIT_CODES.config);
+
+  // A row that was sent or paid must not change; pending rows follow the CSV.
+  const lines = new Set(rows.map((row) => row.line));
+  receipts.rows = receipts.rows.filter((r) => r.status !== 'pending' || lines.has(r.line));
+  for (const row of rows) {
+    const receipt = receipts.rows.find((r) => r.line === row.line);
+    if (!receipt) {
+      receipts.rows.push({ line: row.line, recipient: row.recipient, amount: row.amount.toString(), status: 'pending' });
+    } else if (receipt.recipient !== row.recipient || receipt.amount !== row.amount.toString()) {
+      if (receipt.status !== 'pending') throw cliError(`Line ${row.line} of ${csvName} changed after it was ${receipt.status}; restore it or start a new CSV.`, EXIT_CODES.config);
+      Object.assign(receipt, { recipient: row.recipient, amount: row.amount.toString() });
+    }
+  }
+  receipts.rows.sort((a, b) => a.line - b.line);
+  settleAirdropReceipts(receipts);
+  saveAirdropReceipts(receiptsPath, receipts);
+
+  const pending = receipts.rows.filter((r) => r.status === 'pending');
+  if (pending.length === 0) {
+    console.log(`✅ All ${receipts.rows.length} rows of ${csvName} are paid (receipts: ${receiptsPath}).`);
+    return receipts;
+  }
+
+  const recipients = pending.map((row) => new PublicKey(row.recipient));
+  const atas = recipients.map((recipient) => findAssociatedTokenAddress(recipient, mint));
+  const accounts: (AccountInfo<Buffer> | null)[] = [];
+  const keys = [...recipients, ...atas];
+  for (let i = 0; i < keys.length; i += 100) accounts.push(...(await connection.getMultipleAccountsInfo(keys.slice(i, i + 100), 'confirmed')));
+  const errors: string[] = [];
+  pending.forEach((row, i) => {
+    const owner = accounts[i]?.owner;
+    if (owner && (owner.equals(TOKEN_2022_PROGRAM_ID) || owner.equals(TOKEN_PROGRAM_ID))) errors.push(`line ${row.line}: ${row.recipient} is a token account or mint, not a wallet`);
+    else if (!PublicKey.isOnCurve(recipients[i].toBytes())) console.warn(`⚠️  Line ${row.line}: ${row.recipient} is off-curve (a program address); only its program can move the tokens.`);
+  });
+  if (errors.length) throw cliError(`Invalid recipients in ${csvName}:\n  ${errors.join('\n  ')}`, EXIT_CODES.config);
+
+  const total = pending.reduce((sum, row) => sum + BigInt(row.amount), BigInt(0));
+  const balance = (await connection.getAccountInfo(source)) ? BigInt((await connection.getTokenAccountBalance(source, 'confirmed')).value.amount) : BigInt(0);
+  if (balance < total) throw new Error(`Treasury token account ${source.toBase58()} holds ${balance} base units; the ${pending.length} pending row(s) need ${total}.`);
+
+  // New accounts start frozen under DefaultAccountState=frozen and are thawed by the freeze authority, USER_AUTH.
+  const owner = loadTreasurySigner(treasury);
+  const thaw = manifest.extensions.defaultAccountState === 'frozen';
+  const freezeAuthority = thaw ? loadOrCreateUserAuth() : null;
+  const created = pending.map((_, i) => !accounts[recipients.length + i]);
+  const groups = pending.map((row, i) => [
+    ...(created[i] ? [createAssociatedTokenAccountIdempotentInstruction(feePayer, atas[i], recipients[i], mint, TOKEN_2022_PROGRAM_ID)] : []),
+    ...(created[i] && freezeAuthority ? [createThawAccountInstruction(atas[i], mint, freezeAuthority.publicKey, [], TOKEN_2022_PROGRAM_ID)] : []),
+    createTransferCheckedInstruction(source, mint, atas[i], owner.publicKey, BigInt(row.amount), manifest.decimals, [], TOKEN_2022_PROGRAM_ID),
+  ]);
+  if (useLookupTable) await extendLookupTable(recipients.flatMap((recipient, i) => [recipient, atas[i]]));
+  const packed = packGroups(feePayer, loadOrCreateUserAuth().publicKey, groups, useLookupTable ? await loadLookupTables(connection) : []);
+  console.log(`Airdropping ${total} base units to ${pending.length} row(s) of ${csvName} in ${packed.length} transaction(s) (${created.filter(Boolean).length} new token accounts)`);
+
+  const sends: PendingSend[] = packed.map(({ tx, groups: indices }) => {
+    const batch = indices.map((i) => pending[i]);
+    const intent = `Airdrop ${csvName} line(s) ${batch.map((r) => r.line).join(', ')}`;
+    for (const row of batch) Object.assign(row, { status: 'sent', intent });
+    const signers = freezeAuthority && indices.some((i) => created[i]) && !freezeAuthority.publicKey.equals(owner.publicKey) ? [owner, freezeAuthority] : [owner];
+    return {
+      tx,
+      signers,
+      step: 'airdrop',
+      intent,
+      onConfirmed: (signature: string) => {
+        for (const row of batch) Object.assign(row, { status: 'paid', signature, paidAt: new Date().toISOString() });
+        saveAirdropReceipts(receiptsPath, receipts);
+        console.log(`Paid ${csvName} line(s) ${batch.map((r) => r.line).join(', ')}: ${getExplorerUrl('tx', signature)}`);
+      },
+    };
+  });
+  saveAirdropReceipts(receiptsPath, receipts);
+  await journaledSendAll(connection, submitter, sends);
+  console.log(`✅ Airdrop of ${csvName} complete (receipts: ${receiptsPath}).`);
+  return receipts;
+}
+
+// Controlled Minting
+// SPL Memo: the memo is logged on-chain, and every listed signer must sign.
+function createMemoInstruction(memo: string, signers: PublicKey[]): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
+    keys: signers.map((pubkey) => ({ pubkey, isSigner: true, isWritable: false })),
+    data: Buffer.from(memo, 'utf-8'),
+  });
+}
+
+function loadIssuanceLedger(mint: PublicKey): IssuanceLedger {
+  const ledgerPath = path.join(getCacheDir(), 'issuance.json');
+  const ledger: IssuanceLedger = fs.existsSync(ledgerPath) ? JSON.parse(fs.readFileSync(ledgerPath, 'utf-8')) : { mint: mint.toBase58(), issuances: [] };
+  if (ledger.mint !== mint.toBase58()) throw cliError(`${ledgerPath} is for mint ${ledger.mint}, not ${mint.toBase58()}.`, EXIT_CODES.config);
+  return ledger;
+}
+
+function saveIssuanceLedger(ledger: IssuanceLedger): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'issuance.json'), JSON.stringify(ledger, null, 2));
+}
+
+// Settles open issuances (direct mints from the journal, DAO mints from their proposal), then checks that on-chain
+// supply is the initial supply plus what the ledger minted. More supply than that was minted outside mint-more, and
+// nothing is issued until it is accounted for; less means tokens were burned, which only frees room under the cap.
+async function reconcileIssuanceLedger(connection: Connection, manifest: TokenManifest, mint: PublicKey, ledger: IssuanceLedger): Promise<bigint> {
+  const entries = loadJournal().entries.filter((e) => e.step === 'mint-more');
+  for (const record of ledger.issuances.filter((r) => r.status === 'pending')) {
+    const entry = entries.filter((e) => e.intent === record.intent).pop();
+    if (entry?.status === 'confirmed') {
+      Object.assign(record, { status: 'minted', signature: entry.signature, mintedAt: entry.updatedAt });
+    } else if (!entry || entry.status === 'failed' || entry.status === 'expired') {
+      record.status = 'cancelled';
+    } else {
+      throw new Error(`Issuance #${record.id} is in journal entry #${entry.id} (${entry.status}), which may still land. Import its bundle or let it expire, then re-run.`);
+    }
+  }
+  const proposed = ledger.issuances.filter((r) => r.status === 'proposed');
+  if (proposed.length) {
+    const dao = await loadDaoMultisig(connection, manifest.authority);
+    for (const record of proposed) {
+      const [proposalPda] = multisig.getProposalPda({ multisigPda: dao.multisigPda, transactionIndex: BigInt(record.transactionIndex!) });
+      const status = (await multisig.accounts.Proposal.fromAccountAddress(connection, proposalPda)).status.__kind;
+      if (status === 'Executed') Object.assign(record, { status: 'minted', mintedAt: new Date().toISOString() });
+      else if (status === 'Rejected' || status === 'Cancelled') record.status = 'cancelled';
+    }
+  }
+  saveIssuanceLedger(ledger);
 
-  const b64 = tx.serialize({ requireAllSignatures: false }).toString('base64');
-  if (process.env.DRY_RUN === 'true') {
-    console.log(`[DRY_RUN] Transaction base64: ${b64.slice(0, 120)}...`);
-    console.log(`[DRY_RUN] Transaction size: ${b64.length} bytes`);
-    return 'DRY_RUN_SIGNATURE';
+  const supply = (await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID)).supply;
+  const minted = ledger.issuances.filter((r) => r.status === 'minted').reduce((sum, r) => sum + BigInt(r.amount), BigInt(0));
+  const expected = toBaseUnits(manifest.supply, manifest.decimals) + minted;
+  if (supply > expected) {
+    throw cliError(`Supply is ${supply} base units, but the initial supply and the issuance ledger account for ${expected}: ${supply - expected} were minted outside mint-more. Record or burn them before issuing more.`, EXIT_CODES.policyRefused);
   }
+  if (supply < expected) console.log(`   ${expected - supply} base units of the issued supply have been burned.`);
+  return supply;
+}
 
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+// Every reason the policy refuses an issuance, or none. Open issuances count against the cap and the period limit.
+function checkMintPolicy(manifest: TokenManifest, policy: MintPolicy, ledger: IssuanceLedger, supply: bigint, recipient: string, amount: bigint, memo: string): string[] {
+  const violations: string[] = [];
+  const open = ledger.issuances.filter((r) => r.status === 'pending' || r.status === 'proposed').reduce((sum, r) => sum + BigInt(r.amount), BigInt(0));
+  const cap = toBaseUnits(policy.maxSupply, manifest.decimals);
+  if (!memo.trim()) violations.push('a justification memo is required (--memo)');
+  if (policy.allowedRecipients && !policy.allowedRecipients.includes(recipient)) violations.push(`${recipient} is not in mintPolicy.allowedRecipients`);
+  if (supply + open + amount > cap) violations.push(`supply would reach ${supply + open + amount} base units, over maxSupply ${cap}`);
+  if (policy.periodLimit) {
+    const since = Date.now() - policy.periodLimit.days * 86_400_000;
+    const issued = ledger.issuances.filter((r) => r.status !== 'cancelled' && Date.parse(r.createdAt) >= since).reduce((sum, r) => sum + BigInt(r.amount), BigInt(0));
+    const limit = toBaseUnits(policy.periodLimit.amount, manifest.decimals);
+    if (issued + amount > limit) violations.push(`${issued} base units were issued in the last ${policy.periodLimit.days} day(s); ${amount} more would exceed the limit of ${limit}`);
+  }
+  return violations;
+}
 
-  for (let attempt = 1; attempt <= 3; attempt++) {
-    try {
-      const res = await fetch(relayerUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ signedTransactionBase64: b64 }),
-      });
-      const j = await res.json();
-      if (!j.success) throw new Error(j.error || `Relayer error (attempt ${attempt})`);
-      await connection.confirmTransaction({ signature: j.txSignature, blockhash, lastValidBlockHeight }, 'confirmed');
-      console.log(`Transaction confirmed: https://explorer.solana.com/tx/${j.txSignature} (${Date.now() - start}ms)`);
-      return j.txSignature;
-    } catch (e) {
-      if (attempt === 3) throw new Error(`Relayer failed after 3 attempts: ${e.message}`);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+// Issues whole tokens to a recipient under the manifest's mintPolicy. The mint authority decides how: the DAO vault
+// gets a proposal, USER_AUTH or the treasury (with --keypair) mints directly, and any other key is exported for offline
+// signing. Without a recipient, only reconciles the ledger and prints the room left.
+async function mintMore(recipient?: string, amount?: string, memo = ''): Promise<IssuanceLedger> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const policy = manifest.mintPolicy;
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!policy) throw cliError('The manifest has no mintPolicy; issuing beyond the initial supply needs one.', EXIT_CODES.config);
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const ledger = loadIssuanceLedger(mint);
+  const supply = await reconcileIssuanceLedger(connection, manifest, mint, ledger);
+  const tokens = (units: bigint) => `${formatTokenAmount(units, manifest.decimals)} ${manifest.symbol}`;
+  const open = ledger.issuances.filter((r) => r.status === 'pending' || r.status === 'proposed');
+  console.log(`\n🪙 Supply ${tokens(supply)} of at most ${tokens(toBaseUnits(policy.maxSupply, manifest.decimals))}; ${ledger.issuances.filter((r) => r.status === 'minted').length} issuance(s) minted, ${open.length} open`);
+  if (recipient === undefined) return ledger;
+
+  if (!isPublicKey(recipient) || !amount || !isWholeAmount(amount) || BigInt(amount) === BigInt(0)) throw cliError(`Usage: ${COMMANDS['mint-more'].usage}`, EXIT_CODES.usage);
+  const units = toBaseUnits(amount, manifest.decimals);
+  const violations = checkMintPolicy(manifest, policy, ledger, supply, recipient, units, memo);
+  if (violations.length) throw cliError(`Refused by mintPolicy:\n  - ${violations.join('\n  - ')}`, EXIT_CODES.policyRefused);
+
+  const { mintAuthority, freezeAuthority } = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+  if (!mintAuthority) throw cliError(`The mint authority of ${mint.toBase58()} has been revoked; no more can be issued.`, EXIT_CODES.policyRefused);
+  const record: IssuanceRecord = { id: ledger.issuances.length + 1, recipient, amount: units.toString(), memo, status: 'pending', createdAt: new Date().toISOString() };
+
+  if (manifest.authority.mode === 'dao' && manifest.authority.dao && mintAuthority.equals(new PublicKey(manifest.authority.dao))) {
+    const transactionIndex = await proposeDaoAction('mint-more', { recipient, amount, memo });
+    ledger.issuances.push({ ...record, status: 'proposed', transactionIndex: transactionIndex.toString() });
+    saveIssuanceLedger(ledger);
+    console.log(`Issuance #${record.id} of ${tokens(units)} awaits proposal #${transactionIndex}.`);
+    return ledger;
+  }
+
+  const treasury = new PublicKey(manifest.treasury);
+  const signerFor = (authority: PublicKey): AuthorityKey =>
+    authority.equals(treasury) ? loadTreasurySigner(treasury) : readUserAuthPublicKey()?.equals(authority) ? loadOrCreateUserAuth() : { publicKey: authority };
+  const signer = signerFor(mintAuthority);
+  const submitter = createSubmitter(manifest, connection);
+  const owner = new PublicKey(recipient);
+  const ata = findAssociatedTokenAddress(owner, mint);
+
+  // A new account starts frozen under DefaultAccountState=frozen, so the freeze authority thaws it first.
+  const thaw = manifest.extensions.defaultAccountState === 'frozen' && !(await connection.getAccountInfo(ata, 'confirmed'));
+  if (thaw && !freezeAuthority) throw new Error(`${recipient} has no token account yet, and new accounts start frozen with no freeze authority to thaw them.`);
+  const thawSigner = thaw && !freezeAuthority!.equals(mintAuthority) ? signerFor(freezeAuthority!) : null;
+  const tx = new Transaction().add(
+    createAssociatedTokenAccountIdempotentInstruction(submitter.feePayer, ata, owner, mint, TOKEN_2022_PROGRAM_ID),
+    ...(thaw ? [createThawAccountInstruction(ata, mint, freezeAuthority!, [], TOKEN_2022_PROGRAM_ID)] : []),
+    createMintToCheckedInstruction(mint, ata, mintAuthority, units, manifest.decimals, [], TOKEN_2022_PROGRAM_ID),
+    createMemoInstruction(memo, [mintAuthority])
+  );
+  record.intent = `Mint more #${record.id}: ${amount} ${manifest.symbol} to ${recipient}`;
+  ledger.issuances.push(record);
+  saveIssuanceLedger(ledger);
+  const signature = await journaledSend(connection, submitter, tx, thawSigner ? [signer, thawSigner] : [signer], 'mint-more', record.intent);
+  Object.assign(record, { status: 'minted', signature, mintedAt: new Date().toISOString() });
+  saveIssuanceLedger(ledger);
+  console.log(`Issuance #${record.id}: minted ${tokens(units)} to ${recipient}: ${getExplorerUrl('tx', signature)}`);
+  return ledger;
+}
+
+// Authority Management
+const AUTHORITY_ROLES: AuthorityRole[] = ['mint', 'freeze', 'transfer-fee-config', 'withheld-withdraw', 'close-mint', 'interest-rate', 'permanent-delegate', 'metadata-pointer', 'metadata-update'];
+
+// The SetAuthority type of every role but metadata-update, which the metadata program changes.
+const TOKEN_AUTHORITY_TYPES: Record<Exclude<AuthorityRole, 'metadata-update'>, AuthorityType> = {
+  mint: AuthorityType.MintTokens,
+  freeze: AuthorityType.FreezeAccount,
+  'transfer-fee-config': AuthorityType.TransferFeeConfig,
+  'withheld-withdraw': AuthorityType.WithheldWithdraw,
+  'close-mint': AuthorityType.CloseMint,
+  'interest-rate': AuthorityType.InterestRate,
+  'permanent-delegate': AuthorityType.PermanentDelegate,
+  'metadata-pointer': AuthorityType.MetadataPointer,
+};
+
+// Every authority on the mint, its extensions and its metadata. Roles of extensions the mint lacks are left out;
+// extensions store a revoked authority as the default public key.
+async function listAuthorities(connection: Connection, mint: PublicKey): Promise<AuthorityInfo[]> {
+  const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+  const holder = (key: PublicKey | null | undefined) => (key && !key.equals(PublicKey.default) ? key.toBase58() : null);
+  const token = (role: AuthorityRole, key: PublicKey | null | undefined): AuthorityInfo => ({ role, holder: holder(key), program: 'token-2022' });
+  const authorities = [token('mint', mintInfo.mintAuthority), token('freeze', mintInfo.freezeAuthority)];
+
+  const transferFee = getTransferFeeConfig(mintInfo);
+  if (transferFee) authorities.push(token('transfer-fee-config', transferFee.transferFeeConfigAuthority), token('withheld-withdraw', transferFee.withdrawWithheldAuthority));
+  const closeAuthority = getMintCloseAuthority(mintInfo);
+  if (closeAuthority) authorities.push(token('close-mint', closeAuthority.closeAuthority));
+  const interest = getInterestBearingMintConfigState(mintInfo);
+  if (interest) authorities.push(token('interest-rate', interest.rateAuthority));
+  const delegate = getPermanentDelegate(mintInfo);
+  if (delegate) authorities.push(token('permanent-delegate', delegate.delegate));
+  const pointer = getMetadataPointerState(mintInfo);
+  if (pointer) authorities.push(token('metadata-pointer', pointer.authority));
+
+  if (pointer?.metadataAddress?.equals(mint)) {
+    const metadata = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID).catch(() => null);
+    if (metadata) authorities.push(token('metadata-update', metadata.updateAuthority));
+  } else {
+    const metadataInfo = await connection.getAccountInfo(findMetadataPda(mint));
+    if (metadataInfo) authorities.push({ role: 'metadata-update', holder: decodeMetaplexMetadata(metadataInfo.data).updateAuthority.toBase58(), program: 'metaplex' });
+  }
+  return authorities;
+}
+
+async function printAuthorities(): Promise<AuthorityInfo[]> {
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const authorities = await listAuthorities(getConnection(), mint);
+  const userAuth = readUserAuthPublicKey()?.toBase58();
+  const width = Math.max(...authorities.map((a) => a.role.length));
+  console.log(`\n🔑 Authorities of ${mint.toBase58()}:`);
+  for (const a of authorities) {
+    console.log(`   ${a.role.padEnd(width)}  ${a.holder ?? 'revoked'}${a.holder && a.holder === userAuth ? ' (USER_AUTH)' : ''}`);
+  }
+  return authorities;
+}
+
+// Irreversible changes need the mint address typed back, or passed with --confirm-mint; --yes is not enough.
+async function confirmMintAddress(mint: PublicKey, warning: string): Promise<boolean> {
+  const flagIndex = process.argv.indexOf('--confirm-mint');
+  if (flagIndex !== -1) return process.argv[flagIndex + 1] === mint.toBase58();
+  if (!process.stdin.isTTY) throw cliError(`${warning} Pass --confirm-mint <mint address> to confirm non-interactively.`, EXIT_CODES.notConfirmed);
+  console.warn(`⚠️  ${warning}`);
+  return (await askQuestion(`Type the mint address ${mint.toBase58()} to confirm: `)).trim() === mint.toBase58();
+}
+
+// Adds the instruction moving one authority from its holder to next, or revoking it when next is null. A Metaplex
+// update authority cannot be revoked; its metadata can only be made immutable.
+function addAuthorityChange(tx: Transaction, mint: PublicKey, authority: AuthorityInfo, holder: PublicKey, next: PublicKey | null): void {
+  if (authority.role !== 'metadata-update') {
+    tx.add(createSetAuthorityInstruction(mint, holder, TOKEN_AUTHORITY_TYPES[authority.role], next, [], TOKEN_2022_PROGRAM_ID));
+  } else if (authority.program === 'token-2022') {
+    tx.add(createUpdateAuthorityInstruction({ programId: TOKEN_2022_PROGRAM_ID, metadata: mint, oldAuthority: holder, newAuthority: next }));
+  } else {
+    if (!next) throw cliError('A Metaplex update authority cannot be revoked, only rotated.', EXIT_CODES.usage);
+    tx.add(createUpdateMetaplexMetadataInstruction({ metadata: findMetadataPda(mint), updateAuthority: holder, newUpdateAuthority: next }));
+  }
+}
+
+// Rotates one authority held by USER_AUTH to next, or revokes it (next null) after the typed mint confirmation.
+// Authorities already handed to the DAO vault change through proposals instead.
+async function changeAuthority(role: AuthorityRole, next: PublicKey | null): Promise<AuthorityInfo> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const authority = (await listAuthorities(connection, mint)).find((a) => a.role === role);
+  if (!authority) throw cliError(`Mint ${mint.toBase58()} has no ${role} authority.`, EXIT_CODES.usage);
+  if (!authority.holder) throw new Error(`The ${role} authority of ${mint.toBase58()} is already revoked.`);
+  if (authority.holder !== userAuth.publicKey.toBase58()) {
+    throw new Error(`The ${role} authority is held by ${authority.holder}, not USER_AUTH ${userAuth.publicKey.toBase58()}; it can only be changed by its holder.`);
+  }
+  if (next?.toBase58() === authority.holder) {
+    console.log(`✅ The ${role} authority is already ${authority.holder}.`);
+    return authority;
+  }
+  if (!next && !(await confirmMintAddress(mint, `Revoking the ${role} authority of ${mint.toBase58()} is irreversible.`))) {
+    throw cliError('Revocation cancelled: the mint address did not match.', EXIT_CODES.notConfirmed);
+  }
+
+  const tx = new Transaction();
+  addAuthorityChange(tx, mint, authority, userAuth.publicKey, next);
+  const intent = next ? `Rotate ${role} authority to ${next.toBase58()}` : `Revoke ${role} authority`;
+  const signature = await journaledSend(connection, submitter, tx, [userAuth], next ? 'rotate-authority' : 'revoke-authority', intent);
+  console.log(`✅ ${intent}: ${getExplorerUrl('tx', signature)}`);
+  if (!next) await emitEvent('irreversible', { action: 'revoke-authority', roles: [role], mint: mint.toBase58(), signatures: [signature] });
+  return { ...authority, holder: next ? next.toBase58() : null };
+}
+
+function parseAuthorityRole(role: string | undefined, command: string): AuthorityRole {
+  if (!AUTHORITY_ROLES.includes(role as AuthorityRole)) throw cliError(`Usage: ${COMMANDS[command].usage} (roles: ${AUTHORITY_ROLES.join(', ')})`, EXIT_CODES.usage);
+  return role as AuthorityRole;
+}
+
+async function manageAuthorities(): Promise<void> {
+  await printAuthorities();
+  console.log('\n🔑 Authorities:');
+  console.log('1. Rotate an authority to another key');
+  console.log('2. Revoke an authority (irreversible)');
+  console.log('3. Back');
+  const choice = await askQuestion('Select an action (1-3): ');
+
+  switch (choice) {
+    case '1': {
+      const role = parseAuthorityRole(await askQuestion(`Role (${AUTHORITY_ROLES.join(', ')}): `), 'rotate-authority');
+      const next = await askQuestion('New authority: ');
+      if (!isPublicKey(next)) throw new Error(`${next} is not a public key.`);
+      await changeAuthority(role, new PublicKey(next));
+      break;
     }
+    case '2':
+      await changeAuthority(parseAuthorityRole(await askQuestion(`Role (${AUTHORITY_ROLES.join(', ')}): `), 'revoke-authority'), null);
+      break;
+    case '3':
+      break;
+    default:
+      console.log('❌ Invalid choice.');
   }
-  throw new Error('Relayer unreachable');
 }
 
-async function createTokenMint(): Promise<PublicKey> {
-  const connection = new Connection(process.env.RPC_URL!, 'confirmed');
+// DAO Governance
+// Checks that authority.dao is a vault of a live Squads multisig with a usable threshold.
+async function loadDaoMultisig(connection: Connection, policy: AuthorityPolicy): Promise<{ multisigPda: PublicKey; vault: PublicKey; vaultIndex: number; account: multisig.accounts.Multisig }> {
+  if (policy.mode !== 'dao' || !policy.dao || !policy.multisig) throw new Error('Manifest authority.mode is not dao.');
+  const multisigPda = new PublicKey(policy.multisig);
+  const vault = new PublicKey(policy.dao);
+  const vaultIndex = policy.vaultIndex ?? 0;
+
+  const info = await connection.getAccountInfo(multisigPda);
+  if (!info) throw new Error(`Multisig account ${multisigPda.toBase58()} not found.`);
+  if (!info.owner.equals(multisig.PROGRAM_ID)) throw new Error(`${multisigPda.toBase58()} is owned by ${info.owner.toBase58()}, not the Squads program.`);
+  let account: multisig.accounts.Multisig;
+  try {
+    [account] = multisig.accounts.Multisig.fromAccountInfo(info);
+  } catch (e) {
+    throw new Error(`${multisigPda.toBase58()} is not a Squads multisig account: ${errorMessage(e)}`);
+  }
+
+  const [expectedVault] = multisig.getVaultPda({ multisigPda, index: vaultIndex });
+  if (!expectedVault.equals(vault)) {
+    throw new Error(`authority.dao ${vault.toBase58()} is not vault #${vaultIndex} of multisig ${multisigPda.toBase58()} (expected ${expectedVault.toBase58()}).`);
+  }
+  if (account.threshold < 1 || account.members.length < account.threshold) {
+    throw new Error(`Multisig ${multisigPda.toBase58()} has an unusable threshold of ${account.threshold} with ${account.members.length} member(s).`);
+  }
+  return { multisigPda, vault, vaultIndex, account };
+}
+
+function requireMemberPermission(account: multisig.accounts.Multisig, member: PublicKey, permission: multisig.types.Permission, label: string): void {
+  const entry = account.members.find((m) => m.key.equals(member));
+  if (!entry || !multisig.types.Permissions.has(entry.permissions, permission)) {
+    throw new Error(`${member.toBase58()} is not a multisig member with ${label} permission.`);
+  }
+}
+
+function loadDaoProposals(): DaoProposalRecord[] {
+  const proposalsPath = path.join(getCacheDir(), 'proposals.json');
+  return fs.existsSync(proposalsPath) ? JSON.parse(fs.readFileSync(proposalsPath, 'utf-8')) : [];
+}
+
+function saveDaoProposals(proposals: DaoProposalRecord[]): void {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'proposals.json'), JSON.stringify(proposals, null, 2));
+}
+
+// Builds the instructions the vault executes for a post-handoff action, plus any setup the fee payer can do directly.
+// A metadata update starts from the metadata on-chain and previews its change before anything is proposed.
+async function buildDaoActionInstructions(connection: Connection, manifest: TokenManifest, mint: PublicKey, vault: PublicKey, feePayer: PublicKey, action: DaoAction, params: Record<string, string>): Promise<{ setup: TransactionInstruction[]; inner: TransactionInstruction[] }> {
+  switch (action) {
+    case 'mint-more': {
+      if (!isPublicKey(params.recipient) || !isWholeAmount(params.amount)) throw new Error('mint-more needs a recipient public key and a whole-token amount.');
+      const recipient = new PublicKey(params.recipient);
+      const ata = findAssociatedTokenAddress(recipient, mint);
+      return {
+        setup: [createAssociatedTokenAccountIdempotentInstruction(feePayer, ata, recipient, mint, TOKEN_2022_PROGRAM_ID), ...(params.memo ? [createMemoInstruction(params.memo, [])] : [])],
+        inner: [createMintToCheckedInstruction(mint, ata, vault, toBaseUnits(params.amount, manifest.decimals), manifest.decimals, [], TOKEN_2022_PROGRAM_ID)],
+      };
+    }
+    case 'update-metadata': {
+      const uri = params.uri;
+      if (!uri) throw new Error('update-metadata needs the published metadata URI.');
+      const upToDate = (label: string) => new Error(`The ${label} already matches the manifest; there is nothing to propose.`);
+      if (manifest.extensions.metadataPointer) {
+        const label = `native metadata of ${mint.toBase58()}`;
+        const current = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+        if (!current) throw new Error(`Mint ${mint.toBase58()} has no native token metadata.`);
+        const fields = { name: manifest.name, symbol: manifest.symbol, uri };
+        const changed = (await previewMetadataChange(label, { name: current.name, symbol: current.symbol, uri: current.uri }, fields, !!current.updateAuthority)) as (keyof typeof fields)[];
+        if (changed.length === 0) throw upToDate(label);
+        // A longer field grows the mint account, so the fee payer tops up its rent before the vault writes.
+        const mintInfo = await connection.getAccountInfo(mint, 'confirmed');
+        if (!mintInfo) throw new Error('Mint not found.');
+        const growth = pack({ ...current, ...fields }).length - pack(current).length;
+        const required = await connection.getMinimumBalanceForRentExemption(mintInfo.data.length + Math.max(growth, 0));
+        return {
+          setup: required > mintInfo.lamports ? [SystemProgram.transfer({ fromPubkey: feePayer, toPubkey: mint, lamports: required - mintInfo.lamports })] : [],
+          inner: changed.map((field) => createUpdateFieldInstruction({ programId: TOKEN_2022_PROGRAM_ID, metadata: mint, updateAuthority: vault, field, value: fields[field] })),
+        };
+      }
+      const label = `Metaplex metadata of ${mint.toBase58()}`;
+      const metadataInfo = await connection.getAccountInfo(findMetadataPda(mint), 'confirmed');
+      if (!metadataInfo) throw new Error(`Mint ${mint.toBase58()} has no Metaplex metadata. Run set-metadata first.`);
+      const current = decodeMetaplexMetadata(metadataInfo.data);
+      const data = buildMetaplexData(manifest, uri, vault, current);
+      if ((await previewMetadataChange(label, metaplexFields(current), metaplexFields(data), current.isMutable)).length === 0) throw upToDate(label);
+      return {
+        setup: [],
+        inner: [createUpdateMetaplexMetadataInstruction({ metadata: findMetadataPda(mint), updateAuthority: vault, data })],
+      };
+    }
+    case 'set-transfer-fee': {
+      const bps = Number(params.feeBasisPoints);
+      if (!Number.isInteger(bps) || bps < 0 || bps > 10000 || !isWholeAmount(params.maxFee)) throw new Error('set-transfer-fee needs feeBasisPoints (0-10000) and a whole-token maxFee.');
+      return {
+        setup: [],
+        inner: [createSetTransferFeeInstruction(mint, vault, [], bps, toBaseUnits(params.maxFee, manifest.decimals), TOKEN_2022_PROGRAM_ID)],
+      };
+    }
+  }
+}
+
+// Wraps a post-handoff action in a Squads vault transaction and opens a proposal for it, with USER_AUTH as creator.
+async function proposeDaoAction(action: DaoAction, params: Record<string, string>): Promise<bigint> {
+  const manifest = loadManifest();
+  const connection = getConnection();
   const userAuth = loadOrCreateUserAuth();
-  const relayerPubkey = new PublicKey(process.env.RELAYER_PUBKEY!);
-  const cacheDir = path.join(__dirname, '.cache');
-  const mintCachePath = path.join(cacheDir, 'mint.json');
+  const submitter = createSubmitter(manifest, connection);
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
 
-  if (fs.existsSync(mintCachePath)) {
-    const mint = JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint;
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const dao = await loadDaoMultisig(connection, manifest.authority);
+  requireMemberPermission(dao.account, userAuth.publicKey, multisig.types.Permission.Initiate, 'Initiate');
+
+  if (action === 'update-metadata' && !params.uri) params = { ...params, uri: await resolveMetadataUri(manifest) };
+  const { setup, inner } = await buildDaoActionInstructions(connection, manifest, mint, dao.vault, submitter.feePayer, action, params);
+  const transactionIndex = BigInt(dao.account.transactionIndex.toString()) + BigInt(1);
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const transactionMessage = new TransactionMessage({ payerKey: dao.vault, recentBlockhash: blockhash, instructions: inner });
+
+  const tx = new Transaction().add(
+    ...setup,
+    multisig.instructions.vaultTransactionCreate({
+      multisigPda: dao.multisigPda,
+      transactionIndex,
+      creator: userAuth.publicKey,
+      rentPayer: submitter.feePayer,
+      vaultIndex: dao.vaultIndex,
+      ephemeralSigners: 0,
+      transactionMessage,
+      memo: action,
+    }),
+    multisig.instructions.proposalCreate({ multisigPda: dao.multisigPda, creator: userAuth.publicKey, rentPayer: submitter.feePayer, transactionIndex })
+  );
+  const signature = await journaledSend(connection, submitter, tx, [userAuth], 'dao-propose', `Propose ${action} as multisig transaction #${transactionIndex}`);
+
+  const proposals = loadDaoProposals();
+  proposals.push({ transactionIndex: transactionIndex.toString(), action, params, createdAt: new Date().toISOString(), signature });
+  saveDaoProposals(proposals);
+  console.log(`Proposal #${transactionIndex} (${action}) created: ${signature}`);
+  return transactionIndex;
+}
+
+// Exports one transaction holding the approvals of several members, for each of them to sign offline.
+async function exportProposalApproval(transactionIndex: bigint, members: PublicKey[] = []): Promise<string> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const submitter = createSubmitter(manifest, connection);
+  const dao = await loadDaoMultisig(connection, manifest.authority);
+
+  const voters = dao.account.members.filter((m) => multisig.types.Permissions.has(m.permissions, multisig.types.Permission.Vote)).map((m) => m.key);
+  const signers = members.length ? members : voters.slice(0, dao.account.threshold);
+  for (const member of signers) requireMemberPermission(dao.account, member, multisig.types.Permission.Vote, 'Vote');
+
+  const tx = new Transaction().add(...signers.map((member) => multisig.instructions.proposalApprove({ multisigPda: dao.multisigPda, transactionIndex, member })));
+  const sends: PendingSend[] = [
+    { tx, signers: signers.map((publicKey) => ({ publicKey })), step: 'dao-approve', intent: `Approve multisig transaction #${transactionIndex} (${signers.length} member(s))` },
+  ];
+  if (useDurableNonces(manifest)) await attachDurableNonces(connection, submitter, sends);
+  const filePath = await exportOfflineBundle(connection, submitter, sends);
+  console.log(`Exported approval of proposal #${transactionIndex} for ${signers.length} member(s).`);
+  console.log(`Each member signs it with \`sign ${filePath} --keypair <path>\`, then import it with \`import ${filePath}\`.`);
+  return filePath;
+}
+
+async function executeDaoProposal(transactionIndex: bigint): Promise<string> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const dao = await loadDaoMultisig(connection, manifest.authority);
+  requireMemberPermission(dao.account, userAuth.publicKey, multisig.types.Permission.Execute, 'Execute');
+
+  const [proposalPda] = multisig.getProposalPda({ multisigPda: dao.multisigPda, transactionIndex });
+  const proposal = await multisig.accounts.Proposal.fromAccountAddress(connection, proposalPda);
+  if (proposal.status.__kind !== 'Approved') throw new Error(`Proposal #${transactionIndex} is ${proposal.status.__kind}, not Approved.`);
+
+  const { instruction } = await multisig.instructions.vaultTransactionExecute({ connection, multisigPda: dao.multisigPda, transactionIndex, member: userAuth.publicKey });
+  const signature = await journaledSend(connection, submitter, new Transaction().add(instruction), [userAuth], 'dao-execute', `Execute multisig transaction #${transactionIndex}`);
+  console.log(`Proposal #${transactionIndex} executed: ${signature}`);
+  return signature;
+}
+
+async function printDaoStatus(connection: Connection, manifest: TokenManifest): Promise<void> {
+  const dao = await loadDaoMultisig(connection, manifest.authority);
+  console.log(`✅ DAO: vault ${dao.vault.toBase58()}, multisig ${dao.multisigPda.toBase58()} (${dao.account.threshold} of ${dao.account.members.length})`);
+  for (const record of loadDaoProposals()) {
+    const [proposalPda] = multisig.getProposalPda({ multisigPda: dao.multisigPda, transactionIndex: BigInt(record.transactionIndex) });
+    const status = await multisig.accounts.Proposal.fromAccountAddress(connection, proposalPda).then((p) => p.status.__kind, () => 'Unknown');
+    console.log(`   Proposal #${record.transactionIndex} ${record.action}: ${status}`);
+  }
+}
+
+async function manageDaoProposals(): Promise<void> {
+  console.log('\n🏛️  DAO Proposals:');
+  console.log('1. Propose mint-more');
+  console.log('2. Propose update-metadata (from manifest)');
+  console.log('3. Propose set-transfer-fee');
+  console.log('4. Export approvals for offline signing');
+  console.log('5. Sign an exported approval bundle');
+  console.log('6. Import a signed approval bundle');
+  console.log('7. Execute an approved proposal');
+  const choice = await askQuestion('Select an action (1-7): ');
+
+  switch (choice) {
+    case '1':
+      await mintMore(await askQuestion('Recipient: '), await askQuestion('Amount (whole tokens): '), await askQuestion('Justification memo: '));
+      break;
+    case '2':
+      await proposeDaoAction('update-metadata', {});
+      break;
+    case '3':
+      await proposeDaoAction('set-transfer-fee', { feeBasisPoints: await askQuestion('Fee (basis points): '), maxFee: await askQuestion('Max fee (whole tokens): ') });
+      break;
+    case '4': {
+      const index = BigInt(await askQuestion('Proposal number: '));
+      const members = (await askQuestion('Signing members (comma-separated, blank for the first threshold voters): ')).split(',').map((m) => m.trim()).filter(Boolean);
+      await exportProposalApproval(index, members.map((m) => new PublicKey(m)));
+      break;
+    }
+    case '5':
+      await signOfflineBundle(await askQuestion('Approval bundle: '), loadKeypairFile(await askQuestion('Member keypair file: ')));
+      break;
+    case '6':
+      await importOfflineBundle(await askQuestion('Approval bundle: '));
+      break;
+    case '7':
+      await executeDaoProposal(BigInt(await askQuestion('Proposal number: ')));
+      break;
+    default:
+      console.log('❌ Invalid choice.');
+  }
+}
+
+// Harvests withheld transfer fees from every holder account (and the mint) into the treasury ATA.
+async function withdrawWithheldFees(): Promise<void> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const userAuth = loadOrCreateUserAuth();
+  const submitter = createSubmitter(manifest, connection);
+  const feePayer = submitter.feePayer;
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+
+  if (!manifest.extensions.transferFee) throw new Error('Manifest does not enable the transferFee extension.');
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+
+  const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+  const feeConfig = getTransferFeeConfig(mintInfo);
+  if (!feeConfig) throw new Error(`Mint ${mint.toBase58()} has no TransferFeeConfig extension.`);
+  if (!feeConfig.withdrawWithheldAuthority.equals(userAuth.publicKey)) {
+    throw new Error(`Withdraw authority is ${feeConfig.withdrawWithheldAuthority.toBase58()}, not USER_AUTH. Sign the withdrawal with that key instead.`);
+  }
+
+  const accounts = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+    commitment: 'confirmed',
+    filters: [{ memcmp: { offset: 0, bytes: mint.toBase58() } }],
+  });
+  const sources = accounts
+    .map(({ pubkey, account }) => ({ pubkey, withheld: getTransferFeeAmount(unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID))?.withheldAmount ?? BigInt(0) }))
+    .filter((a) => a.withheld > BigInt(0));
+  const destination = findAssociatedTokenAddress(new PublicKey(manifest.treasury), mint);
+
+  const groups: TransactionInstruction[][] = [];
+  if (feeConfig.withheldAmount > BigInt(0)) {
+    groups.push([createWithdrawWithheldTokensFromMintInstruction(mint, destination, userAuth.publicKey, [], TOKEN_2022_PROGRAM_ID)]);
+  }
+  // Up to 20 source accounts per instruction keeps each group well inside a packet.
+  for (let i = 0; i < sources.length; i += 20) {
+    const chunk = sources.slice(i, i + 20).map((a) => a.pubkey);
+    groups.push([createWithdrawWithheldTokensFromAccountsInstruction(mint, destination, userAuth.publicKey, [], chunk, TOKEN_2022_PROGRAM_ID)]);
+  }
+  if (groups.length === 0) {
+    console.log('No withheld transfer fees to withdraw.');
+    return;
+  }
+
+  const total = sources.reduce((sum, a) => sum + a.withheld, feeConfig.withheldAmount);
+  const sends = packInstructions(feePayer, userAuth.publicKey, groups).map((tx) => ({ tx, signers: [userAuth], step: 'withdraw-fees', intent: 'Withdraw withheld transfer fees' }));
+  for (const signature of await journaledSendAll(connection, submitter, sends)) {
+    console.log(`Withdrew withheld fees: ${signature}`);
+  }
+  console.log(`Withdrew ${total} base units of withheld fees from ${sources.length} account(s) to ${destination.toBase58()}`);
+}
+
+// On-chain authorities a key still holds in the deployments on the active cluster (USER_AUTH is shared by all of them):
+// mint and metadata authorities, lookup tables it can extend and nonce accounts whose rent only it can withdraw.
+async function findHeldAuthorities(connection: Connection, key: PublicKey): Promise<string[]> {
+  const held: string[] = [];
+  const cluster = getClusterName();
+  const root = getCacheRoot();
+  if (!fs.existsSync(root)) return held;
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    const namespaceCluster = CLUSTERS.find((c) => c !== 'mainnet' && entry.name.endsWith(`.${c}`)) ?? 'mainnet';
+    if (!entry.isDirectory() || entry.name.endsWith('.dry-run') || namespaceCluster !== cluster) continue;
+    const read = (file: string) => {
+      const filePath = path.join(root, entry.name, file);
+      return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : null;
+    };
+    const mintRecord = read('mint.json');
+    if (mintRecord && (await connection.getAccountInfo(new PublicKey(mintRecord.mint)))) {
+      for (const authority of await listAuthorities(connection, new PublicKey(mintRecord.mint))) {
+        if (authority.holder === key.toBase58()) held.push(`${entry.name}: ${authority.role} authority of ${mintRecord.mint}`);
+      }
+    }
+    const table: LookupTableRecord | null = read('lookup-table.json');
+    if (table && (await connection.getAddressLookupTable(new PublicKey(table.address))).value?.state.authority?.equals(key)) {
+      held.push(`${entry.name}: lookup table ${table.address}`);
+    }
+    const nonces: NonceAccountRecord[] = read('nonces.json') ?? [];
+    for (const nonce of nonces.filter((n) => n.authority === key.toBase58())) {
+      if (await connection.getAccountInfo(new PublicKey(nonce.address))) held.push(`${entry.name}: nonce account ${nonce.address}`);
+    }
+  }
+  return held;
+}
+
+// Refuses before touching anything while the USER_AUTH key it would delete still holds on-chain authorities. A
+// USER_AUTH on another signer (USER_AUTH_SIGNER) is not this copilot's to delete, so only a keystore in .cache/ is.
+async function rollback(): Promise<void> {
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  const mint = fs.existsSync(mintCachePath) ? JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint : null;
+  const userAuthPaths = getUserAuthSignerSpec().backend === 'keystore' ? Object.values(getUserAuthPaths()).filter((p) => fs.existsSync(p)) : [];
+  const userAuth = userAuthPaths.length ? readKeystorePublicKey() : null;
+  if (userAuth) {
+    const held = await findHeldAuthorities(getConnection(), userAuth);
+    if (held.length) {
+      throw cliError(`USER_AUTH ${userAuth.toBase58()} still holds on-chain authorities. Release them first (rotate-authority or revoke-authority, lookup-table freeze, closing nonce accounts from the menu):\n  ${held.join('\n  ')}`, EXIT_CODES.refused);
+    }
+  }
+
+  if (mint) {
+    const connection = getConnection();
+    const metadataPda = findMetadataPda(new PublicKey(mint));
     const mintInfo = await connection.getAccountInfo(new PublicKey(mint));
-    if (mintInfo) {
-      console.log(`Mint already exists: ${mint}`);
-      return new PublicKey(mint);
+    const metadataInfo = await connection.getAccountInfo(metadataPda);
+
+    console.log(`Mint exists: ${mintInfo ? 'Yes' : 'No'}`);
+    console.log(`Metadata exists: ${metadataInfo ? 'Yes' : 'No'}`);
+    console.log('Note: On-chain data (mint, metadata) cannot be deleted. Delete cache to restart.');
+
+    fs.unlinkSync(mintCachePath);
+    console.log('Deleted mint cache.');
+  }
+  // The journal, allocation status, issuance ledger and metadata history describe the old mint; archive them so the next run starts clean.
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const archived = [];
+  for (const file of ['journal.json', 'allocations.json', 'issuance.json', 'metadata-history.json']) {
+    const filePath = path.join(getCacheDir(), file);
+    if (fs.existsSync(filePath)) {
+      fs.renameSync(filePath, filePath.replace(/\.json$/, `.${stamp}.json`));
+      console.log(`Archived ${file}.`);
+      archived.push(file);
+    }
+  }
+  for (const userAuthPath of userAuthPaths) {
+    fs.unlinkSync(userAuthPath);
+    console.log(`Deleted user auth cache (${path.basename(userAuthPath)}).`);
+  }
+  if (getUserAuthSignerSpec().backend !== 'keystore') console.log(`USER_AUTH stays on ${process.env.USER_AUTH_SIGNER}; nothing deleted there.`);
+  await emitEvent('irreversible', { action: 'rollback', mint, archived, deletedUserAuth: userAuthPaths.map((p) => path.basename(p)) });
+  console.log('Rollback complete. Run `npm run mainnet:copilot` to restart deployment.');
+}
+
+// Project Scaffolding
+const PROJECT_DEPENDENCIES = {
+  '@solana/web3.js': '^1.95.3',
+  '@solana/spl-token': '^0.4.8',
+  '@solana/spl-token-metadata': '^0.1.6',
+  '@sqds/multisig': '^2.1.4',
+  '@irys/upload': '^0.0.15',
+  '@irys/upload-solana': '^0.1.8',
+  '@aws-sdk/client-s3': '^3.600.0',
+  'bs58': '^6.0.0',
+  'dotenv': '^16.4.5',
+};
+
+function renderManifest(params: ScaffoldParams): TokenManifest {
+  const { template, name, symbol, decimals, supply, treasury } = params;
+  return {
+    version: MANIFEST_VERSION,
+    name,
+    symbol,
+    decimals,
+    supply,
+    treasury,
+    recipients: [{ label: 'treasury', address: treasury, percent: 100 }],
+    metadata: { description: `${name} (${symbol})`, image: 'https://<site>/logo.png', external_url: 'https://<site>', attributes: [] },
+    authority: template === 'dao' ? { mode: 'dao', dao: params.dao!, multisig: params.multisig! } : { mode: 'null' },
+    // Nothing beyond the initial supply until the DAO raises maxSupply.
+    ...(template === 'dao' ? { mintPolicy: { maxSupply: supply } } : {}),
+    // Native metadata without storage, as in DEFAULT_MANIFEST.
+    extensions: template === 'fee-bearing' ? { transferFee: { feeBasisPoints: params.feeBasisPoints!, maxFee: params.maxFee!, withdrawAuthority: treasury }, metadataPointer: {} } : { metadataPointer: {} },
+  };
+}
+
+// Every file init renders, by path relative to the project root.
+function renderProjectFiles(params: ScaffoldParams, manifestFile: string): Record<string, string> {
+  const run = (command = '') => `ts-node grok.copilot.ts${command && ` ${command}`}`;
+  const scripts: Record<string, string> = {
+    'mainnet:copilot': run(),
+    'mainnet:all': run('deploy'),
+    'devnet:deploy': run('deploy --cluster devnet'),
+    verify: run('verify'),
+    check: run('init --check'),
+    test: 'node --require ts-node/register --test tests/*.test.ts',
+  };
+  if (params.template === 'fee-bearing') scripts['withdraw-fees'] = run('withdraw-fees');
+  if (params.template === 'dao') scripts['mint-more'] = run('mint-more');
+  const packageJson = {
+    name: path.basename(__dirname).toLowerCase().replace(/[^a-z0-9-]+/g, '-'),
+    version: '1.0.0',
+    private: true,
+    scripts,
+    dependencies: PROJECT_DEPENDENCIES,
+    devDependencies: { '@types/node': '^22.7.4', 'ts-node': '^10.9.2', 'typescript': '^5.6.2' },
+  };
+  const tsconfig = {
+    compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, outDir: './dist', rootDir: '.' },
+    include: ['grok.copilot.ts', 'tests/**/*.ts'],
+  };
+  return {
+    [manifestFile]: JSON.stringify(renderManifest(params), null, 2) + '\n',
+    ...ENV_SAMPLES,
+    '.gitignore': GITIGNORE,
+    'package.json': JSON.stringify(packageJson, null, 2) + '\n',
+    'tsconfig.json': JSON.stringify(tsconfig, null, 2) + '\n',
+    'README.md': PROJECT_README,
+    'tests/token.test.ts': STARTER_TEST,
+  };
+}
+
+// The template and parameters an existing manifest was rendered from, so the other files can be rendered again.
+function scaffoldParamsFromManifest(manifest: TokenManifest): ScaffoldParams {
+  const { name, symbol, decimals, supply, treasury, authority, extensions } = manifest;
+  if (authority.mode === 'dao') return { template: 'dao', name, symbol, decimals, supply, treasury, dao: authority.dao, multisig: authority.multisig };
+  if (extensions.transferFee) return { template: 'fee-bearing', name, symbol, decimals, supply, treasury, feeBasisPoints: extensions.transferFee.feeBasisPoints, maxFee: extensions.transferFee.maxFee };
+  return { template: 'simple', name, symbol, decimals, supply, treasury };
+}
+
+// A line diff, as - and + lines with the unchanged lines left out.
+function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+  }
+  const lines: string[] = [];
+  for (let i = 0, j = 0; i < a.length || j < b.length; ) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  return lines;
+}
+
+// Writes the files that are missing and compares the rest with what the template renders now. A file that differs
+// has drifted and is reported with its diff, never overwritten. The manifest is yours to edit once written, so it is
+// only kept. With check, nothing is written.
+function scaffoldProject(rootDir: string, manifestPath: string, params: ScaffoldParams, check: boolean): ScaffoldFile[] {
+  const manifestFile = path.relative(rootDir, manifestPath);
+  return Object.entries(renderProjectFiles(params, manifestFile)).map(([file, content]): ScaffoldFile => {
+    const filePath = path.join(rootDir, file);
+    if (!fs.existsSync(filePath)) {
+      if (check) return { file, status: 'missing' };
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+      return { file, status: 'created' };
+    }
+    // The manifest and README are the project's own once written; the rest should track the template.
+    if (file === manifestFile || file === 'README.md') return { file, status: 'kept' };
+    const current = fs.readFileSync(filePath, 'utf-8');
+    return current === content ? { file, status: 'unchanged' } : { file, status: 'drifted', diff: diffLines(current, content) };
+  });
+}
+
+// Takes the parameters of a new project from the flags, asking on a terminal for the ones not given.
+async function askScaffoldParams(templateArg: string | undefined): Promise<ScaffoldParams> {
+  const interactive = !!process.stdin.isTTY;
+  const ask = async (flag: string, question: string, fallback?: string): Promise<string> => {
+    const flagIndex = process.argv.indexOf(flag);
+    if (flagIndex !== -1) return process.argv[flagIndex + 1];
+    if (interactive) return (await askQuestion(`${question}${fallback ? ` [${fallback}]` : ''}: `)).trim() || fallback || '';
+    if (fallback === undefined) throw cliError(`${flag} is required without a terminal.`, EXIT_CODES.usage);
+    return fallback;
+  };
+  const templates = Object.keys(PROJECT_TEMPLATES) as ProjectTemplate[];
+  if (!templateArg && interactive) templates.forEach((t) => console.log(`  ${t}: ${PROJECT_TEMPLATES[t]}`));
+  const template = (templateArg ?? (interactive ? (await askQuestion(`Template (${templates.join(', ')}) [simple]: `)).trim() || 'simple' : 'simple')) as ProjectTemplate;
+  if (!templates.includes(template)) throw cliError(`Unknown template "${template}": use one of ${templates.join(', ')}.`, EXIT_CODES.usage);
+
+  const params: ScaffoldParams = {
+    template,
+    name: await ask('--name', 'Token name', 'My Token'),
+    symbol: await ask('--symbol', 'Symbol', 'TOKEN'),
+    decimals: Number(await ask('--decimals', 'Decimals', '9')),
+    supply: await ask('--supply', 'Supply in whole tokens', '1000000000'),
+    treasury: await ask('--treasury', 'Treasury owner address'),
+  };
+  if (template === 'fee-bearing') {
+    params.feeBasisPoints = Number(await ask('--fee-bps', 'Transfer fee in basis points', '50'));
+    params.maxFee = await ask('--max-fee', 'Maximum fee per transfer in whole tokens', '1000');
+  }
+  if (template === 'dao') {
+    params.dao = await ask('--dao', 'Squads vault address');
+    params.multisig = await ask('--multisig', 'Squads multisig address');
+  }
+  const errors = validateManifest(renderManifest(params));
+  if (errors.length) throw cliError(`Invalid ${template} project:\n  - ${errors.join('\n  - ')}`, EXIT_CODES.usage);
+  return params;
+}
+
+// init: renders a new project from a template, or, for an existing manifest, reports the files that drifted from it.
+async function initProject(templateArg: string | undefined): Promise<{ template: ProjectTemplate; files: ScaffoldFile[] }> {
+  const check = process.argv.includes('--check');
+  const manifestPath = getManifestPath();
+  let params: ScaffoldParams;
+  if (fs.existsSync(manifestPath)) {
+    params = scaffoldParamsFromManifest(loadManifest());
+    if (templateArg && templateArg !== params.template) console.warn(`⚠️  ${path.basename(manifestPath)} is a ${params.template} manifest; rendering the project as ${params.template}, not ${templateArg}.`);
+  } else if (check) {
+    throw cliError(`No manifest at ${manifestPath} to check the project against; run init first.`, EXIT_CODES.config);
+  } else {
+    params = await askScaffoldParams(templateArg);
+  }
+
+  console.log(`\n📦 ${check ? 'Checking' : 'Scaffolding'} a ${params.template} project in ${__dirname}...`);
+  const files = scaffoldProject(__dirname, manifestPath, params, check);
+  for (const { file, status, diff } of files) {
+    if (status === 'created') console.log(`✅ Created ${file}`);
+    else if (status === 'kept') console.log(`📝 Kept ${file} (yours to edit)`);
+    else if (status === 'missing') console.log(`❌ Missing ${file}`);
+    else if (status === 'drifted') {
+      console.log(`⚠️  ${file} differs from the ${params.template} template (not overwritten):`);
+      for (const line of diff!.slice(0, 20)) console.log(`     ${line}`);
+      if (diff!.length > 20) console.log(`     ... ${diff!.length - 20} more lines`);
+    }
+  }
+  const unchanged = files.filter((f) => f.status === 'unchanged').length;
+  if (unchanged) console.log(`✅ ${unchanged} file(s) match the template.`);
+  if (check && files.some((f) => f.status === 'missing' || f.status === 'drifted')) process.exitCode = EXIT_CODES.verifyFailed;
+  if (files.some((f) => f.status === 'created')) {
+    console.log('\nNext: npm install, copy .env.sample to .env (and .env.<cluster>.sample to .env.<cluster>) and fill them in,');
+    console.log(`point metadata.image at the hosted token image, review ${path.basename(manifestPath)}, then run npm run mainnet:copilot.`);
+  }
+  return { template: params.template, files };
+}
+
+async function checkEnv(): Promise<boolean> {
+  const profile = getClusterProfile();
+  console.log(`✅ Cluster: ${profile.name} (${getRpcUrl()})`);
+  const connection = getConnection();
+  try {
+    const manifest = loadManifest();
+    console.log(`✅ Manifest valid: ${manifest.name} (${manifest.symbol}), treasury ${manifest.treasury}`);
+    const submitter = createSubmitter(manifest, connection);
+    console.log(`✅ Submitter: ${submitter.name}, fee payer ${submitter.feePayer.toBase58()}`);
+    if (manifest.storage) console.log(`✅ Metadata storage: ${createStorage(manifest).name}`);
+  } catch (e) {
+    console.error(errorMessage(e));
+    return false;
+  }
+  try {
+    const genesisHash = await connection.getGenesisHash();
+    if (process.env.DRY_RUN !== 'true' && profile.genesisHash && genesisHash !== profile.genesisHash) {
+      console.error(`RPC ${profile.rpcUrl} is not on ${profile.name} (genesis ${genesisHash}); fix RPC_URL in .env${profile.name === 'mainnet' ? '' : `.${profile.name}`}`);
+      return false;
+    }
+    console.log('✅ RPC connection successful');
+    return true;
+  } catch (e) {
+    console.error(`Failed to connect to RPC: ${errorMessage(e)}`);
+    return false;
+  }
+}
+
+function printExtensionStatus(mintInfo: Awaited<ReturnType<typeof getMint>>, nativeMetadata: TokenMetadata | null): void {
+  const types = getExtensionTypes(mintInfo.tlvData);
+  console.log(`✅ Extensions: ${types.length ? types.map((t) => ExtensionType[t]).join(', ') : 'None'}`);
+
+  const transferFee = getTransferFeeConfig(mintInfo);
+  if (transferFee) {
+    const fee = transferFee.newerTransferFee;
+    console.log(`   TransferFeeConfig: ${fee.transferFeeBasisPoints} bps, max ${fee.maximumFee} (from epoch ${fee.epoch})`);
+    console.log(`     Config authority: ${transferFee.transferFeeConfigAuthority.toBase58()}`);
+    console.log(`     Withdraw authority: ${transferFee.withdrawWithheldAuthority.toBase58()}, withheld on mint: ${transferFee.withheldAmount}`);
+  }
+  const pointer = getMetadataPointerState(mintInfo);
+  if (pointer) {
+    console.log(`   MetadataPointer: ${pointer.metadataAddress ? pointer.metadataAddress.toBase58() : 'null'} (authority ${pointer.authority ? pointer.authority.toBase58() : 'null'})`);
+  }
+  if (nativeMetadata) {
+    console.log(`   TokenMetadata: ${nativeMetadata.name} (${nativeMetadata.symbol}), update authority ${nativeMetadata.updateAuthority ? nativeMetadata.updateAuthority.toBase58() : 'null'}`);
+  }
+  const interest = getInterestBearingMintConfigState(mintInfo);
+  if (interest) {
+    console.log(`   InterestBearingConfig: ${interest.currentRate} bps (authority ${interest.rateAuthority.toBase58()})`);
+  }
+  if (getNonTransferable(mintInfo)) console.log('   NonTransferable: enabled');
+  const delegate = getPermanentDelegate(mintInfo);
+  if (delegate) console.log(`   PermanentDelegate: ${delegate.delegate.toBase58()}`);
+  const defaultState = getDefaultAccountState(mintInfo);
+  if (defaultState) console.log(`   DefaultAccountState: ${AccountState[defaultState.state]}`);
+}
+
+async function checkDeploymentStatus(): Promise<void> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  const treasuryPubkey = new PublicKey(manifest.treasury);
+
+  console.log('\n📊 Deployment Status:');
+  console.log(`   Deployment: ${getDeploymentName()} on ${getClusterName()} (all: ${listDeployments().join(', ') || 'none'})`);
+  const journal = loadJournal();
+  for (const entry of journal.entries.slice(-5)) {
+    console.log(`   #${entry.id} ${entry.step} [${entry.status}] ${entry.intent}${entry.signature ? ` ${entry.signature}` : ''}`);
+  }
+  await printNonceStatus(connection);
+  if (!fs.existsSync(mintCachePath)) {
+    console.log('❌ Mint not created. Select "Create mint" to start.');
+    return;
+  }
+
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  console.log(`✅ Mint Address: ${mint.toBase58()}`);
+  console.log(`   Explorer: ${getExplorerUrl('address', mint.toBase58())}`);
+
+  try {
+    const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    console.log(`✅ Mint Info: ${mintInfo.supply} tokens, Decimals: ${mintInfo.decimals}`);
+    console.log(`   Mint Authority: ${mintInfo.mintAuthority ? mintInfo.mintAuthority.toBase58() : 'null'}`);
+    console.log(`   Freeze Authority: ${mintInfo.freezeAuthority ? mintInfo.freezeAuthority.toBase58() : 'null'}`);
+
+    const treasuryAta = findAssociatedTokenAddress(treasuryPubkey, mint);
+    const ataBalance = await connection.getTokenAccountBalance(treasuryAta, 'confirmed');
+    console.log(`✅ Treasury ATA: ${treasuryAta.toBase58()}`);
+    console.log(`   Balance: ${ataBalance.value.uiAmountString} ${manifest.symbol}`);
+
+    const nativeMetadata = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID).catch(() => null);
+    if (manifest.extensions.metadataPointer) {
+      console.log(`✅ Metadata: ${nativeMetadata ? 'Set (native, on the mint)' : 'Not set'}`);
+    } else {
+      const metadataPda = findMetadataPda(mint);
+      const metadataInfo = await connection.getAccountInfo(metadataPda);
+      console.log(`✅ Metadata: ${metadataInfo ? 'Set' : 'Not set'}`);
+      if (metadataInfo) console.log(`   Metadata PDA: ${metadataPda.toBase58()}`);
     }
+
+    printExtensionStatus(mintInfo, nativeMetadata);
+    if (manifest.authority.mode === 'dao') await printDaoStatus(connection, manifest);
+  } catch (e) {
+    console.error(`Error checking status: ${errorMessage(e)}`);
   }
+}
+
+// The deployment status as data, for `status --json` and the results of the deploy commands.
+async function getDeploymentSummary(): Promise<Record<string, unknown>> {
+  const connection = getConnection();
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  const summary: Record<string, unknown> = {
+    deployment: getDeploymentName(),
+    cluster: getClusterName(),
+    manifest: getManifestPath(),
+    journal: loadJournal().entries.slice(-5).map(({ id, step, status, intent, signature }) => ({ id, step, status, intent, signature })),
+    nonceAccounts: loadNonceAccounts().map((n) => n.address),
+    mint: null,
+  };
+  if (!fs.existsSync(mintCachePath)) return summary;
+
+  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+  const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+  // Native metadata lives on the mint under a metadata pointer; otherwise it is a Metaplex account.
+  const metadata = loadManifest().extensions.metadataPointer
+    ? !!(await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID).catch(() => null))
+    : !!(await connection.getAccountInfo(findMetadataPda(mint)));
+  return {
+    ...summary,
+    mint: mint.toBase58(),
+    supply: mintInfo.supply.toString(),
+    decimals: mintInfo.decimals,
+    mintAuthority: mintInfo.mintAuthority ? mintInfo.mintAuthority.toBase58() : null,
+    freezeAuthority: mintInfo.freezeAuthority ? mintInfo.freezeAuthority.toBase58() : null,
+    extensions: getExtensionTypes(mintInfo.tlvData).map((t) => ExtensionType[t]),
+    metadata,
+    allocations: loadAllocationStatus(),
+  };
+}
+
+// Holder Snapshots
+function getSnapshotDir(): string {
+  return path.join(getCacheDir(), 'snapshots');
+}
+
+// A snapshot is named by its file path or, within this deployment, by its slot.
+function loadSnapshot(ref: string): HolderSnapshot {
+  const filePath = /^\d+$/.test(ref) ? path.join(getSnapshotDir(), `snapshot-${ref}.json`) : path.resolve(ref);
+  if (!fs.existsSync(filePath)) throw cliError(`Snapshot not found: ${filePath}`, EXIT_CODES.config);
+  const snapshot: HolderSnapshot = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (snapshot.version !== SNAPSHOT_VERSION) throw new Error(`Unsupported snapshot version ${snapshot.version} in ${filePath}`);
+  return snapshot;
+}
 
-  const mintKeypair = Keypair.generate();
-  const tx = new Transaction().add(
-    await createMint(
-      connection,
-      userAuth,
-      userAuth.publicKey,
-      userAuth.publicKey,
-      9,
-      mintKeypair,
-      { commitment: 'confirmed' },
-      TOKEN_2022_PROGRAM_ID
-    )
-  );
+// part / whole rounded half up to the given decimal places. Base-unit amounts pass 2^53 at a few billion tokens of a
+// 6-decimal mint, so the division happens on bigints and only the scaled quotient becomes a number.
+function bigintRatio(part: bigint, whole: bigint, places: number): number {
+  const scale = BigInt(10) ** BigInt(places);
+  return Number((part * scale * BigInt(2) + whole) / (whole * BigInt(2))) / Number(scale);
+}
 
-  tx.partialSign(userAuth, mintKeypair);
-  const signature = await sendViaRelayer(connection, relayerPubkey, process.env.RELAYER_URL!, tx, process.env.RELAYER_API_KEY);
-  if (signature !== 'DRY_RUN_SIGNATURE') {
-    if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
-    fs.writeFileSync(mintCachePath, JSON.stringify({ mint: mintKeypair.publicKey.toBase58() }));
-  }
-  console.log(`Created mint: ${mintKeypair.publicKey.toBase58()}`);
-  return mintKeypair.publicKey;
+// Balances are sorted largest first. Gini is (2 * sum of i * x_i - (n + 1) * total) / (n * total) over the
+// circulating balances in ascending order, i from 1.
+function computeSnapshotStats(supply: bigint, holders: Holder[], accounts: HolderAccount[], emptyAccounts: number, nonCirculating: string[]): SnapshotStats {
+  const sum = (amounts: bigint[]) => amounts.reduce((total, amount) => total + amount, BigInt(0));
+  const circulating = holders.filter((h) => !nonCirculating.includes(h.owner)).map((h) => BigInt(h.amount));
+  const total = sum(circulating);
+  let running = BigInt(0);
+  const nakamoto = total ? circulating.findIndex((amount) => (running += amount) * BigInt(2) > total) + 1 : 0;
+  const n = BigInt(circulating.length);
+  const weighted = [...circulating].reverse().reduce((acc, amount, i) => acc + BigInt(i + 1) * amount, BigInt(0));
+  const frozen = accounts.filter((a) => a.frozen);
+  return {
+    totalSupply: supply.toString(),
+    circulatingSupply: (supply - sum(holders.filter((h) => nonCirculating.includes(h.owner)).map((h) => BigInt(h.amount)))).toString(),
+    holders: holders.length,
+    emptyAccounts,
+    frozenAccounts: frozen.length,
+    frozenAmount: sum(frozen.map((a) => BigInt(a.amount))).toString(),
+    top10Share: total ? bigintRatio(sum(circulating.slice(0, 10)) * BigInt(100), total, 2) : 0,
+    nakamoto,
+    gini: total ? bigintRatio(BigInt(2) * weighted - (n + BigInt(1)) * total, n * total, 4) : 0,
+  };
 }
 
-async function mintInitialSupply(): Promise<void> {
-  const connection = new Connection(process.env.RPC_URL!, 'confirmed');
-  const userAuth = loadOrCreateUserAuth();
-  const relayerPubkey = new PublicKey(process.env.RELAYER_PUBKEY!);
-  const treasuryPubkey = new PublicKey(process.env.TREASURY_PUBKEY!);
-  const mintCachePath = path.join(__dirname, '.cache/mint.json');
+// CSVs carry tokens, like the airdrop CSV; the JSON keeps base units.
+function writeSnapshotCsv(filePath: string, snapshot: HolderSnapshot): void {
+  const supply = BigInt(snapshot.stats.totalSupply);
+  const rows = snapshot.holders.map((h) =>
+    [h.owner, formatTokenAmount(BigInt(h.amount), snapshot.decimals), supply ? bigintRatio(BigInt(h.amount) * BigInt(100), supply, 4).toFixed(4) : '0', h.accounts, formatTokenAmount(BigInt(h.frozen), snapshot.decimals)].join(','),
+  );
+  fs.writeFileSync(filePath, ['owner,balance,share_percent,token_accounts,frozen_balance', ...rows].join('\n') + '\n');
+}
 
+// Every Token-2022 account of the mint from one getProgramAccounts call, filtered by mint (memcmp at offset 0) and
+// sliced to the base account layout, which holds all a snapshot needs. RPC nodes only serve current state, so
+// minContextSlot cannot reach back: it makes the node answer from that slot or later, and the snapshot records the
+// slot it did answer from.
+async function takeSnapshot(minContextSlot?: number, top = 10): Promise<HolderSnapshot> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
   if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
   const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
-  const treasuryAta = findAssociatedTokenAddress(treasuryPubkey, mint);
 
-  const supply = BigInt(1000000000) * BigInt(10 ** 9);
-  const ataInfo = await connection.getAccountInfo(treasuryAta);
+  const { context, value } = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+    commitment: 'confirmed',
+    minContextSlot,
+    withContext: true,
+    filters: [{ memcmp: { offset: 0, bytes: mint.toBase58() } }],
+    dataSlice: { offset: 0, length: ACCOUNT_SIZE },
+  });
+  const mintAccount = await connection.getAccountInfo(mint, { commitment: 'confirmed', minContextSlot: context.slot });
+  const mintInfo = unpackMint(mint, mintAccount, TOKEN_2022_PROGRAM_ID);
 
-  if (ataInfo) {
-    const balance = await getTokenAccountBalance(treasuryAta);
-    if (balance.value.amount === supply.toString()) {
-      console.log(`Initial supply already minted to ${treasuryAta.toBase58()}`);
-      return;
-    }
+  const all = value.map(({ pubkey, account }) => unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID));
+  const accounts: HolderAccount[] = all
+    .filter((a) => a.amount > BigInt(0))
+    .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0))
+    .map((a) => ({ address: a.address.toBase58(), owner: a.owner.toBase58(), amount: a.amount.toString(), frozen: a.isFrozen }));
+  const byOwner = new Map<string, Holder>();
+  for (const a of accounts) {
+    const holder = byOwner.get(a.owner) ?? { owner: a.owner, amount: '0', accounts: 0, frozen: '0' };
+    holder.amount = (BigInt(holder.amount) + BigInt(a.amount)).toString();
+    holder.accounts++;
+    if (a.frozen) holder.frozen = (BigInt(holder.frozen) + BigInt(a.amount)).toString();
+    byOwner.set(a.owner, holder);
   }
+  const holders = [...byOwner.values()].sort((a, b) => (BigInt(b.amount) > BigInt(a.amount) ? 1 : BigInt(b.amount) < BigInt(a.amount) ? -1 : 0));
+  const nonCirculating = [manifest.treasury, ...(manifest.authority.mode === 'dao' && manifest.authority.dao ? [manifest.authority.dao] : [])];
 
-  const tx = new Transaction();
-  if (!ataInfo) {
-    tx.add(
-      (await getOrCreateAssociatedTokenAccount(
-        connection,
-        userAuth,
-        mint,
-        treasuryPubkey,
-        false,
-        'confirmed',
-        { commitment: 'confirmed' },
-        TOKEN_2022_PROGRAM_ID
-      )).instruction
-    );
+  const snapshot: HolderSnapshot = {
+    version: SNAPSHOT_VERSION,
+    deployment: getDeploymentName(),
+    cluster: getClusterName(),
+    mint: mint.toBase58(),
+    decimals: mintInfo.decimals,
+    slot: context.slot,
+    takenAt: new Date().toISOString(),
+    nonCirculating,
+    stats: computeSnapshotStats(mintInfo.supply, holders, accounts, all.length - accounts.length, nonCirculating),
+    holders,
+    accounts,
+  };
+  const snapshotDir = getSnapshotDir();
+  if (!fs.existsSync(snapshotDir)) fs.mkdirSync(snapshotDir, { recursive: true });
+  const base = path.join(snapshotDir, `snapshot-${snapshot.slot}`);
+  fs.writeFileSync(`${base}.json`, JSON.stringify(snapshot, null, 2));
+  writeSnapshotCsv(`${base}.csv`, snapshot);
+
+  const tokens = (amount: string) => `${formatTokenAmount(BigInt(amount), snapshot.decimals)} ${manifest.symbol}`;
+  const labels = new Map(resolveAllocations(manifest).map((a) => [a.address.toBase58(), a.label]));
+  const { stats } = snapshot;
+  console.log(`\n📸 Holders of ${snapshot.mint} at slot ${snapshot.slot}:`);
+  console.log(`   Total supply: ${tokens(stats.totalSupply)}, circulating: ${tokens(stats.circulatingSupply)} (excluding ${nonCirculating.length === 1 ? 'the treasury' : 'the treasury and DAO vault'})`);
+  console.log(`   Holders: ${stats.holders} (${stats.emptyAccounts} empty token account(s) not counted)`);
+  console.log(`   Frozen: ${stats.frozenAccounts} account(s) holding ${tokens(stats.frozenAmount)}`);
+  console.log(`   Concentration: the top 10 hold ${stats.top10Share}% of the circulating supply; Nakamoto coefficient ${stats.nakamoto}, Gini ${stats.gini}`);
+  holders.slice(0, top).forEach((h, i) => {
+    const share = stats.totalSupply !== '0' ? bigintRatio(BigInt(h.amount) * BigInt(100), BigInt(stats.totalSupply), 2).toFixed(2) : '0';
+    const label = labels.get(h.owner) ?? (h.owner === manifest.treasury ? 'treasury' : h.owner === manifest.authority.dao ? 'DAO vault' : '');
+    console.log(`   ${String(i + 1).padStart(3)}. ${h.owner}  ${tokens(h.amount)} (${share}%)${label ? ` ${label}` : ''}${h.frozen !== '0' ? ' [frozen]' : ''}`);
+  });
+  console.log(`   Saved: ${base}.json, ${base}.csv`);
+  return snapshot;
+}
+
+// Balance changes per owner between two snapshots of the same mint, also written to the snapshot directory as CSV.
+function diffSnapshots(from: HolderSnapshot, to: HolderSnapshot): SnapshotDiff {
+  if (from.mint !== to.mint) throw cliError(`The snapshots are of different mints: ${from.mint} and ${to.mint}.`, EXIT_CODES.usage);
+  const before = new Map(from.holders.map((h) => [h.owner, BigInt(h.amount)]));
+  const after = new Map(to.holders.map((h) => [h.owner, BigInt(h.amount)]));
+  const changes: HolderChange[] = [];
+  for (const owner of new Set([...before.keys(), ...after.keys()])) {
+    const [b, a] = [before.get(owner) ?? BigInt(0), after.get(owner) ?? BigInt(0)];
+    if (a === b) continue;
+    changes.push({ owner, kind: !before.has(owner) ? 'added' : !after.has(owner) ? 'removed' : 'changed', before: b.toString(), after: a.toString(), change: (a - b).toString() });
   }
+  const magnitude = (c: HolderChange) => (BigInt(c.change) < BigInt(0) ? -BigInt(c.change) : BigInt(c.change));
+  changes.sort((x, y) => (magnitude(y) > magnitude(x) ? 1 : magnitude(y) < magnitude(x) ? -1 : 0));
+  const diff: SnapshotDiff = {
+    mint: to.mint,
+    from: { slot: from.slot, takenAt: from.takenAt, holders: from.stats.holders, totalSupply: from.stats.totalSupply },
+    to: { slot: to.slot, takenAt: to.takenAt, holders: to.stats.holders, totalSupply: to.stats.totalSupply },
+    changes,
+  };
 
-  tx.add(
-    await mintTo(
-      connection,
-      userAuth,
-      mint,
-      treasuryAta,
-      userAuth.publicKey,
-      supply,
-      [],
-      { commitment: 'confirmed' },
-      TOKEN_2022_PROGRAM_ID
-    )
-  );
+  const tokens = (amount: string) => formatTokenAmount(BigInt(amount), to.decimals);
+  const snapshotDir = getSnapshotDir();
+  if (!fs.existsSync(snapshotDir)) fs.mkdirSync(snapshotDir, { recursive: true });
+  const csvPath = path.join(snapshotDir, `diff-${from.slot}-${to.slot}.csv`);
+  fs.writeFileSync(csvPath, ['owner,kind,before,after,change', ...changes.map((c) => [c.owner, c.kind, tokens(c.before), tokens(c.after), tokens(c.change)].join(','))].join('\n') + '\n');
 
-  tx.partialSign(userAuth);
-  const signature = await sendViaRelayer(connection, relayerPubkey, process.env.RELAYER_URL!, tx, process.env.RELAYER_API_KEY);
-  console.log(`Minted ${supply} tokens to ${treasuryAta.toBase58()}`);
+  const count = (kind: HolderChange['kind']) => changes.filter((c) => c.kind === kind).length;
+  console.log(`\n📸 ${to.mint} from slot ${from.slot} to slot ${to.slot}:`);
+  console.log(`   Total supply: ${tokens(from.stats.totalSupply)} → ${tokens(to.stats.totalSupply)}; holders: ${from.stats.holders} → ${to.stats.holders}`);
+  console.log(`   ${count('added')} new holder(s), ${count('removed')} gone, ${count('changed')} changed balance(s)`);
+  for (const c of changes.slice(0, 10)) console.log(`   ${c.kind.padEnd(7)} ${c.owner}  ${tokens(c.before)} → ${tokens(c.after)}`);
+  console.log(`   Saved: ${csvPath}`);
+  return diff;
 }
 
-async function setTokenMetadata(): Promise<void> {
-  const connection = new Connection(process.env.RPC_URL!, 'confirmed');
-  const userAuth = loadOrCreateUserAuth();
-  const relayerPubkey = new PublicKey(process.env.RELAYER_PUBKEY!);
-  const mintCachePath = path.join(__dirname, '.cache/mint.json');
-  const METADATA = {
-    name: 'Omega Prime Token',
-    symbol: 'ΩAGENT',
-    description: 'Agent guild utility token powering Ω-Prime automations on Solana.',
-    image: 'https://<hosted-image>/logo.png',
-    external_url: 'https://<site>',
+// Verification
+// Decodes a Metaplex metadata account from its key byte through the collection; the fields after it are not needed.
+function decodeMetaplexMetadata(data: Buffer): MetaplexMetadata {
+  let offset = 1;
+  const readKey = () => {
+    const key = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    return key;
+  };
+  const readString = () => {
+    const length = data.readUInt32LE(offset);
+    const value = data.subarray(offset + 4, offset + 4 + length).toString('utf-8').replace(/\0+$/, '');
+    offset += 4 + length;
+    return value;
   };
+  const readU8 = () => data[offset++];
+  const readU32 = () => {
+    offset += 4;
+    return data.readUInt32LE(offset - 4);
+  };
+  const readOption = <T>(read: () => T): T | null => (readU8() ? read() : null);
+  const updateAuthority = readKey();
+  const mint = readKey();
+  const [name, symbol, uri] = [readString(), readString(), readString()];
+  const sellerFeeBasisPoints = data.readUInt16LE(offset);
+  offset += 2;
+  const creators = readOption(() => Array.from({ length: readU32() }, () => ({ address: readKey(), verified: readU8() === 1, share: readU8() })));
+  const primarySaleHappened = readU8() === 1;
+  const isMutable = readU8() === 1;
+  readOption(readU8); // edition nonce
+  readOption(readU8); // token standard
+  const collection = readOption(() => ({ verified: readU8() === 1, key: readKey() }));
+  return { updateAuthority, mint, name, symbol, uri, sellerFeeBasisPoints, creators, primarySaleHappened, isMutable, collection };
+}
 
-  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
+function signAuditReport(report: AuditReport, signer: Keypair): void {
+  report.signer = signer.publicKey.toBase58();
+  const { signature, ...unsigned } = report;
+  report.signature = signEd25519(Buffer.from(JSON.stringify(unsigned)), signer).toString('base64');
+}
+
+function verifyAuditReportSignature(report: AuditReport): boolean {
+  if (!report.signer || !report.signature) return false;
+  const { signature, ...unsigned } = report;
+  return verifyEd25519(Buffer.from(JSON.stringify(unsigned)), Buffer.from(signature, 'base64'), new PublicKey(report.signer));
+}
+
+function formatAuditReportMarkdown(report: AuditReport): string {
+  const lines = [
+    `# Audit Report: ${report.deployment}`,
+    '',
+    `- **Result:** ${report.passed ? 'PASSED' : 'FAILED'} (${report.checks.filter((c) => c.ok).length}/${report.checks.length} checks)`,
+    `- **Mint:** [\`${report.mint}\`](${getExplorerUrl('address', report.mint, report.cluster ?? 'mainnet')})`,
+    `- **Manifest:** \`${report.manifest}\` (sha256 \`${report.manifestSha256}\`)`,
+    `- **Cluster:** ${report.cluster ?? 'mainnet'}, genesis \`${report.genesisHash}\`, slot ${report.slot}, via ${report.rpcUrl}`,
+    `- **Generated:** ${report.generatedAt}`,
+    `- **Signed by:** ${report.signer ? `\`${report.signer}\` (ed25519 signature in the JSON report)` : 'unsigned'}`,
+    '',
+    '| | Category | Check | Expected | Actual |',
+    '|---|---|---|---|---|',
+    ...report.checks.map((c) => `| ${c.ok ? '✅' : '❌'} | ${c.category} | ${c.name} | \`${c.expected}\` | \`${c.actual}\` |`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// Compares the on-chain mint, balances, authorities, metadata and extensions with the manifest, without stopping at the
+// first mismatch, and writes a signed JSON and Markdown report to .cache/<deployment>/audit/.
+async function verifyDeployment(): Promise<AuditReport> {
+  const manifest = loadManifest();
+  const connection = getConnection();
+  const mintCachePath = path.join(getCacheDir(), 'mint.json');
+  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Nothing to verify.');
   const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
-  const metadataPda = findMetadataPda(mint);
+  const userAuth = readUserAuthPublicKey();
+  if (!userAuth) throw new Error('USER_AUTH public key unknown: set USER_AUTH_PUBKEY to verify extension authorities.');
 
-  const uri = `data:application/json;base64,${Buffer.from(JSON.stringify(METADATA)).toString('base64')}`;
-  const tx = new Transaction();
-  const metadataAccount = await connection.getAccountInfo(metadataPda);
+  const checks: VerificationCheck[] = [];
+  const check = (category: VerificationCheck['category'], name: string, expected: unknown, actual: unknown) => {
+    checks.push({ category, name, expected: String(expected), actual: String(actual), ok: String(expected) === String(actual) });
+  };
+  const keyOrNull = (key: PublicKey | null | undefined) => (key ? key.toBase58() : 'null');
 
-  if (metadataAccount) {
-    tx.add(
-      updateMetadataAccountV3({
-        metadata: metadataPda,
-        updateAuthority: userAuth.publicKey,
-        data: {
-          name: METADATA.name,
-          symbol: METADATA.symbol,
-          uri,
-          sellerFeeBasisPoints: 0,
-          creators: null,
-          collection: null,
-          uses: null,
-        },
-      })
-    );
+  const mintAccount = await connection.getAccountInfo(mint, 'confirmed');
+  check('mint', 'Mint account owner', TOKEN_2022_PROGRAM_ID.toBase58(), mintAccount ? mintAccount.owner.toBase58() : 'missing');
+  if (!mintAccount || !mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)) return writeAuditReport(manifest, connection, mint, checks);
+  const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+
+  check('mint', 'Decimals', manifest.decimals, mintInfo.decimals);
+  const issued = loadIssuanceLedger(mint).issuances.filter((r) => r.status === 'minted');
+  const issuedSupply = issued.reduce((sum, r) => sum + BigInt(r.amount), BigInt(0));
+  check('supply', `Total supply (base units)${issued.length ? `, with ${issued.length} mint-more issuance(s)` : ''}`, toBaseUnits(manifest.supply, manifest.decimals) + issuedSupply, mintInfo.supply);
+
+  const expectedBalances = new Map<string, { labels: string[]; amount: bigint; transfers: number }>();
+  for (const allocation of resolveAllocations(manifest)) {
+    const key = allocation.address.toBase58();
+    const current = expectedBalances.get(key) ?? { labels: [], amount: BigInt(0), transfers: 0 };
+    expectedBalances.set(key, { ...current, labels: [...current.labels, allocation.label], amount: current.amount + allocation.amount });
+  }
+  // Issuances and paid airdrop rows have moved tokens since the allocation; only allocation owners are checked.
+  const move = (owner: string, amount: bigint) => {
+    const current = expectedBalances.get(owner);
+    if (current) Object.assign(current, { amount: current.amount + amount, transfers: current.transfers + 1 });
+  };
+  for (const r of issued) move(r.recipient, BigInt(r.amount));
+  for (const row of loadPaidAirdropRows(mint)) {
+    move(manifest.treasury, -BigInt(row.amount));
+    move(row.recipient, BigInt(row.amount));
+  }
+  for (const [owner, { labels, amount, transfers }] of expectedBalances) {
+    const ata = findAssociatedTokenAddress(new PublicKey(owner), mint);
+    const info = await connection.getAccountInfo(ata, 'confirmed');
+    const name = `${labels.join(' + ')} balance (${owner})${transfers ? `, with ${transfers} airdrop row(s) and issuance(s)` : ''}`;
+    check('allocation', name, amount, info ? unpackAccount(ata, info, TOKEN_2022_PROGRAM_ID).amount : 'no token account');
+  }
+
+  const target = manifest.authority.mode === 'dao' ? manifest.authority.dao! : manifest.authority.mode === 'treasury' ? manifest.treasury : 'null';
+  check('authority', 'Mint authority', target, keyOrNull(mintInfo.mintAuthority));
+  check('authority', 'Freeze authority', target, keyOrNull(mintInfo.freezeAuthority));
+
+  const published = manifest.storage ? loadPublishedMetadata() : null;
+  const uri = manifest.storage ? published?.json.uri ?? 'not published' : buildMetadataUri(manifest);
+  let onChainUri: string | null = null;
+  if (manifest.extensions.metadataPointer) {
+    const metadata = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID).catch(() => null);
+    check('metadata', 'Native metadata', 'present', metadata ? 'present' : 'missing');
+    if (metadata) {
+      check('metadata', 'Name', manifest.name, metadata.name);
+      check('metadata', 'Symbol', manifest.symbol, metadata.symbol);
+      check('metadata', 'URI', uri, metadata.uri);
+      onChainUri = metadata.uri;
+    }
   } else {
-    tx.add(
-      createMetadataAccountV3({
-        metadata: metadataPda,
-        mint,
-        mintAuthority: userAuth.publicKey,
-        payer: userAuth.publicKey,
-        updateAuthority: userAuth.publicKey,
-        data: {
-          name: METADATA.name,
-          symbol: METADATA.symbol,
-          uri,
-          sellerFeeBasisPoints: 0,
-          creators: null,
-          collection: null,
-          uses: null,
-        },
-      })
-    );
+    const metadataInfo = await connection.getAccountInfo(findMetadataPda(mint), 'confirmed');
+    check('metadata', 'Metaplex metadata account', 'present', metadataInfo ? 'present' : 'missing');
+    if (metadataInfo) {
+      const metadata = decodeMetaplexMetadata(metadataInfo.data);
+      const { creators, collection, sellerFeeBasisPoints } = manifest.metadata;
+      check('metadata', 'Metadata mint', mint.toBase58(), metadata.mint.toBase58());
+      check('metadata', 'Name', manifest.name, metadata.name);
+      check('metadata', 'Symbol', manifest.symbol, metadata.symbol);
+      check('metadata', 'URI', uri, metadata.uri);
+      check('metadata', 'Seller fee (basis points)', sellerFeeBasisPoints ?? 0, metadata.sellerFeeBasisPoints);
+      check('metadata', 'Creators', creators ? creators.map((c) => `${c.address} ${c.share}%`).join(', ') : 'none', metadata.creators ? metadata.creators.map((c) => `${c.address.toBase58()} ${c.share}%`).join(', ') : 'none');
+      check('metadata', 'Collection', collection ?? 'none', metadata.collection ? metadata.collection.key.toBase58() : 'none');
+      onChainUri = metadata.uri;
+    }
+  }
+  if (onChainUri) {
+    try {
+      const raw = await fetchUri(onChainUri);
+      if (published) check('metadata', 'URI content sha256', published.json.sha256, sha256(raw));
+      const content = JSON.parse(raw.toString('utf-8'));
+      const expected = buildMetadataJson(manifest, published?.image?.uri ?? manifest.metadata.image);
+      for (const field of ['name', 'symbol', 'description', 'image', 'external_url'] as const) {
+        check('metadata', `URI content ${field}`, expected[field] ?? 'unset', content[field] ?? 'unset');
+      }
+      check('metadata', 'URI content attributes', JSON.stringify(expected.attributes), JSON.stringify(content.attributes ?? []));
+      if (published?.image) check('metadata', 'Image sha256', published.image.sha256, sha256(await fetchUri(content.image)));
+    } catch (e) {
+      check('metadata', 'URI content', 'reachable JSON', `unreadable (${errorMessage(e)})`);
+    }
   }
 
-  tx.partialSign(userAuth);
-  const signature = await sendViaRelayer(connection, relayerPubkey, process.env.RELAYER_URL!, tx, process.env.RELAYER_API_KEY);
-  console.log(`Metadata set for mint ${mint.toBase58()}. URI: ${uri.slice(0, 50)}...`);
-}
+  const ext = manifest.extensions;
+  const expectedTypes = buildExtensionInstructions(manifest, mint, userAuth).types;
+  if (ext.metadataPointer) expectedTypes.push(ExtensionType.TokenMetadata);
+  const actualTypes = getExtensionTypes(mintInfo.tlvData);
+  const typeNames = (types: ExtensionType[]) => types.map((t) => ExtensionType[t]).sort().join(', ') || 'none';
+  check('extension', 'Extension set', typeNames(expectedTypes), typeNames(actualTypes));
+  const transferFee = getTransferFeeConfig(mintInfo);
+  if (ext.transferFee && transferFee) {
+    check('extension', 'Transfer fee (bps)', ext.transferFee.feeBasisPoints, transferFee.newerTransferFee.transferFeeBasisPoints);
+    check('extension', 'Transfer fee max (base units)', toBaseUnits(ext.transferFee.maxFee, manifest.decimals), transferFee.newerTransferFee.maximumFee);
+    check('extension', 'Transfer fee config authority', optionalPubkey(ext.transferFee.authority, userAuth).toBase58(), keyOrNull(transferFee.transferFeeConfigAuthority));
+    check('extension', 'Withdraw withheld authority', optionalPubkey(ext.transferFee.withdrawAuthority, userAuth).toBase58(), keyOrNull(transferFee.withdrawWithheldAuthority));
+  }
+  const pointer = getMetadataPointerState(mintInfo);
+  if (ext.metadataPointer && pointer) {
+    check('extension', 'Metadata pointer address', mint.toBase58(), keyOrNull(pointer.metadataAddress));
+    check('extension', 'Metadata pointer authority', optionalPubkey(ext.metadataPointer.authority, userAuth).toBase58(), keyOrNull(pointer.authority));
+  }
+  const interest = getInterestBearingMintConfigState(mintInfo);
+  if (ext.interestBearing && interest) {
+    check('extension', 'Interest rate (bps)', ext.interestBearing.rate, interest.currentRate);
+    check('extension', 'Interest rate authority', optionalPubkey(ext.interestBearing.authority, userAuth).toBase58(), keyOrNull(interest.rateAuthority));
+  }
+  const delegate = getPermanentDelegate(mintInfo);
+  if (ext.permanentDelegate && delegate) check('extension', 'Permanent delegate', ext.permanentDelegate, keyOrNull(delegate.delegate));
+  const defaultState = getDefaultAccountState(mintInfo);
+  if (ext.defaultAccountState && defaultState) {
+    check('extension', 'Default account state', ext.defaultAccountState === 'frozen' ? 'Frozen' : 'Initialized', AccountState[defaultState.state]);
+  }
 
-async function lockAuthorities(): Promise<void> {
-  const connection = new Connection(process.env.RPC_URL!, 'confirmed');
-  const userAuth = loadOrCreateUserAuth();
-  const relayerPubkey = new PublicKey(process.env.RELAYER_PUBKEY!);
-  const treasuryPubkey = new PublicKey(process.env.TREASURY_PUBKEY!);
-  const daoPubkey = process.env.DAO_PUBKEY ? new PublicKey(process.env.DAO_PUBKEY) : null;
-  const authorityMode = process.env.AUTHORITY_MODE || 'null';
-  const mintCachePath = path.join(__dirname, '.cache/mint.json');
+  return writeAuditReport(manifest, connection, mint, checks);
+}
 
-  if (!fs.existsSync(mintCachePath)) throw new Error('Mint not created. Run create mint first.');
-  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
+async function writeAuditReport(manifest: TokenManifest, connection: Connection, mint: PublicKey, checks: VerificationCheck[]): Promise<AuditReport> {
+  const report: AuditReport = {
+    version: AUDIT_REPORT_VERSION,
+    deployment: getDeploymentName(),
+    cluster: getClusterName(),
+    manifest: path.relative(__dirname, getManifestPath()),
+    manifestSha256: crypto.createHash('sha256').update(fs.readFileSync(getManifestPath())).digest('hex'),
+    rpcUrl: getRpcUrl(),
+    genesisHash: await connection.getGenesisHash(),
+    slot: await connection.getSlot('confirmed'),
+    mint: mint.toBase58(),
+    generatedAt: new Date().toISOString(),
+    passed: checks.every((c) => c.ok),
+    checks,
+  };
+  const signerPath = process.env.AUDIT_KEYPAIR;
+  // Audit reports are not transactions, so a remote signer or Ledger (which only sign transactions) cannot sign them.
+  const userAuth = signerPath ? loadKeypairFile(signerPath) : isOfflineSigning() ? null : loadOrCreateUserAuth();
+  const signer = userAuth instanceof Keypair ? userAuth : null;
+  if (signer) signAuditReport(report, signer);
+  else console.warn('⚠️  Audit report left unsigned: set AUDIT_KEYPAIR to sign it while USER_AUTH is offline or on an external signer.');
 
-  const mintInfo = await connection.getAccountInfo(mint);
-  if (!mintInfo) throw new Error('Mint not found.');
+  const auditDir = path.join(getCacheDir(), 'audit');
+  if (!fs.existsSync(auditDir)) fs.mkdirSync(auditDir, { recursive: true });
+  const base = path.join(auditDir, `audit-${report.generatedAt.replace(/[:.]/g, '-')}`);
+  fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2));
+  fs.writeFileSync(`${base}.md`, formatAuditReportMarkdown(report));
 
-  const targetAuthority = authorityMode === 'dao' && daoPubkey ? daoPubkey : authorityMode === 'treasury' ? treasuryPubkey : null;
-  const txs = [];
-  const authorityTypes = ['MintTokens', 'FreezeAccount'];
+  for (const c of checks.filter((c) => !c.ok)) console.log(`❌ ${c.category}: ${c.name}: expected ${c.expected}, found ${c.actual}`);
+  console.log(`${report.passed ? '✅ Verification passed' : '❌ Verification failed'}: ${checks.filter((c) => c.ok).length}/${checks.length} checks`);
+  console.log(`   Report: ${base}.json, ${base}.md${report.signer ? ` (signed by ${report.signer})` : ''}`);
+  return report;
+}
 
-  for (const authType of authorityTypes) {
-    const currentAuthority = await connection.getTokenSupply(mint).then((info) => {
-      return authType === 'MintTokens' ? info.value.mintAuthority : info.value.freezeAuthority;
+// Promotion
+function diffAuditReports(source: AuditReport, target: AuditReport): PromotionDifference[] {
+  const key = (c: VerificationCheck) => `${c.category}: ${c.name}`;
+  const sourceChecks = new Map(source.checks.map((c) => [key(c), c]));
+  const targetChecks = new Map(target.checks.map((c) => [key(c), c]));
+  const differences: PromotionDifference[] = [];
+  for (const check of new Set([...sourceChecks.keys(), ...targetChecks.keys()])) {
+    const before = sourceChecks.get(check);
+    const after = targetChecks.get(check);
+    if (before && after && before.actual === after.actual) continue;
+    differences.push({
+      check,
+      source: before?.actual ?? 'absent',
+      target: after?.actual ?? 'absent',
+      expected: !!before && !!after && before.ok && after.ok && before.expected !== after.expected,
     });
+  }
+  return differences;
+}
 
-    if (currentAuthority && (!targetAuthority || !currentAuthority.equals(targetAuthority))) {
-      txs.push(
-        new Transaction().add(
-          await setAuthority(
-            connection,
-            userAuth,
-            mint,
-            userAuth.publicKey,
-            authType as any,
-            targetAuthority,
-            [],
-            { commitment: 'confirmed' },
-            TOKEN_2022_PROGRAM_ID
-          )
-        )
-      );
+// Replays a deployment onto the active cluster with the same manifest, after re-verifying it on the source cluster,
+// and diffs the two audit reports. A source that fails verification blocks the promotion before any transaction is sent.
+async function promoteDeployment(from: ClusterName): Promise<{ source: AuditReport; target: AuditReport; differences: PromotionDifference[] }> {
+  const to = getClusterName();
+  if (from === to) throw cliError(`Cannot promote ${to} onto itself; pass --cluster <target>.`, EXIT_CODES.usage);
+
+  console.log(`🔎 Verifying the ${from} deployment "${getDeploymentName()}" before promoting it to ${to}...`);
+  const source = await withCluster(from, verifyDeployment);
+  if (!source.passed) throw cliError(`The ${from} deployment failed verification; fix it and verify again before promoting.`, EXIT_CODES.verifyFailed);
+
+  console.log(`\n🚀 Promoting "${getDeploymentName()}" from ${from} (${source.mint}) to ${to}...`);
+  await runAllSteps();
+  const target = await verifyDeployment();
+
+  const differences = diffAuditReports(source, target);
+  console.log(`\n🔀 State diff ${from} -> ${to}:`);
+  for (const d of differences) console.log(`${d.expected ? '   ~' : '   ❌'} ${d.check}: ${d.source} -> ${d.target}`);
+  const unexpected = differences.filter((d) => !d.expected);
+  console.log(unexpected.length ? `❌ ${unexpected.length} unexpected difference(s)` : `✅ ${to} matches ${from} (${differences.length} cluster-specific difference(s))`);
+  if (!target.passed || unexpected.length) process.exitCode = EXIT_CODES.verifyFailed;
+  return { source, target, differences };
+}
+
+function formatDryRunReport(report: DryRunReport, format: 'text' | 'json'): string {
+  if (format === 'json') return JSON.stringify(report, null, 2);
+
+  const lines = [`\n🧪 Dry-Run Report: ${report.deployment} (${report.rpcUrl})`];
+  if (report.mint) lines.push(`   Virtual mint: ${report.mint}`);
+  report.steps.forEach((step, i) => {
+    lines.push(`${step.error ? '❌' : '✅'} #${i + 1} ${step.step}: ${step.intent}`);
+    lines.push(`   Compute units: ${step.computeUnits}, Fee: ${step.fee} lamports, Rent: ${step.rent} lamports`);
+    for (const account of step.accounts) {
+      const marker = account.change === 'created' ? '+' : account.change === 'closed' ? '-' : '~';
+      lines.push(`   ${marker} ${account.address} (${account.owner ?? 'none'}) lamports ${account.lamportsBefore} -> ${account.lamportsAfter}, data ${account.dataLenBefore} -> ${account.dataLenAfter} bytes`);
     }
-  }
+    if (step.error) lines.push(`   Error: ${step.error}`);
+    step.logs.forEach((log) => lines.push(`     | ${log}`));
+  });
+  const sum = (key: 'computeUnits' | 'fee' | 'rent') => report.steps.reduce((total, step) => total + step[key], 0);
+  lines.push(`Totals: ${report.steps.length} transaction(s), ${sum('computeUnits')} compute units, ${sum('fee')} lamports fees, ${sum('rent')} lamports rent`);
+  return lines.join('\n');
+}
 
-  for (const tx of txs) {
-    tx.partialSign(userAuth);
-    const signature = await sendViaRelayer(connection, relayerPubkey, process.env.RELAYER_URL!, tx, process.env.RELAYER_API_KEY);
-    console.log(`Authority set: ${signature}`);
+function getReportFormat(): 'text' | 'json' {
+  const flagIndex = process.argv.indexOf('--report');
+  const format = flagIndex !== -1 ? process.argv[flagIndex + 1] : process.env.DRY_RUN_REPORT || 'text';
+  return format === 'json' ? 'json' : 'text';
+}
+
+// Runs every step against the dry-run validator from a clean dry-run namespace and prints the report, even on failure.
+async function runDryRun(format: 'text' | 'json'): Promise<DryRunReport> {
+  const previous = process.env.DRY_RUN;
+  process.env.DRY_RUN = 'true';
+  try {
+    const connection = getConnection();
+    const genesisHash = await connection.getGenesisHash();
+    const cluster = CLUSTERS.find((name) => CLUSTER_DEFAULTS[name].genesisHash === genesisHash);
+    if (cluster) throw new Error(`DRY_RUN_RPC_URL (${getRpcUrl()}) points at ${cluster}; dry runs must target a local or forked validator.`);
+    fs.rmSync(getCacheDir(), { recursive: true, force: true });
+    saveDryRunReport(loadDryRunReport());
+    try {
+      await runAllSteps();
+    } finally {
+      console.log(formatDryRunReport(loadDryRunReport(), format));
+    }
+    return loadDryRunReport();
+  } finally {
+    if (previous === undefined) delete process.env.DRY_RUN;
+    else process.env.DRY_RUN = previous;
   }
+}
 
-  console.log(`Mint ${mint.toBase58()} authorities set to ${targetAuthority ? targetAuthority.toBase58() : 'null'}.`);
+async function runAllSteps(): Promise<void> {
+  const manifest = loadManifest();
+  console.log(`Running full deployment "${getDeploymentName()}" of ${manifest.name} (${manifest.symbol}) from ${getManifestPath()}...`);
+  await reconcileJournal(getConnection());
+  await withStep('create-mint', createTokenMint);
+  await withStep('mint-supply', mintInitialSupply);
+  await withStep('set-metadata', setTokenMetadata);
+  await withStep('lock', lockAuthorities);
 }
 
-async function rollback(): Promise<void> {
-  const cacheDir = path.join(__dirname, '.cache');
-  const mintCachePath = path.join(cacheDir, 'mint.json');
-  const userAuthPath = path.join(cacheDir, 'user_auth.json');
 
-  if (fs.existsSync(mintCachePath)) {
-    const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
-    const connection = new Connection(process.env.RPC_URL!, 'confirmed');
-    const metadataPda = findMetadataPda(mint);
-    const mintInfo = await connection.getAccountInfo(mint);
-    const metadataInfo = await connection.getAccountInfo(metadataPda);
+async function confirmOwnerAddress(): Promise<boolean> {
+  const manifest = loadManifest();
+  console.log(`\n📢 Owner Address Announcement:`);
+  console.log(`The treasury owner for ${manifest.name} is set to: ${manifest.treasury}`);
+  for (const allocation of resolveAllocations(manifest)) {
+    console.log(`  ${allocation.label}: ${allocation.address.toBase58()} will receive ${allocation.amount} base units of ${manifest.symbol}`);
+  }
+  return confirmAction('Confirm this is correct?');
+}
 
-    console.log(`Mint exists: ${mintInfo ? 'Yes' : 'No'}`);
-    console.log(`Metadata exists: ${metadataInfo ? 'Yes' : 'No'}`);
-    console.log('Note: On-chain data (mint, metadata) cannot be deleted. Delete cache to restart.');
+// Test Harness
+const HARNESS_RPC_PORT = 8999; // clear of the dry-run validator on 8899
+const HARNESS_RELAYER_PORT = 8998;
+const HARNESS_LEDGER_PORT = 8996;
+const HARNESS_WEBHOOK_PORT = 8995;
 
-    fs.unlinkSync(mintCachePath);
-    console.log('Deleted mint cache.');
+// Starts solana-test-validator on a fresh ledger. Token-2022 is built in; the Metaplex and Squads programs, and the
+// Squads program config multisigs are created against, are cloned from mainnet-beta, or loaded from
+// HARNESS_METAPLEX_PROGRAM, HARNESS_SQUADS_PROGRAM and HARNESS_SQUADS_CONFIG (dumped once) to run offline.
+async function startTestValidator(dir: string, port: number): Promise<{ rpcUrl: string; stop: () => void }> {
+  const args = ['--reset', '--quiet', '--ledger', path.join(dir, 'ledger'), '--rpc-port', String(port), '--faucet-port', String(port + 2)];
+  const clones: string[] = [];
+  const metaplexProgram = process.env.HARNESS_METAPLEX_PROGRAM;
+  if (metaplexProgram) args.push('--bpf-program', METAPLEX_PROGRAM_ID.toBase58(), path.resolve(metaplexProgram));
+  else clones.push('--clone-upgradeable-program', METAPLEX_PROGRAM_ID.toBase58());
+  const [squadsConfig] = multisig.getProgramConfigPda({});
+  const { HARNESS_SQUADS_PROGRAM: squadsProgram, HARNESS_SQUADS_CONFIG: squadsConfigDump } = process.env;
+  if (squadsProgram && squadsConfigDump) {
+    args.push('--bpf-program', multisig.PROGRAM_ID.toBase58(), path.resolve(squadsProgram), '--account', squadsConfig.toBase58(), path.resolve(squadsConfigDump));
+  } else {
+    clones.push('--clone-upgradeable-program', multisig.PROGRAM_ID.toBase58(), '--clone', squadsConfig.toBase58());
   }
-  if (fs.existsSync(userAuthPath)) {
-    fs.unlinkSync(userAuthPath);
-    console.log('Deleted user auth cache.');
+  if (clones.length) args.push(...clones, '--url', 'mainnet-beta');
+  const validator = spawn('solana-test-validator', args, { stdio: 'ignore' });
+  let spawnError: Error | null = null;
+  validator.on('error', (e) => (spawnError = e));
+  const stop = () => {
+    if (validator.exitCode === null) validator.kill('SIGINT');
+  };
+
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const connection = new Connection(rpcUrl, 'confirmed');
+  for (let attempt = 1; attempt <= 60; attempt++) {
+    if (spawnError) throw cliError(`Cannot start solana-test-validator (${(spawnError as Error).message}); install the Solana CLI.`, EXIT_CODES.config);
+    if (validator.exitCode !== null) throw new Error(`solana-test-validator exited with code ${validator.exitCode}; is port ${port} in use?`);
+    try {
+      await connection.getLatestBlockhash('confirmed');
+      return { rpcUrl, stop };
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
   }
-  console.log('Rollback complete. Run `npm run mainnet:copilot` to restart deployment.');
+  stop();
+  throw new Error(`solana-test-validator did not answer on ${rpcUrl} within 60s`);
 }
 
-async function checkAndCreateFiles(): Promise<boolean> {
-  let allFilesPresent = true;
-  const rootDir = __dirname;
+// Implements the relayer contract sendViaRelayer and the batch submitter expect: co-signs as fee payer and forwards to
+// the validator. Queued failures let the tests exercise retries and resumes.
+async function startMockRelayer(connection: Connection, feePayer: Keypair, port: number): Promise<MockRelayer> {
+  const blackholed = new Set<string>();
+  const server = http.createServer(async (req, res) => {
+    const reply = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== 'POST') return reply(405, { success: false, error: 'POST only' });
+    relayer.requests++;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const failure = relayer.failures.shift();
+    if (failure === 'http') {
+      res.writeHead(500);
+      res.end('Internal Server Error');
+      return;
+    }
+    if (failure === 'error') return reply(200, { success: false, error: 'Mock relayer failure' });
 
-  const checkAndCreate = (filePath: string, content: string) => {
-    if (!fs.existsSync(filePath)) {
-      console.log(`Creating missing file: ${filePath}`);
-      const dir = path.dirname(filePath);
-      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-      fs.writeFileSync(filePath, content);
-      allFilesPresent = false;
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      const batch = Array.isArray(body.signedTransactionsBase64);
+      const signatures: string[] = [];
+      for (const b64 of batch ? body.signedTransactionsBase64 : [body.signedTransactionBase64]) {
+        const tx = VersionedTransaction.deserialize(Buffer.from(b64, 'base64')); // legacy or v0
+        const payer = tx.message.staticAccountKeys[0];
+        if (!payer.equals(feePayer.publicKey)) throw new Error(`Fee payer ${payer.toBase58()} is not the relayer ${feePayer.publicKey.toBase58()}`);
+        tx.sign([feePayer]);
+        const signature = bs58.encode(tx.signatures[0]);
+        if (failure === 'blackhole') blackholed.add(signature);
+        const forward = failure !== 'drop' && !blackholed.has(signature);
+        signatures.push(forward ? await connection.sendRawTransaction(tx.serialize()) : signature);
+      }
+      reply(200, batch ? { success: true, txSignatures: signatures } : { success: true, txSignature: signatures[0] });
+    } catch (e) {
+      reply(200, { success: false, error: errorMessage(e) });
     }
+  });
+  await new Promise<void>((resolve, reject) => server.once('error', reject).listen(port, '127.0.0.1', () => resolve()));
+  const relayer: MockRelayer = {
+    url: `http://127.0.0.1:${port}/relay/sendRawTransaction`,
+    feePayer,
+    failures: [],
+    requests: 0,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
   };
+  return relayer;
+}
 
-  Object.entries(REQUIRED_FILES).forEach(([file, content]) => {
-    checkAndCreate(path.join(rootDir, file), content);
-  });
+// The remote signer protocol (see remoteSignerRequest) for one key, on 127.0.0.1 or on a Unix socket only its owner can
+// open. It signs transaction messages only, never arbitrary bytes, and logs what each one calls.
+async function startRemoteSigner(keypair: Keypair, listen: { port: number } | { socketPath: string }): Promise<RemoteSignerServer> {
+  const token = process.env.REMOTE_SIGNER_TOKEN;
+  const server = http.createServer(async (req, res) => {
+    const reply = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (token && req.headers.authorization !== `Bearer ${token}`) return reply(401, { error: 'Missing or wrong bearer token' });
+    if (req.method === 'GET' && req.url === '/public-key') return reply(200, { publicKey: keypair.publicKey.toBase58() });
+    if (req.method !== 'POST' || req.url !== '/sign') return reply(404, { error: 'GET /public-key or POST /sign' });
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
 
-  if (!allFilesPresent) {
-    console.log('Installing dependencies due to new package.json...');
     try {
-      require('child_process').execSync('npm install', { stdio: 'inherit' });
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      if (body.publicKey !== keypair.publicKey.toBase58()) return reply(400, { error: `This signer holds ${keypair.publicKey.toBase58()}, not ${body.publicKey}` });
+      const message = Buffer.from(body.message, 'base64');
+      const decoded = VersionedMessage.deserialize(message);
+      const programs = [...new Set(decoded.compiledInstructions.map((ix) => decoded.staticAccountKeys[ix.programIdIndex].toBase58()))];
+      signer.signed++;
+      console.log(`✍️  Signed a ${decoded.version === 'legacy' ? 'legacy' : 'v0'} transaction calling ${programs.join(', ')}`);
+      reply(200, { signature: signEd25519(message, keypair).toString('base64') });
     } catch (e) {
-      console.error(`Failed to install dependencies: ${e.message}`);
-      return false;
+      reply(400, { error: `Not a transaction message: ${errorMessage(e)}` });
     }
-  }
-
-  return allFilesPresent;
+  });
+  if ('socketPath' in listen) fs.rmSync(listen.socketPath, { force: true });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    if ('socketPath' in listen) server.listen(listen.socketPath, () => resolve());
+    else server.listen(listen.port, '127.0.0.1', () => resolve());
+  });
+  if ('socketPath' in listen) fs.chmodSync(listen.socketPath, 0o600);
+  const signer: RemoteSignerServer = {
+    address: 'socketPath' in listen ? `unix:${listen.socketPath}` : `http://127.0.0.1:${listen.port}`,
+    publicKey: keypair.publicKey,
+    signed: 0,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+  return signer;
 }
 
-async function checkEnv(): Promise<boolean> {
-  const required = ['RPC_URL', 'RELAYER_URL', 'RELAYER_PUBKEY', 'TREASURY_PUBKEY'];
-  for (const key of required) {
-    if (!process.env[key]) {
-      console.error(`Missing ${key} in .env`);
-      return false;
+// Receives webhook events on 127.0.0.1, checking the X-Grok-Signature of each when a secret is given.
+async function startWebhookReceiver(port: number, secret?: string): Promise<WebhookReceiver> {
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    if (req.method !== 'POST') {
+      res.writeHead(405);
+      return res.end();
     }
-  }
-  try {
-    new PublicKey(process.env.RELAYER_PUBKEY!);
-    const treasuryPubkey = new PublicKey(process.env.TREASURY_PUBKEY!);
-    if (process.env.TREASURY_PUBKEY !== OWNER_ADDRESS) {
-      console.error(`TREASURY_PUBKEY must be ${OWNER_ADDRESS}`);
-      return false;
+    const expected = secret ? `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}` : undefined;
+    const signature = req.headers['x-grok-signature'];
+    if (expected && (typeof signature !== 'string' || signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected)))) {
+      receiver.rejected++;
+      console.warn('⚠️  Rejected a webhook event with a wrong or missing X-Grok-Signature.');
+      res.writeHead(401);
+      return res.end();
     }
-    if (process.env.DAO_PUBKEY) new PublicKey(process.env.DAO_PUBKEY);
-    console.log(`✅ Treasury owner confirmed: ${treasuryPubkey.toBase58()}`);
-  } catch (e) {
-    console.error('Invalid public key in .env');
-    return false;
-  }
-  if (!['null', 'dao', 'treasury'].includes(process.env.AUTHORITY_MODE || '')) {
-    console.error('Invalid AUTHORITY_MODE. Use: null, dao, or treasury');
-    return false;
-  }
-  const connection = new Connection(process.env.RPC_URL!, 'confirmed');
-  try {
-    await connection.getLatestBlockhash();
-    console.log('✅ RPC connection successful');
-    return true;
-  } catch (e) {
-    console.error(`Failed to connect to RPC: ${e.message}`);
-    return false;
+    try {
+      const event: DeploymentEvent = JSON.parse(body.toString('utf-8'));
+      receiver.events.push(event);
+      console.log(`📨 ${event.event}${event.step ? ` ${event.step} (${event.stepId})` : ''}${event.action ? ` ${event.action}` : ''}${event.error ? `: ${event.error}` : ''} [${event.deployment ?? '?'} on ${event.cluster ?? '?'}]`);
+      res.writeHead(204);
+      res.end();
+    } catch (e) {
+      res.writeHead(400);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+  const receiver: WebhookReceiver = {
+    url: `http://127.0.0.1:${port}/events`,
+    events: [],
+    rejected: 0,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+  return receiver;
+}
+
+// SLIP-0010 ed25519 derivation, as a Ledger derives its keys from its seed.
+function deriveEd25519Keypair(seed: Buffer, indices: number[]): Keypair {
+  let node = crypto.createHmac('sha512', 'ed25519 seed').update(seed).digest();
+  for (const index of indices) {
+    const data = Buffer.alloc(37);
+    node.copy(data, 1, 0, 32);
+    data.writeUInt32BE(index, 33);
+    node = crypto.createHmac('sha512', node.subarray(32)).update(data).digest();
   }
+  return Keypair.fromSeed(node.subarray(0, 32));
 }
 
-async function checkDeploymentStatus(): Promise<void> {
-  const connection = new Connection(process.env.RPC_URL!, 'confirmed');
-  const mintCachePath = path.join(__dirname, '.cache/mint.json');
-  const treasuryPubkey = new PublicKey(process.env.TREASURY_PUBKEY!);
+// Serves the Speculos APDU framing with the Solana app's GET_PUBKEY and SIGN_MESSAGE, so the ledger signer runs
+// end to end without a device. Like the app, it only signs transaction messages; unlike it, it never asks.
+async function startLedgerEmulator(seed: Buffer, port: number): Promise<LedgerEmulator> {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket)).on('error', () => socket.destroy());
+    let buffered = Buffer.alloc(0);
+    let pending = Buffer.alloc(0); // a payload whose chunks are still arriving
+    const respond = (status: number, data: Buffer = Buffer.alloc(0)) => {
+      const frame = Buffer.alloc(data.length + 6);
+      frame.writeUInt32BE(data.length, 0);
+      data.copy(frame, 4);
+      frame.writeUInt16BE(status, data.length + 4);
+      socket.write(frame);
+    };
+    const handle = (apdu: Buffer) => {
+      const [cla, ins, , p2, length] = apdu;
+      const payload = Buffer.concat([p2 & LEDGER_P2_EXTEND ? pending : Buffer.alloc(0), apdu.subarray(5, 5 + length)]);
+      pending = p2 & LEDGER_P2_MORE ? payload : Buffer.alloc(0);
+      if (p2 & LEDGER_P2_MORE) return respond(LEDGER_SW_OK);
+      if (cla !== LEDGER_CLA || (ins !== LEDGER_INS_GET_PUBKEY && ins !== LEDGER_INS_SIGN_MESSAGE)) return respond(LEDGER_SW_UNKNOWN_INS);
+      try {
+        const signing = ins === LEDGER_INS_SIGN_MESSAGE;
+        if (signing && payload[0] !== 1) return respond(LEDGER_SW_INVALID_DATA);
+        const pathStart = signing ? 1 : 0;
+        const indices = Array.from({ length: payload[pathStart] }, (_, i) => payload.readUInt32BE(pathStart + 1 + 4 * i));
+        if (!indices.length || indices.some((index) => index < 0x80000000)) return respond(LEDGER_SW_INVALID_DATA);
+        const keypair = deriveEd25519Keypair(seed, indices);
+        if (!signing) return respond(LEDGER_SW_OK, keypair.publicKey.toBuffer());
+        const message = payload.subarray(pathStart + 1 + 4 * indices.length);
+        VersionedMessage.deserialize(message);
+        emulator.signed++;
+        respond(LEDGER_SW_OK, signEd25519(message, keypair));
+      } catch {
+        respond(LEDGER_SW_INVALID_DATA);
+      }
+    };
+    socket.on('data', (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk]);
+      while (buffered.length >= 4 && buffered.length >= buffered.readUInt32BE(0) + 4) {
+        const length = buffered.readUInt32BE(0);
+        handle(buffered.subarray(4, length + 4));
+        buffered = buffered.subarray(length + 4);
+      }
+    });
+  });
+  await new Promise<void>((resolve, reject) => server.once('error', reject).listen(port, '127.0.0.1', () => resolve()));
+  const emulator: LedgerEmulator = {
+    address: `127.0.0.1:${port}`,
+    signed: 0,
+    close: () =>
+      new Promise((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+  return emulator;
+}
 
-  console.log('\n📊 Deployment Status:');
-  if (!fs.existsSync(mintCachePath)) {
-    console.log('❌ Mint not created. Select "Create mint" to start.');
-    return;
-  }
+async function airdrop(connection: Connection, to: PublicKey, sol: number): Promise<void> {
+  const signature = await connection.requestAirdrop(to, sol * LAMPORTS_PER_SOL);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+}
 
-  const mint = new PublicKey(JSON.parse(fs.readFileSync(mintCachePath, 'utf-8')).mint);
-  console.log(`✅ Mint Address: ${mint.toBase58()}`);
-  console.log(`   Explorer: https://explorer.solana.com/address/${mint.toBase58()}`);
+// A mock relayer in front of a local or test cluster, for running the copilot by hand without a real relayer.
+async function serveMockRelayer(): Promise<void> {
+  const connection = getConnection();
+  if ((await connection.getGenesisHash()) === MAINNET_GENESIS_HASH) throw cliError('The mock relayer cannot front mainnet.', EXIT_CODES.config);
+  const keypairIndex = process.argv.indexOf('--keypair');
+  const portIndex = process.argv.indexOf('--port');
+  const failIndex = process.argv.indexOf('--fail');
+  const feePayer = keypairIndex !== -1 ? loadKeypairFile(process.argv[keypairIndex + 1]) : Keypair.generate();
+  const relayer = await startMockRelayer(connection, feePayer, portIndex !== -1 ? Number(process.argv[portIndex + 1]) : HARNESS_RELAYER_PORT);
+  if (failIndex !== -1) relayer.failures.push(...(process.argv[failIndex + 1].split(',') as RelayerFailure[]));
+  if (keypairIndex === -1) await airdrop(connection, feePayer.publicKey, 100);
+  console.log(`🛰️  Mock relayer on ${relayer.url}, fee payer ${feePayer.publicKey.toBase58()}`);
+  console.log(`   ${getClusterName().toUpperCase()}_RELAYER_URL=${relayer.url} ${getClusterName().toUpperCase()}_RELAYER_PUBKEY=${feePayer.publicKey.toBase58()}`);
+  if (relayer.failures.length) console.log(`   Failing the next ${relayer.failures.length} request(s): ${relayer.failures.join(', ')}`);
+}
 
-  try {
-    const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
-    console.log(`✅ Mint Info: ${mintInfo.supply} tokens, Decimals: ${mintInfo.decimals}`);
-    console.log(`   Mint Authority: ${mintInfo.mintAuthority ? mintInfo.mintAuthority.toBase58() : 'null'}`);
-    console.log(`   Freeze Authority: ${mintInfo.freezeAuthority ? mintInfo.freezeAuthority.toBase58() : 'null'}`);
+// Prints the webhook events of deployments pointed at it with WEBHOOK_URLS, checking them against WEBHOOK_SECRET.
+async function serveWebhookReceiver(): Promise<void> {
+  const portIndex = process.argv.indexOf('--port');
+  const receiver = await startWebhookReceiver(portIndex !== -1 ? Number(process.argv[portIndex + 1]) : HARNESS_WEBHOOK_PORT, process.env.WEBHOOK_SECRET);
+  console.log(`📨 Webhook receiver on ${receiver.url}${process.env.WEBHOOK_SECRET ? ', checking signatures with WEBHOOK_SECRET' : ''}`);
+  console.log(`   WEBHOOK_URLS=${receiver.url}`);
+}
 
-    const treasuryAta = findAssociatedTokenAddress(treasuryPubkey, mint);
-    const ataBalance = await getTokenAccountBalance(connection, treasuryAta, 'confirmed');
-    console.log(`✅ Treasury ATA: ${treasuryAta.toBase58()}`);
-    console.log(`   Balance: ${ataBalance.value.uiAmountString} ΩAGENT`);
+// A remote signer for USER_AUTH (or another key) in a process of its own, for USER_AUTH_SIGNER=remote:<address>.
+async function serveRemoteSigner(): Promise<void> {
+  const keypairIndex = process.argv.indexOf('--keypair');
+  const keystoreIndex = process.argv.indexOf('--keystore');
+  const portIndex = process.argv.indexOf('--port');
+  const socketIndex = process.argv.indexOf('--socket');
+  const keypair = keypairIndex !== -1 ? loadKeypairFile(process.argv[keypairIndex + 1]) : await loadKeystoreFile(keystoreIndex !== -1 ? process.argv[keystoreIndex + 1] : getUserAuthPaths().keystore);
+  const listen = socketIndex !== -1 ? { socketPath: path.resolve(__dirname, process.argv[socketIndex + 1]) } : { port: portIndex !== -1 ? Number(process.argv[portIndex + 1]) : REMOTE_SIGNER_PORT };
+  const signer = await startRemoteSigner(keypair, listen);
+  console.log(`✍️  Remote signer for ${keypair.publicKey.toBase58()} on ${signer.address}`);
+  console.log(`   USER_AUTH_SIGNER=remote:${signer.address}`);
+  if (!process.env.REMOTE_SIGNER_TOKEN && !('socketPath' in listen)) console.warn('⚠️  Any local process can ask for signatures: set REMOTE_SIGNER_TOKEN on both sides, or serve on a --socket.');
+}
 
-    const metadataPda = findMetadataPda(mint);
-    const metadataInfo = await connection.getAccountInfo(metadataPda);
-    console.log(`✅ Metadata: ${metadataInfo ? 'Set' : 'Not set'}`);
-    if (metadataInfo) console.log(`   Metadata PDA: ${metadataPda.toBase58()}`);
-  } catch (e) {
-    console.error(`Error checking status: ${e.message}`);
-  }
+// A software Ledger for trying USER_AUTH_SIGNER=ledger without a device. Its keys derive from LEDGER_EMULATOR_SEED (hex),
+// or from a fresh seed that is gone when it stops.
+async function serveLedgerEmulator(): Promise<void> {
+  const portIndex = process.argv.indexOf('--port');
+  const seed = process.env.LEDGER_EMULATOR_SEED ? Buffer.from(process.env.LEDGER_EMULATOR_SEED, 'hex') : crypto.randomBytes(32);
+  const emulator = await startLedgerEmulator(seed, portIndex !== -1 ? Number(process.argv[portIndex + 1]) : Number(DEFAULT_LEDGER_APDU.split(':')[1]));
+  console.log(`🔐 Ledger emulator on ${emulator.address}; ${DEFAULT_LEDGER_PATH} is ${deriveEd25519Keypair(seed, parseDerivationPath(DEFAULT_LEDGER_PATH)).publicKey.toBase58()}`);
+  console.log(`   USER_AUTH_SIGNER=ledger LEDGER_APDU=${emulator.address}`);
+  if (!process.env.LEDGER_EMULATOR_SEED) console.warn('⚠️  Keys from a fresh seed are lost when the emulator stops; never let them hold mainnet authorities.');
 }
 
-async function runAllSteps(): Promise<void> {
-  console.log('Running full deployment...');
-  await createTokenMint();
-  await mintInitialSupply();
-  await setTokenMetadata();
-  await lockAuthorities();
+// CLI
+// What has to be in place before a command runs:
+//   none: nothing (scaffolding, offline signing, report checks)
+//   read: a valid manifest and .env and a reachable RPC
+//   sign: read, plus an unlocked USER_AUTH
+//   deploy: sign, plus the project files, the owner's confirmation and a reconciled journal
+type Preflight = 'none' | 'read' | 'sign' | 'deploy';
+
+interface CliCommand {
+  usage: string;
+  description: string;
+  preflight: Preflight;
+  run: (args: string[]) => Promise<unknown>; // the result printed by --json
+  serves?: boolean; // keeps running after run() returns
 }
 
-async function confirmOwnerAddress(): Promise<boolean> {
-  console.log(`\n📢 Owner Address Announcement:`);
-  console.log(`The treasury owner for Omega Prime Token is set to: ${OWNER_ADDRESS}`);
-  console.log(`This address will receive 1,000,000,000 ΩAGENT tokens.`);
-  const confirm = await askQuestion('Confirm this is correct (yes/no): ');
-  return confirm.toLowerCase() === 'yes';
+const CLI_VALUE_FLAGS = ['--config', '--manifest', '--deployment', '--cluster', '--from', '--report', '--keypair', '--keystore', '--port', '--fail', '--confirm-mint', '--signer', '--socket', '--min-slot', '--top', '--memo', '--name', '--symbol', '--decimals', '--supply', '--treasury', '--fee-bps', '--max-fee', '--dao', '--multisig'];
+const CLI_BOOLEAN_FLAGS = ['--yes', '--json', '--offline', '--all', '--help', '--lookup-table', '--check'];
+
+function requireArgument(args: string[], command: string): string {
+  if (!args[0]) throw cliError(`Usage: ${COMMANDS[command].usage}`, EXIT_CODES.usage);
+  return args[0];
 }
 
-async function grokCopilot() {
-  console.log('🚀 Grok Copilot for Stunning Solana: Omega Prime Token Deployment');
-  console.log('-------------------------------------------------------------');
+const COMMANDS: Record<string, CliCommand> = {
+  init: {
+    usage: 'init [simple|fee-bearing|dao] [--treasury <address>] [--check]',
+    description: 'Scaffold a project from a template (more flags in the README), or report the files that drifted from it',
+    preflight: 'none',
+    run: (args) => initProject(args[0]),
+  },
+  'create-mint': {
+    usage: 'create-mint',
+    description: 'Create the Token-2022 mint with the manifest extensions',
+    preflight: 'deploy',
+    run: async () => ({ mint: (await createTokenMint()).toBase58() }),
+  },
+  'mint-supply': {
+    usage: 'mint-supply',
+    description: 'Mint the initial supply to every recipient',
+    preflight: 'deploy',
+    run: async () => {
+      await mintInitialSupply();
+      return { allocations: loadAllocationStatus() };
+    },
+  },
+  'set-metadata': {
+    usage: 'set-metadata',
+    description: 'Publish the metadata JSON and write it on-chain, after a field-by-field preview of any change',
+    preflight: 'deploy',
+    run: async () => ({ uri: await setTokenMetadata() }),
+  },
+  'metadata-history': {
+    usage: 'metadata-history',
+    description: 'List the on-chain metadata versions with their URIs and signatures',
+    preflight: 'read',
+    run: async () => ({ versions: printMetadataHistory() }),
+  },
+  'finalize-metadata': {
+    usage: 'finalize-metadata [--confirm-mint <mint>]',
+    description: 'Make the metadata immutable for good, after typing the mint address',
+    preflight: 'deploy',
+    run: async () => ({ version: await finalizeMetadata() }),
+  },
+  lock: {
+    usage: 'lock [--confirm-mint <mint>]',
+    description: 'Hand the mint and freeze authorities to the manifest authority policy',
+    preflight: 'deploy',
+    run: async () => {
+      await lockAuthorities();
+      return getDeploymentSummary();
+    },
+  },
+  airdrop: {
+    usage: 'airdrop <recipients.csv> [--keypair <treasury>] [--lookup-table]',
+    description: 'Pay recipient,amount rows from the treasury, resumable from per-row receipts',
+    preflight: 'deploy',
+    run: async (args) => {
+      const receipts = await runAirdrop(requireArgument(args, 'airdrop'), process.argv.includes('--lookup-table'));
+      return { ...receipts, paid: receipts.rows.filter((r) => r.status === 'paid').length };
+    },
+  },
+  'mint-more': {
+    usage: 'mint-more [<recipient> <amount> --memo <justification> [--keypair <treasury>]]',
+    description: 'Issue whole tokens beyond the initial supply under the manifest mintPolicy, or show the issuance ledger',
+    preflight: 'deploy',
+    run: async (args) => {
+      const memoIndex = process.argv.indexOf('--memo');
+      return mintMore(args[0], args[1], memoIndex !== -1 ? process.argv[memoIndex + 1] : '');
+    },
+  },
+  snapshot: {
+    usage: 'snapshot [take [--min-slot <n>] [--top <n>] | diff <from> <to>]',
+    description: 'Snapshot every holder with supply and concentration stats to JSON and CSV, or diff two snapshots',
+    preflight: 'read',
+    run: async (args) => {
+      const [action = 'take', ...refs] = args;
+      if (action === 'diff' && refs.length === 2) return diffSnapshots(loadSnapshot(refs[0]), loadSnapshot(refs[1]));
+      const [minSlotIndex, topIndex] = [process.argv.indexOf('--min-slot'), process.argv.indexOf('--top')];
+      const minSlot = minSlotIndex !== -1 ? Number(process.argv[minSlotIndex + 1]) : undefined;
+      const top = topIndex !== -1 ? Number(process.argv[topIndex + 1]) : 10;
+      if (action !== 'take' || refs.length || (minSlot !== undefined && !Number.isInteger(minSlot)) || !Number.isInteger(top)) {
+        throw cliError(`Usage: ${COMMANDS.snapshot.usage}`, EXIT_CODES.usage);
+      }
+      return takeSnapshot(minSlot, top);
+    },
+  },
+  'lookup-table': {
+    usage: 'lookup-table [show|create|extend|freeze] [address...]',
+    description: 'Manage the deployment Address Lookup Table that v0 transactions load accounts from',
+    preflight: 'deploy',
+    run: async (args) => {
+      const [action = 'show', ...addresses] = args;
+      if (action === 'create') await createLookupTable();
+      else if (action === 'extend') {
+        if (!addresses.every(isPublicKey)) throw cliError(`Usage: ${COMMANDS['lookup-table'].usage}`, EXIT_CODES.usage);
+        await extendLookupTable(addresses.map((a) => new PublicKey(a)));
+      } else if (action === 'freeze') await freezeLookupTable();
+      else if (action !== 'show') throw cliError(`Usage: ${COMMANDS['lookup-table'].usage}`, EXIT_CODES.usage);
+      return printLookupTable();
+    },
+  },
+  authorities: {
+    usage: 'authorities',
+    description: 'List the mint, extension and metadata authorities and their holders',
+    preflight: 'read',
+    run: async () => ({ authorities: await printAuthorities() }),
+  },
+  'rotate-authority': {
+    usage: 'rotate-authority <role> <address>',
+    description: 'Move one authority held by USER_AUTH to another key',
+    preflight: 'deploy',
+    run: async (args) => {
+      const role = parseAuthorityRole(args[0], 'rotate-authority');
+      if (!isPublicKey(args[1])) throw cliError(`Usage: ${COMMANDS['rotate-authority'].usage}`, EXIT_CODES.usage);
+      return changeAuthority(role, new PublicKey(args[1]));
+    },
+  },
+  'revoke-authority': {
+    usage: 'revoke-authority <role> [--confirm-mint <mint>]',
+    description: 'Set one authority held by USER_AUTH to null, after typing the mint address',
+    preflight: 'deploy',
+    run: async (args) => changeAuthority(parseAuthorityRole(args[0], 'revoke-authority'), null),
+  },
+  deploy: {
+    usage: 'deploy',
+    description: 'Run create-mint, mint-supply, set-metadata and lock',
+    preflight: 'deploy',
+    run: async () => {
+      await runAllSteps();
+      await checkDeploymentStatus();
+      return getDeploymentSummary();
+    },
+  },
+  status: {
+    usage: 'status',
+    description: 'Show the mint, authorities, balances, journal and nonce accounts',
+    preflight: 'read',
+    run: async () => {
+      await checkDeploymentStatus();
+      return getDeploymentSummary();
+    },
+  },
+  verify: {
+    usage: 'verify',
+    description: 'Check the deployment against the manifest and write a signed audit report',
+    preflight: 'sign',
+    run: async () => {
+      const report = await verifyDeployment();
+      if (!report.passed) process.exitCode = EXIT_CODES.verifyFailed;
+      return report;
+    },
+  },
+  'verify-report': {
+    usage: 'verify-report <audit.json>',
+    description: 'Check the signature of a published audit report',
+    preflight: 'none',
+    run: async (args) => {
+      const report: AuditReport = JSON.parse(fs.readFileSync(requireArgument(args, 'verify-report'), 'utf-8'));
+      const valid = verifyAuditReportSignature(report);
+      console.log(valid ? `✅ Signature valid: signed by ${report.signer}, ${report.passed ? 'passed' : 'failed'} at ${report.generatedAt}` : '❌ Signature missing or invalid.');
+      if (!valid) process.exitCode = EXIT_CODES.verifyFailed;
+      return { valid, signer: report.signer ?? null, passed: report.passed, generatedAt: report.generatedAt };
+    },
+  },
+  rollback: {
+    usage: 'rollback',
+    description: 'Archive the journal, forget the mint and delete USER_AUTH, once it holds no on-chain authorities',
+    preflight: 'none',
+    run: async () => {
+      if (!(await confirmAction(`Roll back deployment "${getDeploymentName()}" and delete the local USER_AUTH key?`))) {
+        throw cliError('Rollback cancelled.', EXIT_CODES.notConfirmed);
+      }
+      await rollback();
+      return { deployment: getDeploymentName() };
+    },
+  },
+  promote: {
+    usage: 'promote [--from devnet] [--cluster mainnet]',
+    description: 'Replay a deployment that passes verification on --from onto --cluster and diff the states',
+    preflight: 'deploy',
+    run: async () => {
+      const fromIndex = process.argv.indexOf('--from');
+      const from = fromIndex !== -1 ? process.argv[fromIndex + 1] : 'devnet';
+      if (!CLUSTERS.includes(from as ClusterName)) throw cliError(`Unknown cluster "${from}": use one of ${CLUSTERS.join(', ')}`, EXIT_CODES.usage);
+      return promoteDeployment(from as ClusterName);
+    },
+  },
+  'dry-run': {
+    usage: 'dry-run [--report text|json]',
+    description: 'Run every step against DRY_RUN_RPC_URL and report costs and account changes',
+    preflight: 'sign',
+    run: async () => {
+      console.log(`Running dry-run against ${process.env.DRY_RUN_RPC_URL || 'http://127.0.0.1:8899'}...`);
+      return runDryRun(getReportFormat());
+    },
+  },
+  'withdraw-fees': {
+    usage: 'withdraw-fees',
+    description: 'Withdraw withheld transfer fees to the treasury',
+    preflight: 'deploy',
+    run: async () => {
+      await withdrawWithheldFees();
+      return getDeploymentSummary();
+    },
+  },
+  sign: {
+    usage: 'sign <bundle.json> --keypair <path> | --keystore <path> | --signer <solana-cli[:path] | remote:<address> | ledger[:path]>',
+    description: 'Sign an offline bundle (air-gapped: no .env or RPC needed)',
+    preflight: 'none',
+    run: async (args) => {
+      const keypairIndex = process.argv.indexOf('--keypair');
+      const keystoreIndex = process.argv.indexOf('--keystore');
+      const signerIndex = process.argv.indexOf('--signer');
+      const bundlePath = requireArgument(args, 'sign');
+      if (keypairIndex === -1 && keystoreIndex === -1 && signerIndex === -1) throw cliError(`Usage: ${COMMANDS.sign.usage}`, EXIT_CODES.usage);
+      const keypair =
+        keystoreIndex !== -1
+          ? await loadKeystoreFile(process.argv[keystoreIndex + 1])
+          : keypairIndex !== -1
+            ? loadKeypairFile(process.argv[keypairIndex + 1])
+            : await openSigner(parseSignerSpec(process.argv[signerIndex + 1]));
+      await signOfflineBundle(bundlePath, keypair);
+      return { bundle: bundlePath, signer: keypair.publicKey.toBase58() };
+    },
+  },
+  import: {
+    usage: 'import <bundle.json>',
+    description: 'Submit a signed offline bundle',
+    preflight: 'read',
+    run: async (args) => ({ signatures: await importOfflineBundle(requireArgument(args, 'import')) }),
+  },
+  'mock-relayer': {
+    usage: 'mock-relayer [--keypair <fee payer>] [--port 8998] [--fail error,http,drop,blackhole]',
+    description: 'Serve a fee-paying mock relayer in front of a non-mainnet cluster',
+    preflight: 'none',
+    run: serveMockRelayer,
+    serves: true,
+  },
+  'signer-server': {
+    usage: 'signer-server [--keypair <path> | --keystore <path>] [--port 8997 | --socket <path>]',
+    description: 'Serve a key (default: the USER_AUTH keystore) as a remote signer on localhost or a Unix socket',
+    preflight: 'none',
+    run: serveRemoteSigner,
+    serves: true,
+  },
+  'ledger-emulator': {
+    usage: 'ledger-emulator [--port 9999]',
+    description: 'Serve a software Ledger running the Solana app protocol, for testing USER_AUTH_SIGNER=ledger',
+    preflight: 'none',
+    run: serveLedgerEmulator,
+    serves: true,
+  },
+  'webhook-receiver': {
+    usage: 'webhook-receiver [--port 8995]',
+    description: 'Serve a local webhook endpoint that prints deployment events, for testing WEBHOOK_URLS',
+    preflight: 'none',
+    run: serveWebhookReceiver,
+    serves: true,
+  },
+  'serve-storage': {
+    usage: 'serve-storage',
+    description: 'Serve the local metadata storage directory over HTTP',
+    preflight: 'none',
+    run: async () => serveLocalStorage(loadManifest()),
+    serves: true,
+  },
+};
 
-  console.log('\n🔍 Checking for required files...');
-  const allFilesPresent = await checkAndCreateFiles();
-  if (!allFilesPresent) {
-    console.log('✅ Created missing files. Please verify and commit changes before proceeding.');
-    console.log('Run:');
-    console.log('  git add .');
-    console.log('  git commit -m "Add files for Omega Prime Token deployment"');
-    console.log('  git push origin main');
-    console.log('Then restart the copilot: npm run mainnet:copilot');
-    rl.close();
-    process.exit(0);
+// Splits argv into the command and its positional arguments, rejecting unknown flags. Flag values are read where
+// they are used (getManifestPath, getDeploymentName, ...).
+function parseCli(argv: string[]): { command: string; args: string[] } {
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (CLI_VALUE_FLAGS.includes(argv[i])) {
+      if (!argv[i + 1] || argv[i + 1].startsWith('--')) throw cliError(`${argv[i]} needs a value.`, EXIT_CODES.usage);
+      i++;
+    } else if (argv[i].startsWith('--')) {
+      if (!CLI_BOOLEAN_FLAGS.includes(argv[i])) throw cliError(`Unknown flag ${argv[i]}. Run with --help for usage.`, EXIT_CODES.usage);
+    } else {
+      positional.push(argv[i]);
+    }
   }
+  // --all predates the subcommands; npm run mainnet:all still uses it.
+  const command = positional[0] ?? (argv.includes('--all') ? (process.env.DRY_RUN === 'true' ? 'dry-run' : 'deploy') : 'menu');
+  if (command !== 'menu' && command !== 'help' && !COMMANDS[command]) throw cliError(`Unknown command "${command}". Run with --help for usage.`, EXIT_CODES.usage);
+  return { command, args: positional.slice(1) };
+}
 
-  if (!(await confirmOwnerAddress())) {
-    console.error('🛑 Owner address not confirmed. Please update TREASURY_PUBKEY in .env and try again.');
-    rl.close();
-    process.exit(1);
-  }
+function printUsage(): void {
+  console.log('Usage: npx ts-node grok.copilot.ts [command] [flags]');
+  console.log('\nCommands (without one, the interactive menu starts):');
+  const width = Math.max(...Object.values(COMMANDS).map((command) => command.usage.length));
+  for (const command of Object.values(COMMANDS)) console.log(`  ${command.usage.padEnd(width)}  ${command.description}`);
+  console.log('\nFlags:');
+  console.log('  --config <path>       Token manifest (alias of --manifest, default MANIFEST_PATH or token.manifest.json)');
+  console.log('  --deployment <name>   Deployment namespace under .cache/ (default: the manifest file name)');
+  console.log(`  --cluster <name>      Cluster profile: ${CLUSTERS.join(', ')} (default CLUSTER or mainnet)`);
+  console.log('  --yes                 Answer confirmations with yes; required for confirmations without a terminal');
+  console.log('  --confirm-mint <mint> Confirm a revocation or metadata finalize without a terminal');
+  console.log('  --json                Print only a JSON result on stdout; progress goes to stderr');
+  console.log('  --offline             Export transactions for offline signing instead of signing with USER_AUTH');
+  console.log('\nExit codes:');
+  for (const [name, code] of Object.entries(EXIT_CODES)) console.log(`  ${code}  ${name}`);
+}
 
-  if (!(await checkEnv())) {
-    console.error('🛑 Environment check failed. Please fix .env and try again.');
-    rl.close();
-    process.exit(1);
+async function runPreflight(preflight: Preflight): Promise<void> {
+  if (preflight === 'none') return;
+  if (preflight === 'deploy') {
+    if (!fs.existsSync(getManifestPath())) throw cliError(`No manifest at ${getManifestPath()}. Run \`init\` to scaffold the project.`, EXIT_CODES.config);
+    if (!(await confirmOwnerAddress())) {
+      throw cliError(`Owner address not confirmed. Please update the manifest (${getManifestPath()}) and try again.`, EXIT_CODES.notConfirmed);
+    }
   }
+  if (!(await checkEnv())) throw cliError('Environment check failed. Please fix .env and try again.', EXIT_CODES.config);
+  if (preflight === 'read') return;
+  await unlockUserAuth();
+  if (preflight === 'deploy') await reconcileJournal(getConnection());
+}
 
-  if (process.argv.includes('--all')) {
-    await runAllSteps();
-    await checkDeploymentStatus();
-    rl.close();
-    process.exit(0);
-  }
+// The interactive copilot: a numbered menu over the same commands the CLI runs.
+async function runMenu(): Promise<void> {
+  if (!process.stdin.isTTY) throw cliError('The interactive menu needs a terminal; pass a command instead (see --help).', EXIT_CODES.usage);
+  console.log('🚀 Grok Copilot for Stunning Solana: Omega Prime Token Deployment');
+  console.log('-------------------------------------------------------------');
+  await runPreflight('deploy');
 
   console.log('\n🔍 Checking deployment status...');
   await checkDeploymentStatus();
+  // As on the command line, each action that sends transactions is a step of its own; deploy's four run within it.
+  const runCommand = (name: string, args: string[] = []) => (COMMANDS[name].preflight === 'deploy' ? withStep(name, () => COMMANDS[name].run(args)) : COMMANDS[name].run(args));
 
   while (true) {
     console.log('\n📋 Available Actions:');
@@ -594,49 +6548,230 @@ async function grokCopilot() {
     console.log('6. Check deployment status');
     console.log('7. Run dry-run (all steps)');
     console.log('8. Rollback (delete cache)');
-    console.log('9. Exit');
+    console.log('9. Withdraw withheld transfer fees');
+    console.log('10. DAO proposals');
+    console.log('11. Import signed offline bundle');
+    console.log('12. Durable nonces');
+    console.log('13. Verify deployment (audit report)');
+    console.log('14. Authorities (list, rotate, revoke)');
+    console.log('15. Holder snapshot');
+    console.log('16. Mint more (under the mint policy)');
+    console.log('17. Metadata versions (history, finalize)');
+    console.log('18. Exit');
 
-    const choice = await askQuestion('Select an action (1-9): ');
+    const choice = await askQuestion('Select an action (1-18): ');
 
     switch (choice) {
       case '1':
-        await runAllSteps();
+        await runCommand('deploy');
         break;
       case '2':
-        await createTokenMint();
+        await runCommand('create-mint');
         break;
       case '3':
-        await mintInitialSupply();
+        await runCommand('mint-supply');
         break;
       case '4':
-        await setTokenMetadata();
+        await runCommand('set-metadata');
         break;
       case '5':
-        await lockAuthorities();
+        await runCommand('lock');
         break;
       case '6':
         await checkDeploymentStatus();
         break;
       case '7':
-        console.log('Running dry-run...');
-        process.env.DRY_RUN = 'true';
-        await runAllSteps();
+        console.log(`Running dry-run against ${process.env.DRY_RUN_RPC_URL || 'http://127.0.0.1:8899'}...`);
+        await runDryRun((await askQuestion('Report format (text/json) [text]: ')) === 'json' ? 'json' : 'text');
         break;
       case '8':
-        await rollback();
+        await runCommand('rollback');
         break;
       case '9':
+        await runCommand('withdraw-fees');
+        break;
+      case '10':
+        await withStep('dao-proposals', manageDaoProposals);
+        break;
+      case '11':
+        await runCommand('import', [await askQuestion('Offline bundle: ')]);
+        break;
+      case '12':
+        await withStep('nonce-accounts', manageNonceAccounts);
+        break;
+      case '13':
+        await runCommand('verify');
+        break;
+      case '14':
+        await withStep('authorities', manageAuthorities);
+        break;
+      case '15':
+        await runCommand('snapshot');
+        break;
+      case '16': {
+        const recipient = await askQuestion('Recipient (blank to show the ledger): ');
+        if (!recipient) await mintMore();
+        else {
+          const [amount, memo] = [await askQuestion('Amount (whole tokens): '), await askQuestion('Justification memo: ')];
+          await withStep('mint-more', () => mintMore(recipient, amount, memo));
+        }
+        break;
+      }
+      case '17':
+        await withStep('metadata-versions', manageMetadataVersions);
+        break;
+      case '18':
         console.log('👋 Exiting Grok Copilot');
-        rl.close();
-        process.exit(0);
+        return;
       default:
-        console.log('❌ Invalid choice. Please select 1-9.');
+        console.log('❌ Invalid choice. Please select 1-18.');
     }
   }
 }
 
-grokCopilot().catch((e) => {
-  console.error(`Grok Copilot failed: ${e.message}`);
-  rl.close();
-  process.exit(1);
-});
+// Resolves to the process exit code, or null while a serving command keeps running.
+async function grokCopilot(): Promise<number | null> {
+  const json = process.argv.includes('--json');
+  // Every human-readable line goes to stderr under --json, so stdout is exactly one JSON document.
+  if (json) console.log = console.error;
+  installJsonLogging();
+  const { command, args } = parseCli(process.argv.slice(2));
+  const clusterIndex = process.argv.indexOf('--cluster');
+  if (clusterIndex !== -1) process.env.CLUSTER = process.argv[clusterIndex + 1];
+  getClusterName(); // fail on an unknown cluster before anything runs
+  if (command === 'help' || process.argv.includes('--help')) {
+    printUsage();
+    return EXIT_CODES.ok;
+  }
+  if (process.env.METRICS_PORT) await startMetricsServer(Number(process.env.METRICS_PORT));
+  process.on('exit', writeMetricsFile);
+  if (command === 'menu') {
+    await runMenu();
+    return EXIT_CODES.ok;
+  }
+
+  const { preflight, run, serves } = COMMANDS[command];
+  // --all still dry-runs under DRY_RUN=true; the commands it became do not, and would half-apply it.
+  if (preflight === 'deploy' && process.env.DRY_RUN === 'true') {
+    throw cliError(`DRY_RUN=true does not make ${command} a dry run; run \`dry-run\` instead, or unset DRY_RUN.`, EXIT_CODES.usage);
+  }
+  await runPreflight(preflight);
+  // Commands that send transactions are steps of their own; deploy's four steps run within it.
+  const result = await (preflight === 'deploy' ? withStep(command, () => run(args)) : run(args));
+  if (serves) return null;
+  const exitCode = Number(process.exitCode ?? EXIT_CODES.ok);
+  if (json) {
+    const bigintAsString = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+    process.stdout.write(JSON.stringify({ command, ok: exitCode === EXIT_CODES.ok, exitCode, result }, bigintAsString, 2) + '\n');
+  }
+  return exitCode;
+}
+
+// What the tests in tests/ drive; run as a script, the file is the CLI.
+export type {
+  AuditReport,
+  FetchLike,
+  IssuanceLedger,
+  MintPolicy,
+  MockRelayer,
+  ProjectTemplate,
+  ScaffoldParams,
+  SendHooks,
+  SubmitterConnection,
+  TokenManifest,
+  WebhookReceiver,
+};
+export {
+  DEFAULT_MANIFEST,
+  EXIT_CODES,
+  HARNESS_LEDGER_PORT,
+  HARNESS_RELAYER_PORT,
+  HARNESS_RPC_PORT,
+  HARNESS_WEBHOOK_PORT,
+  PROJECT_TEMPLATES,
+  WEBHOOK_ATTEMPTS,
+  airdrop,
+  changeAuthority,
+  checkMintPolicy,
+  classifySendError,
+  computeSnapshotStats,
+  createBatchRelayerSubmitter,
+  createLookupTable,
+  createRelayerSubmitter,
+  createRpcSubmitter,
+  createStorage,
+  createSubmitter,
+  createTokenMint,
+  decodeMetaplexMetadata,
+  decryptKeystore,
+  diffAuditReports,
+  diffSnapshots,
+  emitEvent,
+  encryptKeystore,
+  executeDaoProposal,
+  exportOfflineBundle,
+  exportProposalApproval,
+  finalizeMetadata,
+  findAssociatedTokenAddress,
+  findMetadataPda,
+  getCacheDir,
+  getConnection,
+  getDeploymentSummary,
+  getUserAuthPaths,
+  grokCopilot,
+  importOfflineBundle,
+  journaledSend,
+  listAuthorities,
+  loadIssuanceLedger,
+  loadJournal,
+  loadManifest,
+  loadOrCreateUserAuth,
+  loadSnapshot,
+  mintMore,
+  packGroups,
+  parseAirdropCsv,
+  parseTokenAmount,
+  printMetadataHistory,
+  promoteDeployment,
+  proposeDaoAction,
+  resolveAllocations,
+  rollback,
+  runAirdrop,
+  runAllSteps,
+  runDryRun,
+  scaffoldParamsFromManifest,
+  scaffoldProject,
+  sendError,
+  setTokenMetadata,
+  signAuditReport,
+  signOfflineBundle,
+  startLedgerEmulator,
+  startMockRelayer,
+  startRemoteSigner,
+  startTestValidator,
+  startWebhookReceiver,
+  takeSnapshot,
+  unlockUserAuth,
+  validateManifest,
+  verifyAuditReportSignature,
+  verifyDeployment,
+  withEnv,
+  withStep,
+};
+
+if (require.main === module) {
+  grokCopilot().then(
+    (exitCode) => {
+      if (exitCode === null) return;
+      rl?.close();
+      process.exit(exitCode);
+    },
+    (e) => {
+      const exitCode = e.exitCode ?? EXIT_CODES.error;
+      console.error(`Grok Copilot failed: ${e.message}`);
+      if (process.argv.includes('--json')) process.stdout.write(JSON.stringify({ ok: false, exitCode, error: e.message, kind: e.kind }, null, 2) + '\n');
+      rl?.close();
+      process.exit(exitCode);
+    }
+  );
+}
@@ -0,0 +1,76 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ComputeBudgetProgram, Keypair, PACKET_DATA_SIZE, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, createAssociatedTokenAccountIdempotentInstruction, createTransferCheckedInstruction } from '@solana/spl-token';
+import { DEFAULT_MANIFEST, EXIT_CODES, TokenManifest, findAssociatedTokenAddress, packGroups, parseAirdropCsv, resolveAllocations } from '../grok.copilot';
+
+const address = () => Keypair.generate().publicKey.toBase58();
+
+function percentManifest(percents: number[]): TokenManifest {
+  const recipients = percents.map((percent, i) => ({ label: `r${i}`, address: address(), percent }));
+  return { ...DEFAULT_MANIFEST, decimals: 0, supply: '1000', treasury: recipients[0].address, recipients };
+}
+
+test('percentage rounding dust goes to the treasury', () => {
+  const manifest = percentManifest([33.333333, 33.333333, 33.333334]);
+  const allocations = resolveAllocations(manifest);
+  assert.deepEqual(allocations.map((a) => a.amount), [BigInt(334), BigInt(333), BigInt(333)]);
+});
+
+test('percentages that fall short of the supply by more than their rounding are refused', () => {
+  assert.throws(() => resolveAllocations(percentManifest([50, 49.8])), /expected supply 1000/);
+});
+
+test('packed transactions carry whole groups of any size, in order, with room for a durable nonce', () => {
+  const [feePayer, nonceAuthority] = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+  const [mint, source, owner] = [Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey];
+  // Every other recipient needs its token account created, so the groups alternate between one and two instructions.
+  const groups = Array.from({ length: 30 }, (_, i) => {
+    const recipient = new PublicKey(address());
+    const ata = findAssociatedTokenAddress(recipient, mint);
+    return [
+      ...(i % 2 ? [createAssociatedTokenAccountIdempotentInstruction(feePayer, ata, recipient, mint, TOKEN_2022_PROGRAM_ID)] : []),
+      createTransferCheckedInstruction(source, mint, ata, owner, BigInt(1), 0, [], TOKEN_2022_PROGRAM_ID),
+    ];
+  });
+  const packed = packGroups(feePayer, nonceAuthority, groups);
+  assert.ok(packed.length > 1, 'everything fit in one transaction');
+  assert.deepEqual(packed.flatMap((p) => p.groups), groups.map((_, i) => i));
+  for (const { tx, groups: indices } of packed) {
+    assert.deepEqual(tx.instructions, indices.flatMap((i) => groups[i]));
+    // What goes on the wire under a durable nonce: nonceAdvance signed by its authority, then the compute budget.
+    const sent = new Transaction().add(
+      SystemProgram.nonceAdvance({ noncePubkey: Keypair.generate().publicKey, authorizedPubkey: nonceAuthority }),
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+      ...tx.instructions
+    );
+    sent.feePayer = feePayer;
+    sent.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    assert.ok(sent.serialize({ requireAllSignatures: false, verifySignatures: false }).length <= PACKET_DATA_SIZE, 'a packed transaction overflows once the nonce is attached');
+  }
+});
+
+test('an airdrop CSV skips its header, comments and blank lines, and reports every bad row at once', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-csv-'));
+  const csv = (name: string, lines: string[]) => {
+    const csvPath = path.join(dir, name);
+    fs.writeFileSync(csvPath, lines.join('\r\n'));
+    return csvPath;
+  };
+  try {
+    const [first, second] = [address(), address()];
+    const rows = parseAirdropCsv(csv('good.csv', ['recipient,amount', '# team', '', `${first}, 1.5`, `${second},2`]), 2);
+    assert.deepEqual(rows, [{ line: 4, recipient: first, amount: BigInt(150) }, { line: 5, recipient: second, amount: BigInt(200) }]);
+
+    const bad = csv('bad.csv', ['address,amount', `${first},1.505`, 'nobody,1', `${second}`, `${second},0`]);
+    assert.throws(() => parseAirdropCsv(bad, 2), (e: Error & { exitCode?: number }) =>
+      e.exitCode === EXIT_CODES.config && ['line 2: 1.505', 'line 3: nobody', 'line 4: expected', 'line 5: 0'].every((error) => e.message.includes(error)));
+    assert.throws(() => parseAirdropCsv(csv('empty.csv', ['recipient,amount', '# nothing yet']), 2), /has no rows/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,435 @@
+// Deploys, re-runs, rolls back and redeploys throwaway tokens on a local validator through the mock relayer, without
+// touching .cache/: every deployment, USER_AUTH included, lives in .cache/harness/.
+import * as assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComputeBudgetInstruction, ComputeBudgetProgram, Keypair, PublicKey, SystemInstruction, Transaction, VersionedTransaction, sendAndConfirmTransaction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, createMintToCheckedInstruction, getTokenMetadata } from '@solana/spl-token';
+import * as multisig from '@sqds/multisig';
+import {
+  DEFAULT_MANIFEST,
+  EXIT_CODES,
+  HARNESS_LEDGER_PORT,
+  MintPolicy,
+  TokenManifest,
+  WEBHOOK_ATTEMPTS,
+  airdrop,
+  changeAuthority,
+  createLookupTable,
+  createSubmitter,
+  createTokenMint,
+  decodeMetaplexMetadata,
+  diffSnapshots,
+  emitEvent,
+  executeDaoProposal,
+  exportProposalApproval,
+  finalizeMetadata,
+  findAssociatedTokenAddress,
+  findMetadataPda,
+  getCacheDir,
+  getConnection,
+  getDeploymentSummary,
+  getUserAuthPaths,
+  grokCopilot,
+  importOfflineBundle,
+  journaledSend,
+  listAuthorities,
+  loadIssuanceLedger,
+  loadJournal,
+  loadManifest,
+  loadOrCreateUserAuth,
+  loadSnapshot,
+  mintMore,
+  parseTokenAmount,
+  printMetadataHistory,
+  promoteDeployment,
+  proposeDaoAction,
+  rollback,
+  runAirdrop,
+  runAllSteps,
+  setTokenMetadata,
+  signOfflineBundle,
+  startLedgerEmulator,
+  startRemoteSigner,
+  takeSnapshot,
+  unlockUserAuth,
+  verifyDeployment,
+  withEnv,
+  withStep,
+} from '../grok.copilot';
+import { Harness, SKIP_INTEGRATION, deployAndVerify, readMint, startHarness, writeHarnessManifest } from './harness';
+
+// Settles with whether the promise rejected with an error matching the predicate.
+const rejects = (promise: Promise<unknown>, matches: (e: Error & { exitCode?: number }) => boolean) => promise.then(() => false, matches);
+
+describe('deployments on solana-test-validator', { skip: SKIP_INTEGRATION }, () => {
+  let harness: Harness;
+  before(async () => {
+    harness = await startHarness();
+  });
+  after(async () => {
+    await harness?.close();
+  });
+  // Runs fn in the harness environment, plus vars.
+  const inHarness = <T>(vars: Record<string, string | undefined>, fn: () => Promise<T>) => withEnv({ ...harness.env, ...vars }, fn);
+  const manifest = (name: string, overrides: Partial<TokenManifest> = {}) => ({ MANIFEST_PATH: writeHarnessManifest(harness.dir, name, false, overrides) });
+
+  describe('native metadata', () => {
+    let env: Record<string, string>;
+    before(() => {
+      env = manifest('native');
+    });
+
+    test('deploys and verifies', () => inHarness(env, async () => {
+      await deployAndVerify(harness.connection);
+      assert.equal((await getDeploymentSummary()).metadata, true, 'the status does not see the native metadata');
+    }));
+
+    test('re-running a finished deployment sends nothing', () => inHarness(env, async () => {
+      const [entries, requests, mint] = [loadJournal().entries.length, harness.relayer.requests, readMint()];
+      await runAllSteps();
+      assert.equal(loadJournal().entries.length, entries, 'new journal entries');
+      assert.equal(harness.relayer.requests, requests, 'new relayer requests');
+      assert.equal(readMint(), mint, 'mint changed');
+    }));
+
+    test('rollback refuses while USER_AUTH holds authorities, then forgets the mint and USER_AUTH', () => inHarness(env, async () => {
+      const mint = readMint();
+      assert.ok(await rejects(rollback(), (e) => e.exitCode === EXIT_CODES.refused && /still holds on-chain authorities/.test(e.message)), 'rollback deleted USER_AUTH while it held authorities');
+      assert.ok(fs.existsSync(path.join(getCacheDir(), 'mint.json')), 'the refused rollback forgot the mint');
+      const userAuth = loadOrCreateUserAuth().publicKey.toBase58();
+      const successor = Keypair.generate().publicKey;
+      for (const authority of (await listAuthorities(harness.connection, new PublicKey(mint))).filter((a) => a.holder === userAuth)) {
+        await changeAuthority(authority.role, successor);
+      }
+      await rollback();
+      assert.ok(!fs.existsSync(path.join(getCacheDir(), 'mint.json')), 'mint cache still present');
+      assert.ok(!fs.existsSync(path.join(getCacheDir(), 'journal.json')), 'journal not archived');
+      assert.ok(!Object.values(getUserAuthPaths()).some((p) => fs.existsSync(p)), 'USER_AUTH not deleted');
+      const report = await deployAndVerify(harness.connection);
+      assert.notEqual(report.mint, mint, 'redeploy reused the rolled-back mint');
+    }));
+  });
+
+  describe('sending', () => {
+    test('relayer errors are retried', () => inHarness(manifest('retry'), async () => {
+      harness.relayer.failures.push('error', 'http');
+      await deployAndVerify(harness.connection);
+      assert.equal(harness.relayer.failures.length, 0, 'queued failures were not consumed');
+    }));
+
+    test('a dropped send is rebroadcast', () => inHarness(manifest('dropped'), async () => {
+      harness.relayer.failures.push('drop');
+      await deployAndVerify(harness.connection);
+      const entries = loadJournal().entries.filter((e) => e.step === 'create-mint');
+      assert.deepEqual(entries.map((e) => e.status), ['confirmed'], 'create-mint was rebuilt');
+    }));
+
+    test('a send that never lands is rebuilt with a higher priority fee', () => inHarness(manifest('blackholed'), async () => {
+      harness.relayer.failures.push('blackhole');
+      await deployAndVerify(harness.connection);
+      const entry = loadJournal().entries.find((e) => e.step === 'create-mint' && e.status === 'confirmed');
+      assert.ok(entry?.transaction, 'no confirmed create-mint entry');
+      const tx = Transaction.from(Buffer.from(entry.transaction, 'base64'));
+      const priceIx = tx.instructions.find((ix) => ix.programId.equals(ComputeBudgetProgram.programId) && ComputeBudgetInstruction.decodeInstructionType(ix) === 'SetComputeUnitPrice');
+      const price = priceIx ? Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(priceIx).microLamports) : 0;
+      assert.ok(price > 0, 'the rebuilt create-mint carries no priority fee');
+    }));
+
+    test('a deployment with durable nonces sends every step on a nonce of its own', () => inHarness(manifest('durable-nonce', { durableNonce: true }), async () => {
+      await deployAndVerify(harness.connection);
+      const entries = loadJournal().entries.filter((e) => e.status === 'confirmed' && !e.step.endsWith('-nonce'));
+      const createMint = entries.find((e) => e.step === 'create-mint');
+      assert.ok(createMint?.nonceAccount && createMint.transaction, 'create-mint was not sent on a durable nonce');
+      const [advance] = Transaction.from(Buffer.from(createMint.transaction, 'base64')).instructions;
+      assert.equal(SystemInstruction.decodeInstructionType(advance), 'AdvanceNonceAccount', 'create-mint does not advance its nonce first');
+      assert.ok(entries.every((e) => e.nonceAccount), `sent without a durable nonce: ${entries.filter((e) => !e.nonceAccount).map((e) => e.step).join(', ')}`);
+      const nonces: { address: string }[] = JSON.parse(fs.readFileSync(path.join(getCacheDir(), 'nonces.json'), 'utf-8'));
+      assert.ok(nonces.some((n) => n.address === createMint.nonceAccount), 'the nonce account is not recorded');
+    }));
+
+    // One build per transaction, so the outage fails the step instead of waiting out a rebuild.
+    test('a step that fails on a relayer outage resumes', () => inHarness(manifest('outage', { priorityFee: { attempts: 1 } }), async () => {
+      await airdrop(harness.connection, loadOrCreateUserAuth().publicKey, 10);
+      harness.relayer.failures.push('error', 'error', 'error');
+      assert.ok(await rejects(withStep('create-mint', createTokenMint), () => true), 'create-mint succeeded through a relayer outage');
+      await deployAndVerify(harness.connection);
+      const entries = loadJournal().entries.filter((e) => e.step === 'create-mint');
+      assert.ok(entries.some((e) => e.status === 'expired' || e.status === 'failed'), 'the failed send was not settled in the journal');
+    }));
+  });
+
+  // USER_AUTH is the treasury here, so the airdrop signs locally. Its 24 rows only share transactions beyond the
+  // legacy size limit through the lookup table.
+  describe('airdrops and snapshots', () => {
+    let env: Record<string, string>;
+    before(async () => {
+      const treasury = await inHarness({}, async () => loadOrCreateUserAuth().publicKey.toBase58());
+      env = manifest('airdrop', { treasury, recipients: [{ label: 'treasury', address: treasury, percent: 100 }] });
+    });
+
+    test('an airdrop through the lookup table is sent as v0 and never pays twice', () => inHarness(env, async () => {
+      await deployAndVerify(harness.connection);
+      await createLookupTable();
+      const csvPath = path.join(harness.dir, 'airdrop.csv');
+      fs.writeFileSync(csvPath, ['recipient,amount', ...Array.from({ length: 24 }, () => `${Keypair.generate().publicKey.toBase58()},1.5`)].join('\n'));
+      const receipts = await runAirdrop(csvPath, true);
+      assert.ok(receipts.rows.every((r) => r.status === 'paid'), 'not every row was paid');
+      const versions = loadJournal().entries.filter((e) => e.step === 'airdrop').map((e) => VersionedTransaction.deserialize(Buffer.from(e.transaction!, 'base64')).version);
+      assert.ok(versions.includes(0), 'no airdrop transaction was sent as v0');
+      const requests = harness.relayer.requests;
+      await runAirdrop(csvPath, true);
+      assert.equal(harness.relayer.requests, requests, 're-running the airdrop made relayer requests');
+    }));
+
+    test('a holder snapshot diff lists the holders a new airdrop added', () => inHarness(env, async () => {
+      const before = await takeSnapshot();
+      const csvPath = path.join(harness.dir, 'airdrop-more.csv');
+      fs.writeFileSync(csvPath, ['recipient,amount', ...Array.from({ length: 3 }, () => `${Keypair.generate().publicKey.toBase58()},2`)].join('\n'));
+      await runAirdrop(csvPath, true);
+      const after = await takeSnapshot(before.slot + 1);
+      const diff = diffSnapshots(loadSnapshot(String(before.slot)), loadSnapshot(String(after.slot)));
+      const added = diff.changes.filter((c) => c.kind === 'added');
+      const twoTokens = parseTokenAmount('2', after.decimals)!.toString();
+      assert.equal(added.length, 3, 'added holders');
+      assert.ok(added.every((c) => c.after === twoTokens), 'an added holder does not hold 2 tokens');
+      assert.equal(after.stats.holders, before.stats.holders + 3, 'the holder count did not grow by 3');
+      const report = await verifyDeployment();
+      assert.ok(report.passed, `verification after the airdrops failed: ${report.checks.filter((c) => !c.ok).map((c) => c.name).join(', ')}`);
+    }));
+  });
+
+  test('a metadata update is versioned, and finalized metadata refuses changes', () => {
+    const { MANIFEST_PATH } = manifest('metadata-versions');
+    const rename = (name: string) => fs.writeFileSync(MANIFEST_PATH, JSON.stringify({ ...JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf-8')), name }, null, 2));
+    const argc = process.argv.length;
+    return inHarness({ MANIFEST_PATH }, async () => {
+      try {
+        const report = await deployAndVerify(harness.connection);
+        rename('Harness metadata v2');
+        process.argv.push('--yes', '--confirm-mint', report.mint);
+        await setTokenMetadata();
+        const finalized = await finalizeMetadata();
+        assert.ok(finalized?.finalized, 'finalize recorded no version');
+        const metadata = await getTokenMetadata(getConnection(), new PublicKey(report.mint), 'confirmed', TOKEN_2022_PROGRAM_ID);
+        assert.equal(metadata?.name, 'Harness metadata v2', 'the metadata was not updated on-chain');
+        assert.ok(!metadata.updateAuthority, 'the metadata was not finalized on-chain');
+        rename('Harness metadata v3');
+        assert.ok(await rejects(setTokenMetadata(), (e) => /finalized/.test(e.message)), 'finalized metadata accepted a change');
+        const versions = printMetadataHistory();
+        assert.equal(versions.length, 3, 'published versions');
+        assert.ok(versions.every((v) => v.status === 'published' && v.signature), 'a version was not published');
+      } finally {
+        process.argv.splice(argc);
+      }
+    });
+  });
+
+  // Under authority.mode treasury with USER_AUTH as the treasury, the mint authority stays local after lock.
+  test('mint-more issues within the mint policy and refuses anything outside it', async () => {
+    const treasury = await inHarness({}, async () => loadOrCreateUserAuth().publicKey.toBase58());
+    const recipient = Keypair.generate().publicKey.toBase58();
+    const mintPolicy: MintPolicy = { maxSupply: String(BigInt(DEFAULT_MANIFEST.supply) + BigInt(55)), periodLimit: { amount: '60', days: 1 }, allowedRecipients: [recipient] };
+    await inHarness(manifest('mint-policy', { treasury, recipients: [{ label: 'treasury', address: treasury, percent: 100 }], authority: { mode: 'treasury' }, mintPolicy }), async () => {
+      const refused = (issue: Promise<unknown>) => rejects(issue, (e) => e.exitCode === EXIT_CODES.policyRefused);
+      await deployAndVerify(harness.connection);
+      await mintMore(recipient, '50', 'Q3 contributor grants');
+      assert.ok(await refused(mintMore(recipient, '10', 'over the cap')), 'an issuance over maxSupply was not refused');
+      assert.ok(await refused(mintMore(recipient, '20', 'over the cap and the period limit')), 'an issuance over the period limit was not refused');
+      assert.ok(await refused(mintMore(Keypair.generate().publicKey.toBase58(), '1', 'not allowed')), 'an issuance to a recipient outside allowedRecipients was not refused');
+      assert.ok(await refused(mintMore(recipient, '1', ' ')), 'an issuance without a memo was not refused');
+
+      const connection = getConnection();
+      const userAuth = loadOrCreateUserAuth();
+      const mint = new PublicKey(readMint());
+      const ata = findAssociatedTokenAddress(userAuth.publicKey, mint);
+      const outside = new Transaction().add(createMintToCheckedInstruction(mint, ata, userAuth.publicKey, BigInt(1), DEFAULT_MANIFEST.decimals, [], TOKEN_2022_PROGRAM_ID));
+      await journaledSend(connection, createSubmitter(loadManifest(), connection), outside, [userAuth], 'harness-mint', 'Mint outside mint-more');
+      assert.ok(await refused(mintMore()), 'supply minted outside mint-more was not detected');
+      assert.equal(loadIssuanceLedger(mint).issuances.filter((r) => r.status === 'minted').length, 1, 'minted issuances');
+    });
+  });
+
+  describe('signers', () => {
+    test('deploys with USER_AUTH on a remote signer over a Unix socket', async () => {
+      const signer = await startRemoteSigner(Keypair.generate(), { socketPath: path.join(harness.dir, 'signer.sock') });
+      try {
+        await inHarness({ ...manifest('remote-signer'), USER_AUTH_SIGNER: `remote:${signer.address}` }, async () => {
+          await unlockUserAuth();
+          assert.ok(loadOrCreateUserAuth().publicKey.equals(signer.publicKey), 'USER_AUTH is not the remote signer key');
+          await deployAndVerify(harness.connection);
+          assert.ok(signer.signed > 0, 'the remote signer signed nothing');
+        });
+      } finally {
+        await signer.close();
+      }
+    });
+
+    test('deploys with USER_AUTH on the Ledger emulator', async () => {
+      const emulator = await startLedgerEmulator(crypto.randomBytes(32), HARNESS_LEDGER_PORT);
+      try {
+        await inHarness({ ...manifest('ledger'), USER_AUTH_SIGNER: 'ledger', LEDGER_APDU: emulator.address }, async () => {
+          await unlockUserAuth();
+          await deployAndVerify(harness.connection);
+          assert.ok(emulator.signed > 0, 'the Ledger emulator signed nothing');
+        });
+      } finally {
+        await emulator.close();
+      }
+    });
+  });
+
+  // The legacy `--all` under DRY_RUN=true, which menu option 7 shares: runDryRun against the harness validator.
+  test('--all under DRY_RUN=true dry-runs every step and writes the report', () => {
+    const vars = { ...manifest('dry-run', { authority: { mode: 'treasury' } }), DRY_RUN: 'true', DRY_RUN_RPC_URL: harness.env.LOCALNET_RPC_URL };
+    const argc = process.argv.length;
+    return inHarness(vars, async () => {
+      try {
+        process.argv.push('--all', '--report', 'json');
+        assert.equal(await grokCopilot(), EXIT_CODES.ok);
+      } finally {
+        process.argv.splice(argc);
+      }
+      const report = JSON.parse(fs.readFileSync(path.join(getCacheDir(), 'report.json'), 'utf-8'));
+      const steps: string[] = report.steps.map((s: { step: string }) => s.step);
+      for (const step of ['create-mint', 'mint-supply', 'set-metadata', 'lock-authorities']) assert.ok(steps.includes(step), `the report has no ${step} transaction`);
+      assert.ok(report.mint, 'the report carries no mint');
+    });
+  });
+
+  // The devnet profile points at the harness as well, so one validator is both ends. The localnet mint is created first
+  // with a different transfer fee, a difference the promote cannot explain by cluster.
+  test('promote fails on an unexpected difference between the source and the target', () => {
+    const { MANIFEST_PATH } = manifest('promote', { authority: { mode: 'treasury' } });
+    const devnet = { DEVNET_RPC_URL: harness.env.LOCALNET_RPC_URL, DEVNET_RELAYER_URL: harness.env.LOCALNET_RELAYER_URL, DEVNET_RELAYER_PUBKEY: harness.env.LOCALNET_RELAYER_PUBKEY, DEVNET_SUBMITTER: 'relayer' };
+    const setTransferFee = (feeBasisPoints: number) => {
+      const m: TokenManifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf-8'));
+      fs.writeFileSync(MANIFEST_PATH, JSON.stringify({ ...m, extensions: { ...m.extensions, transferFee: { ...m.extensions.transferFee!, feeBasisPoints } } }, null, 2));
+    };
+    return inHarness({ MANIFEST_PATH, ...devnet }, async () => {
+      await withEnv({ CLUSTER: 'devnet' }, () => deployAndVerify(harness.connection));
+      await airdrop(harness.connection, loadOrCreateUserAuth().publicKey, 10);
+      setTransferFee(100);
+      await withStep('create-mint', createTokenMint);
+      setTransferFee(50);
+      const exitCode = process.exitCode;
+      try {
+        const { source, target, differences } = await promoteDeployment('devnet');
+        assert.ok(source.passed, 'the source failed verification');
+        assert.ok(!target.passed, 'the diverging target passed verification');
+        const fee = differences.find((d) => d.check === 'extension: Transfer fee (bps)');
+        assert.deepEqual(fee && [fee.source, fee.target, fee.expected], ['50', '100', false], 'the transfer fee is not an unexpected difference');
+        assert.equal(process.exitCode, EXIT_CODES.verifyFailed, 'the unexpected difference did not fail the promote');
+      } finally {
+        process.exitCode = exitCode;
+      }
+    });
+  });
+
+  // USER_AUTH initiates and executes; both voters of the 2-of-2 vote approve through one offline bundle.
+  test('a DAO proposal approved through an offline bundle is executed by the Squads vault', async () => {
+    const { Permission, Permissions } = multisig.types;
+    const userAuth = await inHarness({}, async () => loadOrCreateUserAuth().publicKey);
+    const [creator, createKey, ...voters] = [Keypair.generate(), Keypair.generate(), Keypair.generate(), Keypair.generate()];
+    const [multisigPda] = multisig.getMultisigPda({ createKey: createKey.publicKey });
+    const [vault] = multisig.getVaultPda({ multisigPda, index: 0 });
+    const programConfig = await multisig.accounts.ProgramConfig.fromAccountAddress(harness.connection, multisig.getProgramConfigPda({})[0]);
+    await airdrop(harness.connection, creator.publicKey, 1);
+    const create = multisig.instructions.multisigCreateV2({
+      treasury: programConfig.treasury,
+      creator: creator.publicKey,
+      multisigPda,
+      configAuthority: null,
+      threshold: 2,
+      members: [
+        { key: userAuth, permissions: Permissions.fromPermissions([Permission.Initiate, Permission.Execute]) },
+        ...voters.map((v) => ({ key: v.publicKey, permissions: Permissions.fromPermissions([Permission.Vote]) })),
+      ],
+      timeLock: 0,
+      createKey: createKey.publicKey,
+      rentCollector: null,
+    });
+    await sendAndConfirmTransaction(harness.connection, new Transaction().add(create), [creator, createKey], { commitment: 'confirmed' });
+
+    const recipient = Keypair.generate().publicKey;
+    const argc = process.argv.length;
+    await inHarness(manifest('dao', { authority: { mode: 'dao', dao: vault.toBase58(), multisig: multisigPda.toBase58() } }), async () => {
+      try {
+        await deployAndVerify(harness.connection);
+        const index = await proposeDaoAction('mint-more', { recipient: recipient.toBase58(), amount: '5' });
+        const bundle = await exportProposalApproval(index);
+        process.argv.push('--yes');
+        for (const voter of voters) await signOfflineBundle(bundle, voter);
+        await importOfflineBundle(bundle);
+        await executeDaoProposal(index);
+        const ata = findAssociatedTokenAddress(recipient, new PublicKey(readMint()));
+        const balance = await harness.connection.getTokenAccountBalance(ata, 'confirmed');
+        assert.equal(balance.value.amount, parseTokenAmount('5', DEFAULT_MANIFEST.decimals)!.toString(), 'the vault did not mint to the recipient');
+      } finally {
+        process.argv.splice(argc);
+      }
+    });
+  });
+
+  // A relayer outage fails create-mint once (one build per transaction, as in the outage test above); the deployment
+  // then resumes, and its lock revokes the authorities under authority.mode null.
+  test('steps, failures and irreversible actions reach the webhook and the metrics', () => inHarness(manifest('observability', { priorityFee: { attempts: 1 } }), async () => {
+    await airdrop(harness.connection, loadOrCreateUserAuth().publicKey, 10);
+    harness.relayer.failures.push('error', 'error', 'error');
+    assert.ok(await rejects(withStep('create-mint', createTokenMint), () => true), 'create-mint succeeded through a relayer outage');
+    await deployAndVerify(harness.connection);
+
+    const receiver = harness.webhooks;
+    const events = receiver.events.filter((e) => e.deployment === 'observability');
+    const failure = events.find((e) => e.event === 'step.failure' && e.step === 'create-mint');
+    assert.equal(failure?.kind, 'relayer', 'the relayer outage was not reported as a relayer failure');
+    const started = events.filter((e) => e.event === 'step.start' && e.step === 'create-mint').pop();
+    assert.ok(started, 'no step.start for create-mint');
+    assert.ok(events.some((e) => e.event === 'step.success' && e.stepId === started.stepId), `no step.success for step ${started.stepId}`);
+    assert.ok(events.some((e) => e.event === 'irreversible' && e.action === 'revoke-authority'), 'no irreversible event for the authorities lock revoked');
+    assert.equal(receiver.rejected, 0, 'events failed the signature check');
+    await withEnv({ WEBHOOK_SECRET: 'not-the-secret' }, () => emitEvent('irreversible', { action: 'test' }));
+    assert.equal(receiver.rejected, WEBHOOK_ATTEMPTS, 'an event signed with the wrong secret was not rejected on every attempt');
+    const metricsFile = harness.env.METRICS_FILE!;
+    const metricsText = fs.readFileSync(metricsFile, 'utf-8');
+    for (const series of ['grok_steps_total{step="create-mint",outcome="failure"}', 'grok_transactions_total{step="create-mint",outcome="confirmed"}', 'grok_fees_lamports_total{step="create-mint"}', 'grok_send_retries_total{kind="relayer"}']) {
+      assert.ok(metricsText.includes(series), `${metricsFile} has no ${series}`);
+    }
+  }));
+
+  test('deploys, updates and finalizes Metaplex metadata with creators', () => {
+    const MANIFEST_PATH = writeHarnessManifest(harness.dir, 'metaplex', true);
+    const edit = (change: (manifest: TokenManifest) => TokenManifest) => fs.writeFileSync(MANIFEST_PATH, JSON.stringify(change(JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf-8'))), null, 2));
+    const argc = process.argv.length;
+    return inHarness({ MANIFEST_PATH }, async () => {
+      try {
+        const userAuth = loadOrCreateUserAuth().publicKey;
+        const artist = Keypair.generate().publicKey;
+        const creators = [{ address: userAuth.toBase58(), share: 70 }, { address: artist.toBase58(), share: 30 }];
+        edit((m) => ({ ...m, metadata: { ...m.metadata, creators, sellerFeeBasisPoints: 250 } }));
+        const report = await deployAndVerify(harness.connection);
+        edit((m) => ({ ...m, name: 'Harness metaplex v2' }));
+        process.argv.push('--yes', '--confirm-mint', report.mint);
+        await setTokenMetadata();
+        assert.ok((await finalizeMetadata())?.finalized, 'finalize recorded no version');
+        const account = await harness.connection.getAccountInfo(findMetadataPda(new PublicKey(report.mint)), 'confirmed');
+        assert.ok(account, 'no Metaplex metadata account');
+        const metadata = decodeMetaplexMetadata(account.data);
+        assert.equal(metadata.name, 'Harness metaplex v2', 'the metadata was not updated on-chain');
+        assert.equal(metadata.sellerFeeBasisPoints, 250);
+        assert.deepEqual(
+          metadata.creators?.map((c) => [c.address.toBase58(), c.share, c.verified]),
+          [[userAuth.toBase58(), 70, true], [artist.toBase58(), 30, false]],
+          'only USER_AUTH, signing as update authority, is a verified creator'
+        );
+        assert.equal(metadata.isMutable, false, 'the metadata was not finalized on-chain');
+        edit((m) => ({ ...m, name: 'Harness metaplex v3' }));
+        assert.ok(await rejects(setTokenMetadata(), (e) => /finalized/.test(e.message)), 'finalized metadata accepted a change');
+      } finally {
+        process.argv.splice(argc);
+      }
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { runDryRun, withEnv } from '../grok.copilot';
+
+// Answers getGenesisHash, the first call of a dry run, with the given genesis hash.
+async function standInRpc(genesisHash: string): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const { id } = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id, result: genesisHash }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, close: () => new Promise((resolve) => server.close(() => resolve())) };
+}
+
+const PUBLIC_CLUSTERS = {
+  devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+  testnet: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY',
+  mainnet: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+};
+
+for (const [cluster, genesisHash] of Object.entries(PUBLIC_CLUSTERS)) {
+  test(`a dry run refuses an RPC on ${cluster}`, async () => {
+    const rpc = await standInRpc(genesisHash);
+    try {
+      await withEnv({ DRY_RUN_RPC_URL: rpc.url, DRY_RUN: undefined }, async () => {
+        await assert.rejects(runDryRun('text'), new RegExp(`points at ${cluster};`));
+        assert.equal(process.env.DRY_RUN, undefined, 'the refused dry run left DRY_RUN set');
+      });
+    } finally {
+      await rpc.close();
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { PROJECT_TEMPLATES, ProjectTemplate, ScaffoldParams, scaffoldParamsFromManifest, scaffoldProject, validateManifest } from '../grok.copilot';
+
+for (const template of Object.keys(PROJECT_TEMPLATES) as ProjectTemplate[]) {
+  test(`init scaffolds the ${template} template and reports drift without overwriting`, () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), `init-${template}-`));
+    try {
+      const manifestPath = path.join(root, 'token.manifest.json');
+      const params: ScaffoldParams = {
+        template,
+        name: 'Scaffold',
+        symbol: 'SCFD',
+        decimals: 6,
+        supply: '1000',
+        treasury: Keypair.generate().publicKey.toBase58(),
+        feeBasisPoints: 25,
+        maxFee: '5',
+        dao: Keypair.generate().publicKey.toBase58(),
+        multisig: Keypair.generate().publicKey.toBase58(),
+      };
+      assert.ok(scaffoldProject(root, manifestPath, params, false).every((f) => f.status === 'created'), 'not every file was created');
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      assert.deepEqual(validateManifest(manifest), []);
+      assert.ok(!manifest.storage && manifest.extensions.metadataPointer, 'the template does not default to native metadata without storage');
+      assert.equal(scaffoldParamsFromManifest(manifest).template, template);
+
+      const packagePath = path.join(root, 'package.json');
+      const edited = fs.readFileSync(packagePath, 'utf-8').replace('grok.copilot.ts deploy', 'grok-copilot.ts deploy');
+      fs.writeFileSync(packagePath, edited);
+      fs.rmSync(path.join(root, 'tsconfig.json'));
+      fs.appendFileSync(path.join(root, 'README.md'), '\n## Our launch plan\n');
+      const rerun = Object.fromEntries(scaffoldProject(root, manifestPath, scaffoldParamsFromManifest(manifest), false).map((f) => [f.file, f.status]));
+      assert.equal(rerun['package.json'], 'drifted');
+      assert.equal(fs.readFileSync(packagePath, 'utf-8'), edited, 'the edited package.json was overwritten');
+      assert.equal(rerun['tsconfig.json'], 'created');
+      assert.equal(rerun['token.manifest.json'], 'kept');
+      assert.equal(rerun['README.md'], 'kept', 'an edited README counts as drift');
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+}
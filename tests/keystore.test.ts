@@ -0,0 +1,22 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Keypair } from '@solana/web3.js';
+import { decryptKeystore, encryptKeystore } from '../grok.copilot';
+
+test('a keystore decrypts to the keypair it was encrypted from', () => {
+  const keypair = Keypair.generate();
+  const file = encryptKeystore(keypair, 'correct horse');
+  assert.equal(file.publicKey, keypair.publicKey.toBase58());
+  assert.ok(!file.ciphertext.includes(Buffer.from(keypair.secretKey).toString('hex')), 'the secret key is stored in the clear');
+  assert.deepEqual(decryptKeystore(file, 'correct horse').secretKey, keypair.secretKey);
+});
+
+test('a keystore refuses the wrong passphrase', () => {
+  const file = encryptKeystore(Keypair.generate(), 'correct horse');
+  assert.throws(() => decryptKeystore(file, 'battery staple'), new RegExp(`Wrong passphrase for keystore of ${file.publicKey}`));
+});
+
+test('a keystore whose public key does not match its secret key is refused', () => {
+  const file = { ...encryptKeystore(Keypair.generate(), 'correct horse'), publicKey: Keypair.generate().publicKey.toBase58() };
+  assert.throws(() => decryptKeystore(file, 'correct horse'), new RegExp(`not ${file.publicKey}$`));
+});
@@ -0,0 +1,39 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { DEFAULT_MANIFEST, EXIT_CODES, createStorage, loadManifest, validateManifest, withEnv } from '../grok.copilot';
+
+test('the default manifest is valid without storage or a local image', () => {
+  assert.deepEqual(validateManifest(DEFAULT_MANIFEST), []);
+  assert.equal(DEFAULT_MANIFEST.storage, undefined);
+  assert.throws(() => createStorage(DEFAULT_MANIFEST), { exitCode: EXIT_CODES.config });
+  assert.throws(() => createStorage({ ...DEFAULT_MANIFEST, storage: { type: 'arweave' } as never }), { exitCode: EXIT_CODES.config, message: /Unknown storage type: arweave/ });
+});
+
+test('a missing, malformed or inconsistent manifest is a configuration error', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  const manifestPath = path.join(dir, 'token.manifest.json');
+  const treasury = Keypair.generate().publicKey.toBase58();
+  const write = (content: unknown) => fs.writeFileSync(manifestPath, typeof content === 'string' ? content : JSON.stringify(content));
+  const config = { exitCode: EXIT_CODES.config };
+  try {
+    await withEnv({ MANIFEST_PATH: manifestPath }, async () => {
+      assert.throws(loadManifest, { ...config, message: /Manifest not found/ });
+      write('{ "name": ');
+      assert.throws(loadManifest, { ...config, message: /not valid JSON/ });
+      write({ ...DEFAULT_MANIFEST, supply: 'lots' });
+      assert.throws(loadManifest, { ...config, message: /Invalid manifest/ });
+      write({ ...DEFAULT_MANIFEST, treasury, recipients: undefined, allocationTable: 'allocations.csv' });
+      assert.throws(loadManifest, { ...config, message: /Allocation table not found/ });
+      fs.writeFileSync(path.join(dir, 'allocations.csv'), `label,address,percent\ntreasury,${treasury},90\n`);
+      assert.throws(loadManifest, { ...config, message: /expected supply/ });
+      fs.writeFileSync(path.join(dir, 'allocations.csv'), `label,address,percent\ntreasury,${treasury},100\n`);
+      assert.equal(loadManifest().allocationTable, 'allocations.csv');
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
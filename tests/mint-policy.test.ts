@@ -0,0 +1,43 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Keypair } from '@solana/web3.js';
+import { DEFAULT_MANIFEST, IssuanceLedger, MintPolicy, TokenManifest, checkMintPolicy } from '../grok.copilot';
+
+const manifest: TokenManifest = { ...DEFAULT_MANIFEST, decimals: 2 };
+const recipient = Keypair.generate().publicKey.toBase58();
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+// 900 tokens are on chain. 50 are still open, 200 were minted yesterday and 300 a month ago; 400 were cancelled.
+const ledger: IssuanceLedger = {
+  mint: Keypair.generate().publicKey.toBase58(),
+  issuances: [
+    { id: 1, recipient, amount: '30000', memo: 'seed', status: 'minted', createdAt: daysAgo(30) },
+    { id: 2, recipient, amount: '20000', memo: 'grants', status: 'minted', createdAt: daysAgo(1) },
+    { id: 3, recipient, amount: '40000', memo: 'withdrawn', status: 'cancelled', createdAt: daysAgo(1) },
+    { id: 4, recipient, amount: '5000', memo: 'bounty', status: 'proposed', createdAt: daysAgo(1) },
+  ],
+};
+const supply = BigInt(90000);
+const policy: MintPolicy = { maxSupply: '1000', periodLimit: { amount: '300', days: 7 }, allowedRecipients: [recipient] };
+
+test('an issuance within every limit is allowed', () => {
+  assert.deepEqual(checkMintPolicy(manifest, policy, ledger, supply, recipient, BigInt(5000), 'payroll'), []);
+});
+
+test('open issuances count against the cap, and recent ones against the period limit', () => {
+  const unlimited = { ...policy, periodLimit: undefined };
+  assert.deepEqual(checkMintPolicy(manifest, unlimited, ledger, supply, recipient, BigInt(5001), 'payroll'), ['supply would reach 100001 base units, over maxSupply 100000']);
+  const loose = { ...policy, maxSupply: '10000' };
+  assert.deepEqual(checkMintPolicy(manifest, loose, ledger, supply, recipient, BigInt(5000), 'payroll'), [], 'the cancelled or month-old issuance counted against the period limit');
+  assert.deepEqual(checkMintPolicy(manifest, loose, ledger, supply, recipient, BigInt(5001), 'payroll'), [
+    '25000 base units were issued in the last 7 day(s); 5001 more would exceed the limit of 30000',
+  ]);
+});
+
+test('every violation is reported at once', () => {
+  const stranger = Keypair.generate().publicKey.toBase58();
+  const violations = checkMintPolicy(manifest, policy, ledger, supply, stranger, BigInt(20000), ' ');
+  assert.equal(violations.length, 4);
+  assert.match(violations[0], /memo is required/);
+  assert.match(violations[1], new RegExp(`${stranger} is not in mintPolicy.allowedRecipients`));
+});
@@ -0,0 +1,33 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Keypair } from '@solana/web3.js';
+import { computeSnapshotStats } from '../grok.copilot';
+
+// Holders largest first, as takeSnapshot sorts them.
+const holders = (amounts: bigint[]) => amounts.map((amount) => ({ owner: Keypair.generate().publicKey.toBase58(), amount: amount.toString(), accounts: 1, frozen: '0' }));
+const stats = (amounts: bigint[]) => computeSnapshotStats(amounts.reduce((a, b) => a + b, BigInt(0)), holders(amounts), [], 0, []);
+
+test('concentration follows the balances', () => {
+  const { nakamoto, gini, top10Share } = stats([BigInt(3), BigInt(1)]);
+  assert.equal(nakamoto, 1);
+  assert.equal(gini, 0.25);
+  assert.equal(top10Share, 100);
+  assert.equal(stats(Array.from({ length: 20 }, () => BigInt(5))).top10Share, 50);
+});
+
+test('balances beyond 2^53 keep their precision', () => {
+  // As numbers the two balances are equal, so no single holder would pass half the supply.
+  const large = BigInt(2) ** BigInt(60);
+  const { nakamoto, gini, top10Share } = stats([large + BigInt(1), large]);
+  assert.equal(nakamoto, 1);
+  assert.equal(gini, 0);
+  assert.equal(top10Share, 100);
+});
+
+test('non-circulating holders are left out of the concentration', () => {
+  const balances = holders([BigInt(900), BigInt(50), BigInt(50)]);
+  const result = computeSnapshotStats(BigInt(1000), balances, [], 0, [balances[0].owner]);
+  assert.equal(result.circulatingSupply, '100');
+  assert.equal(result.nakamoto, 2);
+  assert.equal(result.gini, 0);
+});
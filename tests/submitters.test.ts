@@ -0,0 +1,196 @@
+// Every submitter end to end against local stand-ins for the RPC and the relayer, with no network access.
+import * as assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bs58 from 'bs58';
+import { Keypair, PublicKey, SendTransactionError, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  DEFAULT_MANIFEST,
+  FetchLike,
+  SendHooks,
+  SubmitterConnection,
+  classifySendError,
+  createBatchRelayerSubmitter,
+  createRelayerSubmitter,
+  createRpcSubmitter,
+  exportOfflineBundle,
+  getCacheDir,
+  importOfflineBundle,
+  loadJournal,
+  sendError,
+  signOfflineBundle,
+  withEnv,
+} from '../grok.copilot';
+
+// Accepts every transaction whose signatures verify and reports it confirmed on the first status poll. The first
+// `lostReplies` sends land but throw, as when the RPC node times out after forwarding; their blockhash expires at once.
+function standInRpc(lostReplies = 0) {
+  const sent = new Map<string, Transaction>();
+  let sends = 0;
+  const connection = {
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: lostReplies ? 0 : 1_000 }),
+    getRecentPrioritizationFees: async () => [],
+    simulateTransaction: async () => ({ context: { slot: 1 }, value: { err: null, logs: [], accounts: null, unitsConsumed: 450 } }),
+    getBlockHeight: async () => 1,
+    async sendRawTransaction(raw: Buffer | Uint8Array) {
+      const tx = Transaction.from(raw);
+      if (!tx.verifySignatures()) throw new Error('Transaction signature verification failure');
+      const signature = bs58.encode(tx.signature!);
+      sent.set(signature, tx);
+      if (++sends <= lostReplies) throw new Error('stand-in timeout');
+      return signature;
+    },
+    async getSignatureStatuses(signatures: string[]) {
+      const value = signatures.map((s) => (sent.has(s) ? { slot: 1, confirmations: 1, err: null, confirmationStatus: 'confirmed' as const } : null));
+      return { context: { slot: 1 }, value };
+    },
+  };
+  return { connection: connection as unknown as SubmitterConnection, sent };
+}
+
+// Speaks both relayer contracts: co-signs as fee payer and forwards to the RPC. The first `failures` requests fail.
+function standInRelayer(rpc: SubmitterConnection, feePayer: Keypair, failures = 0) {
+  const requests: { signedTransactionBase64?: string; signedTransactionsBase64?: string[] }[] = [];
+  const fetchImpl: FetchLike = async (_url, init) => {
+    const body = JSON.parse(init.body);
+    requests.push(body);
+    if (requests.length <= failures) return { json: async () => ({ success: false, error: 'stand-in outage' }) };
+    const txSignatures: string[] = [];
+    for (const b64 of body.signedTransactionsBase64 ?? [body.signedTransactionBase64]) {
+      const tx = Transaction.from(Buffer.from(b64, 'base64'));
+      tx.partialSign(feePayer);
+      txSignatures.push(await rpc.sendRawTransaction(tx.serialize()));
+    }
+    return { json: async () => (body.signedTransactionsBase64 ? { success: true, txSignatures } : { success: true, txSignature: txSignatures[0] }) };
+  };
+  return { fetchImpl, requests };
+}
+
+// Records the hook calls of one transaction.
+function recordingHooks() {
+  const calls: string[] = [];
+  const hooks: SendHooks = {
+    onSigned: () => calls.push('signed'),
+    onSent: (signature) => calls.push(`sent ${signature}`),
+    onConfirmed: (signature) => calls.push(`confirmed ${signature}`),
+  };
+  return { hooks, calls };
+}
+
+describe('submitters', () => {
+  const owner = Keypair.generate();
+  const transfer = () => new Transaction().add(SystemProgram.transfer({ fromPubkey: owner.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+  let dir: string;
+  let manifestPath: string;
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'submitters-'));
+    manifestPath = path.join(dir, 'token.manifest.json');
+    const treasury = Keypair.generate().publicKey.toBase58();
+    fs.writeFileSync(manifestPath, JSON.stringify({ ...DEFAULT_MANIFEST, treasury, recipients: [{ label: 'treasury', address: treasury, percent: 100 }] }));
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  // The priority fee policy comes from the manifest.
+  const withManifest = (fn: () => Promise<void>) => () => withEnv({ MANIFEST_PATH: manifestPath }, fn);
+
+  test('the relayer retries a failed request and co-signs as fee payer', withManifest(async () => {
+    const rpc = standInRpc();
+    const relayerKey = Keypair.generate();
+    const relayer = standInRelayer(rpc.connection, relayerKey, 1);
+    const { hooks, calls } = recordingHooks();
+    const [signature] = await createRelayerSubmitter(rpc.connection, relayerKey.publicKey, 'http://relayer.invalid', undefined, relayer.fetchImpl).send([transfer()], [[owner]], [hooks]);
+    assert.equal(relayer.requests.length, 2);
+    assert.ok(rpc.sent.get(signature)?.feePayer?.equals(relayerKey.publicKey), 'the relayer did not pay the fee');
+    assert.deepEqual(calls, ['signed', `sent ${signature}`, `confirmed ${signature}`]);
+  }));
+
+  // One build, so the failure surfaces instead of waiting for the blockhash to expire before a rebuild.
+  test('a relayer reply without a signature fails the send', async () => {
+    const oneBuild = path.join(dir, 'one-build.manifest.json');
+    fs.writeFileSync(oneBuild, JSON.stringify({ ...JSON.parse(fs.readFileSync(manifestPath, 'utf-8')), priorityFee: { attempts: 1 } }));
+    const rpc = standInRpc();
+    const fetchImpl: FetchLike = async () => ({ json: async () => ({ success: true }) });
+    const { hooks, calls } = recordingHooks();
+    await withEnv({ MANIFEST_PATH: oneBuild }, async () => {
+      const send = createRelayerSubmitter(rpc.connection, Keypair.generate().publicKey, 'http://relayer.invalid', undefined, fetchImpl).send([transfer()], [[owner]], [hooks]);
+      await assert.rejects(send, { kind: 'relayer', message: /without a signature/ });
+    });
+    assert.deepEqual(calls, ['signed'], 'a reply without a signature was reported as sent');
+  });
+
+  test('the batch relayer submits every transaction in one request', withManifest(async () => {
+    const rpc = standInRpc();
+    const relayerKey = Keypair.generate();
+    const relayer = standInRelayer(rpc.connection, relayerKey);
+    const recorded = [recordingHooks(), recordingHooks()];
+    const signatures = await createBatchRelayerSubmitter(rpc.connection, relayerKey.publicKey, 'http://relayer.invalid', undefined, relayer.fetchImpl).send([transfer(), transfer()], [[owner], [owner]], recorded.map((r) => r.hooks));
+    assert.equal(relayer.requests.length, 1);
+    assert.equal(relayer.requests[0].signedTransactionsBase64?.length, 2);
+    assert.deepEqual([...rpc.sent.keys()], signatures);
+    signatures.forEach((signature, i) => assert.deepEqual(recorded[i].calls, ['signed', `sent ${signature}`, `confirmed ${signature}`]));
+  }));
+
+  test('a send that failed but landed is found instead of rebuilt', withManifest(async () => {
+    const rpc = standInRpc(1);
+    const { hooks, calls } = recordingHooks();
+    const [signature] = await createRpcSubmitter(rpc.connection, Keypair.generate()).send([transfer()], [[owner]], [hooks]);
+    assert.equal(rpc.sent.size, 1, 'the landed transaction was rebuilt');
+    assert.ok(rpc.sent.has(signature));
+    assert.deepEqual(calls, ['signed', `sent ${signature}`, `confirmed ${signature}`]);
+  }));
+
+  // USER_AUTH signs offline: closing its nonce account is exported, and only saved once the import confirms it.
+  test('an offline bundle imports once signed, and settles the nonce accounts it closed', () => withEnv({ MANIFEST_PATH: manifestPath, CACHE_DIR: dir }, async () => {
+    const rpc = standInRpc();
+    const relayerKey = Keypair.generate();
+    const relayer = standInRelayer(rpc.connection, relayerKey);
+    const submitter = createRelayerSubmitter(rpc.connection, relayerKey.publicKey, 'http://relayer.invalid', undefined, relayer.fetchImpl);
+    const userAuth = Keypair.generate();
+    const nonceAccount = Keypair.generate().publicKey.toBase58();
+    const noncesPath = path.join(getCacheDir(), 'nonces.json');
+    fs.mkdirSync(getCacheDir(), { recursive: true });
+    fs.writeFileSync(noncesPath, JSON.stringify([{ address: nonceAccount, authority: userAuth.publicKey.toBase58(), createdAt: new Date().toISOString() }]));
+
+    const close = new Transaction().add(SystemProgram.nonceWithdraw({ noncePubkey: new PublicKey(nonceAccount), authorizedPubkey: userAuth.publicKey, toPubkey: relayerKey.publicKey, lamports: 1 }));
+    const bundlePath = await exportOfflineBundle(rpc.connection, submitter, [{ tx: close, signers: [{ publicKey: userAuth.publicKey }], step: 'close-nonce', intent: 'Close 1 durable nonce account(s)' }]);
+    await assert.rejects(importOfflineBundle(bundlePath, submitter), new RegExp(`missing signatures from: ${userAuth.publicKey.toBase58()}`));
+    assert.equal(relayer.requests.length, 0, 'a bundle missing a signature was sent');
+
+    const argc = process.argv.length;
+    try {
+      process.argv.push('--yes');
+      await signOfflineBundle(bundlePath, userAuth);
+    } finally {
+      process.argv.splice(argc);
+    }
+    const [signature] = await importOfflineBundle(bundlePath, submitter);
+    assert.ok(rpc.sent.get(signature)?.feePayer?.equals(relayerKey.publicKey), 'the relayer did not pay the fee');
+    assert.deepEqual(loadJournal().entries.map((e) => [e.step, e.status, e.signature]), [['close-nonce', 'confirmed', signature]]);
+    assert.deepEqual(JSON.parse(fs.readFileSync(noncesPath, 'utf-8')), [], 'the closed nonce account is still recorded');
+  }));
+
+  test('the rpc submitter pays the fee from its own keypair', withManifest(async () => {
+    const rpc = standInRpc();
+    const feePayer = Keypair.generate();
+    const [signature] = await createRpcSubmitter(rpc.connection, feePayer).send([transfer()], [[owner]], [{}]);
+    assert.ok(rpc.sent.get(signature)?.feePayer?.equals(feePayer.publicKey), 'the fee payer did not pay the fee');
+  }));
+});
+
+test('send errors are classified by what threw them', () => {
+  const relayer = sendError('relayer', 'Relayer HTTP 502');
+  assert.equal(classifySendError(relayer), relayer, 'a classified error was reclassified');
+
+  const logs = ['Program log: insufficient funds'];
+  const simulation = classifySendError(new SendTransactionError({ action: 'send', signature: '', transactionMessage: 'Simulation failed', logs }));
+  assert.deepEqual([simulation.kind, simulation.logs], ['simulation', logs]);
+
+  const timeout = new Error('fetch failed');
+  assert.equal(classifySendError(timeout), timeout, 'a transport error was not classified in place');
+  assert.equal(classifySendError(timeout).kind, 'rpc');
+
+  const thrown = classifySendError('socket hang up');
+  assert.ok(thrown instanceof Error);
+  assert.deepEqual([thrown.kind, thrown.message], ['rpc', 'socket hang up']);
+});
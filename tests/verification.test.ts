@@ -0,0 +1,92 @@
+import * as assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { AuditReport, decodeMetaplexMetadata, diffAuditReports, signAuditReport, verifyAuditReportSignature } from '../grok.copilot';
+
+function auditReport(): AuditReport {
+  return {
+    version: 1,
+    deployment: 'token',
+    cluster: 'devnet',
+    manifest: 'token.manifest.json',
+    manifestSha256: '00'.repeat(32),
+    rpcUrl: 'https://api.devnet.solana.com',
+    genesisHash: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+    slot: 1234,
+    mint: Keypair.generate().publicKey.toBase58(),
+    generatedAt: new Date().toISOString(),
+    passed: true,
+    checks: [{ category: 'supply', name: 'Total supply', expected: '1000', actual: '1000', ok: true }],
+  };
+}
+
+test('a signed audit report verifies, and any edit or another signer breaks it', () => {
+  const report = auditReport();
+  assert.equal(verifyAuditReportSignature(report), false, 'an unsigned report verified');
+  signAuditReport(report, Keypair.generate());
+  assert.equal(verifyAuditReportSignature(report), true);
+  assert.equal(verifyAuditReportSignature({ ...report, passed: false }), false, 'an edited report verified');
+  assert.equal(verifyAuditReportSignature({ ...report, signer: Keypair.generate().publicKey.toBase58() }), false, 'the signature verified for another signer');
+});
+
+test('promotion differences are expected only where both clusters passed against different expectations', () => {
+  const source = auditReport();
+  const target = auditReport();
+  const mint = (report: AuditReport) => ({ category: 'mint' as const, name: 'Mint address', expected: report.mint, actual: report.mint, ok: true });
+  source.checks.push(mint(source), { category: 'authority', name: 'Freeze authority', expected: 'null', actual: 'null', ok: true });
+  source.checks.push({ category: 'extension', name: 'Transfer fee (bps)', expected: '50', actual: '50', ok: true });
+  target.checks.push(mint(target), { category: 'extension', name: 'Transfer fee (bps)', expected: '50', actual: '100', ok: false });
+  assert.deepEqual(diffAuditReports(source, target), [
+    { check: 'mint: Mint address', source: source.mint, target: target.mint, expected: true },
+    { check: 'authority: Freeze authority', source: 'null', target: 'absent', expected: false },
+    { check: 'extension: Transfer fee (bps)', source: '50', target: '100', expected: false },
+  ]);
+  assert.deepEqual(diffAuditReports(source, source), [], 'identical reports differ');
+});
+
+// A metadata account as the Metaplex program writes it: strings padded with NULs to their maximum length.
+function metadataAccount(fields: { updateAuthority: PublicKey; mint: PublicKey; creators: { address: PublicKey; verified: boolean; share: number }[] | null; collection: PublicKey | null }): Buffer {
+  const string = (value: string, max: number) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(max);
+    return Buffer.concat([length, Buffer.from(value.padEnd(max, '\0'))]);
+  };
+  const creators = fields.creators
+    ? [Buffer.from([1, fields.creators.length, 0, 0, 0]), ...fields.creators.map((c) => Buffer.concat([c.address.toBuffer(), Buffer.from([c.verified ? 1 : 0, c.share])]))]
+    : [Buffer.from([0])];
+  return Buffer.concat([
+    Buffer.from([4]), // key: MetadataV1
+    fields.updateAuthority.toBuffer(),
+    fields.mint.toBuffer(),
+    string('Omega', 32),
+    string('OMG', 10),
+    string('https://example.com/omega.json', 200),
+    Buffer.from([0xfa, 0x00]), // seller fee 250
+    ...creators,
+    Buffer.from([0, 1]), // primary sale not happened, mutable
+    Buffer.from([1, 255]), // edition nonce
+    Buffer.from([1, 2]), // token standard: fungible
+    fields.collection ? Buffer.concat([Buffer.from([1, 0]), fields.collection.toBuffer()]) : Buffer.from([0]),
+    Buffer.alloc(64), // uses and later fields
+  ]);
+}
+
+test('Metaplex metadata decodes with creators and a collection, and without', () => {
+  const [updateAuthority, mint, artist, collection] = Array.from({ length: 4 }, () => Keypair.generate().publicKey);
+  const creators = [{ address: updateAuthority, verified: true, share: 70 }, { address: artist, verified: false, share: 30 }];
+  const metadata = decodeMetaplexMetadata(metadataAccount({ updateAuthority, mint, creators, collection }));
+  assert.ok(metadata.updateAuthority.equals(updateAuthority));
+  assert.ok(metadata.mint.equals(mint));
+  assert.deepEqual([metadata.name, metadata.symbol, metadata.uri], ['Omega', 'OMG', 'https://example.com/omega.json'], 'the NUL padding was not stripped');
+  assert.equal(metadata.sellerFeeBasisPoints, 250);
+  assert.deepEqual(metadata.creators?.map((c) => [c.address.toBase58(), c.verified, c.share]), [[updateAuthority.toBase58(), true, 70], [artist.toBase58(), false, 30]]);
+  assert.equal(metadata.primarySaleHappened, false);
+  assert.equal(metadata.isMutable, true);
+  assert.equal(metadata.collection?.verified, false);
+  assert.ok(metadata.collection?.key.equals(collection));
+
+  const bare = decodeMetaplexMetadata(metadataAccount({ updateAuthority, mint, creators: null, collection: null }));
+  assert.equal(bare.creators, null);
+  assert.equal(bare.collection, null);
+  assert.equal(bare.isMutable, true, 'the fields after the creators option were misread');
+});